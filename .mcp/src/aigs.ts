@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+
+// aigs - one entry point for deployment, diagnostics and the MCP server; see `aigs --help`
+import chalk from "chalk";
+import { exitCodeFor } from "./interaction.js";
+import { runCli } from "./cli-commands.js";
+
+runCli(process.argv.slice(2)).then((code) => {
+  if (code !== undefined) process.exitCode = code;
+}).catch((error) => {
+  console.error(chalk.red("❌"), error instanceof Error ? error.message : error);
+  process.exit(exitCodeFor(error));
+});
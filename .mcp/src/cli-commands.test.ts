@@ -0,0 +1,33 @@
+// cli-commands.test.ts
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { runCli } from "./cli-commands.js";
+import { configureInteraction, EXIT_CODES, UsageError } from "./interaction.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+const cwd = process.cwd();
+
+after(() => {
+  process.chdir(cwd);
+  configureInteraction({});
+});
+
+describe("runCli deploy", () => {
+  test("reads a flag value from the next argument", async () => {
+    const root = tempProject({ "package.json": { name: "app" } });
+
+    await assert.rejects(runCli(["plan", `--cwd=${root}`, "--type", "mobile"]), /Unknown --type: mobile/);
+  });
+
+  test("rejects unknown flags and flags without a value with exit code 2", async () => {
+    const root = tempProject({ "package.json": { name: "app" } });
+
+    for (const args of [["--targte=production"], ["--target"], ["--target", "--force"], ["--target="]]) {
+      await assert.rejects(runCli(["deploy", `--cwd=${root}`, ...args]), (error: unknown) => {
+        assert.ok(error instanceof UsageError);
+        assert.equal(error.exitCode, EXIT_CODES.missingInput);
+        return true;
+      });
+    }
+  });
+});
@@ -0,0 +1,399 @@
+// cli-commands.ts
+import { existsSync, statSync } from "node:fs";
+import { resolve } from "node:path";
+import chalk from "chalk";
+import { runDeploymentOrchestrator, type DeploymentConfig, type DeploymentResult } from "./deployment-orchestrator.js";
+import { configureInteraction, deployInputs, EXIT_CODES, exitCodeFor, interactionFromArgs, UsageError } from "./interaction.js";
+import { configureDeploymentLog, deploymentEvents, type DeploymentLogMode } from "./deployment-events.js";
+import { generateCommitMessage, promptForCommitMessage } from "./commit-message.js";
+import { runSystemCheck, setupMissingPrerequisites } from "./system-check.js";
+import { discoverProjectContext } from "./project-context.js";
+import { diagnoseSSHIssues, sshSetupWizard } from "./ssh-setup.js";
+import { scanForOrphanedFiles } from "./path-helper.js";
+import { formatDeploymentRecord, readDeploymentHistory, rollbackToDeployment, rollbackWizard } from "./deployment-history.js";
+import { undoLastFix } from "./deploy-fixes.js";
+import { mcpHelperMenu } from "./mcp-helper-ui.js";
+
+// Flags every subcommand understands
+export interface CliOptions {
+  cwd: string;
+  json: boolean;
+}
+
+interface CliCommand {
+  // One word, or "group subcommand" such as "ssh setup"
+  name: string;
+  summary: string;
+  // Shown by --help after the usage line
+  help: string;
+  args?: string;
+  run(args: string[], options: CliOptions): Promise<CommandOutcome>;
+}
+
+interface CommandOutcome {
+  // Printed with --json
+  result?: unknown;
+  exitCode?: number;
+  // Set by commands that keep running, like the MCP server
+  keepAlive?: boolean;
+}
+
+const CLI_NAME = "aigs";
+const DEFAULT_COMMIT_MESSAGE = "Update: Deploy latest changes";
+
+const DEPLOY_HELP = `  --force   Push directly to main/master without asking
+  --yes, --ci
+            Never prompt (also on in CI); answers come from flags, DEPLOY_* variables or
+            "deploy" in .mcp/config.json, or the run fails
+  --target  preview, production or a custom Vercel environment
+            (default: DEPLOY_TARGET, then production on main/master, preview elsewhere)
+  --type    frontend, backend or fullstack (default: detected)
+  --package Comma-separated workspace packages to deploy in a monorepo (default: ask)
+  --log     Console output (default), NDJSON events on stdout, or console plus .mcp/logs/*.ndjson
+Flags with a value take it as --target=preview or --target preview.
+Exit codes: 0 success, 1 other error, 2 missing input or bad flag, 3 pre-flight, 4 build, 5 deploy (see interaction.ts)`;
+
+const DEPLOY_ARGS = "[commit message] [--force] [--yes|--ci] [--target=<env>] [--type=<type>] [--package=<names>] [--log=pretty|ndjson|file]";
+
+// deploy and plan flags that take a value, given as --name=value or --name value
+const DEPLOY_VALUE_FLAGS = ["target", "type", "package", "log"];
+const DEPLOY_SWITCHES = ["--force", "--yes", "--ci", "-y", "--plan"];
+
+const COMMANDS: CliCommand[] = [
+  {
+    name: "deploy",
+    summary: "Check, build, commit, push and deploy the project to Vercel",
+    args: `${DEPLOY_ARGS} [--plan]`,
+    help: `  --plan    Print the execution plan without running or writing anything\n${DEPLOY_HELP}`,
+    run: (args, options) => deploy(args, options, args.includes("--plan"))
+  },
+  {
+    name: "plan",
+    summary: "Print every command and file change a deployment would make, without running them",
+    args: DEPLOY_ARGS,
+    help: DEPLOY_HELP,
+    run: (args, options) => deploy(args, options, true)
+  },
+  {
+    name: "check",
+    summary: "Check the operating system, prerequisites, network and disk space",
+    args: "[--offline] [--install]",
+    help: `  --offline  Report network failures as warnings (also MCP_OFFLINE=1 or "network.offline" in .mcp/config.json)
+  --install  Install every missing or outdated prerequisite afterwards (asks first in a terminal)
+Exits with 1 when a required check fails. --json prints the SystemCheckResult.`,
+    run: async (args) => {
+      const result = await runSystemCheck({ offline: args.includes("--offline") || undefined });
+      if (args.includes("--install")) await setupMissingPrerequisites(result, { install: true });
+      return { result, exitCode: result.passed ? EXIT_CODES.success : EXIT_CODES.failure };
+    }
+  },
+  {
+    name: "analyze",
+    summary: "Summarise the project and report whether it is ready to deploy",
+    help: "Exits with 1 when the project is not ready. --json prints { context, readiness }.",
+    run: async (_args, options) => {
+      const result = await discoverProjectContext(options.cwd);
+      return { result, exitCode: result.readiness.ready ? EXIT_CODES.success : EXIT_CODES.failure };
+    }
+  },
+  {
+    name: "rollback",
+    summary: "Make an earlier recorded deployment live again",
+    args: "[id|url] [--list] [--promote]",
+    help: `  id|url     The deployment to restore, from --list (default: pick one from the history)
+  --list     Print the recorded deployments, newest first, and restore nothing
+  --promote  Allow a preview or custom-environment deployment to become the production deployment
+--json prints the restored DeploymentRecord, or the history with --list.`,
+    run: async (args, options) => {
+      const history = readDeploymentHistory(options.cwd);
+      if (args.includes("--list")) {
+        if (history.length === 0) console.log(chalk.yellow("⚠️  No deployments recorded yet"));
+        history.forEach(record => console.log(`${record.id}  ${formatDeploymentRecord(record)}`));
+        return { result: history };
+      }
+
+      const [wanted] = args.filter(arg => !arg.startsWith("-"));
+      if (!wanted) return { result: await rollbackWizard(options.cwd) ?? null };
+      const record = history.find(entry => entry.id === wanted || entry.url === wanted);
+      if (!record) throw new Error(`No recorded deployment matches ${wanted}; run ${CLI_NAME} rollback --list`);
+      await rollbackToDeployment(record, options.cwd, { promote: args.includes("--promote") });
+      return { result: record };
+    }
+  },
+  {
+    name: "undo-fix",
+    summary: "Restore the files the most recent automatic deploy fix changed",
+    help: "--json prints the snapshot that was restored, or null when there was nothing to undo.",
+    run: async (_args, options) => ({ result: await undoLastFix(options.cwd) ?? null })
+  },
+  {
+    name: "ssh setup",
+    summary: "Create an SSH key, start the agent and configure Git for GitHub",
+    help: "Runs the setup wizard, then the diagnosis; --json prints the diagnosis afterwards.",
+    run: async () => {
+      await sshSetupWizard();
+      return { result: await diagnoseSSHIssues() };
+    }
+  },
+  {
+    name: "ssh diagnose",
+    summary: "Check SSH keys, the agent, the GitHub connection and the Git remote",
+    help: "--json prints the SSH diagnostics and recommendations.",
+    run: async () => ({ result: await diagnoseSSHIssues() })
+  },
+  {
+    name: "files orphaned",
+    summary: "List files created in the last day outside the project (home, Desktop, /tmp, ...)",
+    help: "--json prints the list of paths.",
+    run: async (_args, options) => {
+      const orphaned = await scanForOrphanedFiles(options.cwd);
+      if (orphaned.length === 0) {
+        console.log(chalk.green("✅ No orphaned files found"));
+      } else {
+        console.log(chalk.yellow(`⚠️  ${orphaned.length} file(s) outside the project root:`));
+        orphaned.forEach(file => console.log(`  - ${file}`));
+      }
+      return { result: orphaned };
+    }
+  },
+  {
+    name: "serve",
+    summary: "Start the MCP server on stdio",
+    help: "stdout carries the MCP protocol, so serve has no --json output.",
+    run: async (_args, options) => {
+      if (options.json) throw new Error("serve speaks MCP on stdout and cannot print --json");
+      await import("./index.js");
+      return { keepAlive: true };
+    }
+  }
+];
+
+/**
+ * Runs `aigs <command> [subcommand] [options]` and returns the exit code, or
+ * undefined while a command (serve) keeps the process running.
+ * Without a command the interactive helper menu starts.
+ */
+export async function runCli(argv: string[]): Promise<number | undefined> {
+  const options = parseGlobalOptions(argv);
+  const rest = argv.filter(arg => !isGlobalOption(arg));
+  const positional = rest.filter(arg => !arg.startsWith("-"));
+  const help = rest.includes("--help") || rest.includes("-h");
+
+  const command = findCommand(positional);
+  if (!command) {
+    const group = COMMANDS.filter(candidate => candidate.name.startsWith(`${positional[0]} `));
+    if (positional.length === 0 && help) {
+      printHelp(COMMANDS);
+      return EXIT_CODES.success;
+    }
+    if (group.length > 0) {
+      printHelp(group);
+      return help ? EXIT_CODES.success : EXIT_CODES.failure;
+    }
+    if (positional.length > 0) {
+      console.error(chalk.red(`❌ Unknown command: ${positional[0]}`));
+      printHelp(COMMANDS);
+      return EXIT_CODES.failure;
+    }
+  }
+
+  if (help && command) {
+    printCommandHelp(command);
+    return EXIT_CODES.success;
+  }
+
+  process.chdir(options.cwd);
+  // stdout is reserved for the JSON result, so prompts cannot use it either
+  configureInteraction(options.json ? { nonInteractive: true } : interactionFromArgs(rest));
+
+  if (!command) {
+    if (options.json) throw new Error(`The menu has no --json output; run ${CLI_NAME} --help for the commands`);
+    await mcpHelperMenu();
+    return EXIT_CODES.success;
+  }
+
+  const args = withoutCommandWords(rest, command);
+  if (!options.json) {
+    const outcome = await command.run(args, options);
+    return outcome.keepAlive ? undefined : outcome.exitCode ?? EXIT_CODES.success;
+  }
+
+  const restoreConsole = redirectConsoleToStderr();
+  try {
+    const outcome = await command.run(args, options);
+    restoreConsole();
+    printJson(outcome.result ?? null);
+    return outcome.exitCode ?? EXIT_CODES.success;
+  } catch (error) {
+    restoreConsole();
+    printJson({ error: error instanceof Error ? error.message : String(error), exitCode: exitCodeFor(error) });
+    return exitCodeFor(error);
+  }
+}
+
+// Helper functions
+
+async function deploy(args: string[], options: CliOptions, planOnly: boolean): Promise<CommandOutcome> {
+  const { positional, values } = parseDeployArgs(args);
+  const flag = (name: string): string | undefined => values.get(name);
+  const logMode = flag("log");
+  if (logMode === "ndjson" && options.json) {
+    throw new Error("--json and --log=ndjson both write to stdout; pick one");
+  }
+  if (logMode) {
+    configureDeploymentLog({ mode: logMode as DeploymentLogMode });
+  }
+
+  // Keep stdout clean for NDJSON consumers
+  const banner = deploymentEvents.getMode() === "ndjson" ? console.error : console.log;
+  banner(chalk.cyan(`
+╔═══════════════════════════════════════════╗
+║     🚀 WSL Deployment Tool                ║
+║     Seamless Vercel Deployment            ║
+╚═══════════════════════════════════════════╝
+  `));
+
+  try {
+    const inputs = deployInputs(options.cwd);
+    const projectType = flag("type") ?? "auto";
+    if (!["auto", "frontend", "backend", "fullstack"].includes(projectType)) {
+      throw new Error(`Unknown --type: ${projectType}. Use frontend, backend or fullstack`);
+    }
+
+    // Check if we have a commit message from command line
+    const commitMessage = positional[0] || inputs.commitMessage || (planOnly
+      ? generateCommitMessage()?.message ?? DEFAULT_COMMIT_MESSAGE
+      : await promptForCommitMessage({ fallback: DEFAULT_COMMIT_MESSAGE }));
+
+    banner(chalk.yellow("\n🔍 Analyzing project structure..."));
+
+    // Run the deployment orchestrator with auto-detection
+    const result: DeploymentResult = await runDeploymentOrchestrator(projectType as DeploymentConfig["projectType"], commitMessage, {
+      dryRun: planOnly,
+      force: args.includes("--force"),
+      target: flag("target") ?? inputs.target,
+      packages: flag("package")?.split(",").map(name => name.trim()).filter(Boolean)
+    });
+
+    if (result.packages) {
+      for (const pkg of result.packages.filter(pkg => pkg.url)) {
+        banner(chalk.green(`\n🔗 ${pkg.name} ${result.target} deployment: ${pkg.url}`));
+      }
+    } else if (result.url) {
+      banner(chalk.green(`\n🔗 ${result.target} deployment: ${result.url}`));
+    }
+
+    const logFile = deploymentEvents.getLogFile();
+    if (logFile) {
+      banner(chalk.gray(`\n📄 Deployment log written to ${logFile}`));
+    }
+
+    return { result };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red("\n❌ Deployment failed:"), message);
+
+    // Provide helpful error messages
+    if (message.includes("SSH")) {
+      banner(chalk.yellow(`\n💡 Tip: Run '${CLI_NAME} ssh setup' to configure SSH for GitHub`));
+    } else if (message.includes("Vercel")) {
+      banner(chalk.yellow("\n💡 Tip: Make sure you're logged into Vercel with 'vercel login'"));
+    } else if (message.includes("git")) {
+      banner(chalk.yellow("\n💡 Tip: Initialize a git repository with 'git init' first"));
+    }
+
+    throw error;
+  }
+}
+
+// Splits deploy arguments into the commit message words and flag values; anything else is a usage error
+function parseDeployArgs(args: string[]): { positional: string[]; values: Map<string, string> } {
+  const positional: string[] = [];
+  const values = new Map<string, string>();
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (!arg.startsWith("-")) {
+      positional.push(arg);
+      continue;
+    }
+    if (DEPLOY_SWITCHES.includes(arg)) continue;
+
+    const equals = arg.indexOf("=");
+    const name = arg.slice(2, equals === -1 ? undefined : equals);
+    if (!arg.startsWith("--") || !DEPLOY_VALUE_FLAGS.includes(name)) {
+      throw new UsageError(`Unknown option: ${arg}. Run ${CLI_NAME} deploy --help for the options`);
+    }
+    const value = equals === -1 ? args[++index] : arg.slice(equals + 1);
+    if (!value || (equals === -1 && value.startsWith("-"))) {
+      throw new UsageError(`--${name} needs a value, e.g. --${name}=<value>`);
+    }
+    values.set(name, value);
+  }
+  return { positional, values };
+}
+
+function findCommand(positional: string[]): CliCommand | undefined {
+  const twoWords = positional.slice(0, 2).join(" ");
+  return COMMANDS.find(command => command.name === twoWords)
+    ?? COMMANDS.find(command => command.name === positional[0] && !command.name.includes(" "));
+}
+
+// The command's own arguments, wherever the command words appeared among the flags
+function withoutCommandWords(args: string[], command: CliCommand): string[] {
+  const words = command.name.split(" ");
+  return args.filter(arg => {
+    if (arg === words[0]) {
+      words.shift();
+      return false;
+    }
+    return true;
+  });
+}
+
+function parseGlobalOptions(argv: string[]): CliOptions {
+  const cwdFlag = argv.find(arg => arg.startsWith("--cwd="))?.slice("--cwd=".length);
+  const cwd = resolve(cwdFlag || process.cwd());
+  if (!existsSync(cwd) || !statSync(cwd).isDirectory()) {
+    throw new Error(`--cwd is not a directory: ${cwd}`);
+  }
+  return { cwd, json: argv.includes("--json") };
+}
+
+function isGlobalOption(arg: string): boolean {
+  return arg === "--json" || arg.startsWith("--cwd=");
+}
+
+function printHelp(commands: CliCommand[]): void {
+  console.log(`Usage: ${CLI_NAME} [command] [--cwd=<dir>] [--json] [--help]\n`);
+  console.log(`Without a command, ${CLI_NAME} opens the interactive helper menu.\n`);
+  console.log("Commands:");
+  const width = Math.max(...commands.map(command => command.name.length));
+  for (const command of commands) {
+    console.log(`  ${command.name.padEnd(width)}  ${command.summary}`);
+  }
+  console.log(`\nOptions:
+  --cwd=<dir>  Run in this project directory (default: the current directory)
+  --json       Print the result as JSON on stdout; progress goes to stderr and prompts are off
+  --yes, --ci  Never prompt; also on when CI=true, DEPLOY_NON_INTERACTIVE=1 or stdin is not a terminal
+  --help, -h   Show help for a command`);
+}
+
+function printCommandHelp(command: CliCommand): void {
+  console.log(`Usage: ${CLI_NAME} ${command.name}${command.args ? ` ${command.args}` : ""} [--cwd=<dir>] [--json]\n`);
+  console.log(`${command.summary}\n`);
+  console.log(command.help);
+}
+
+function redirectConsoleToStderr(): () => void {
+  const { log, info } = console;
+  console.log = console.error;
+  console.info = console.error;
+  return () => {
+    console.log = log;
+    console.info = info;
+  };
+}
+
+function printJson(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+}
@@ -1,6 +1,11 @@
 #!/usr/bin/env node
 
+import chalk from "chalk";
+import { exitCodeFor } from "./interaction.js";
 import { mcpHelperMenu } from "./mcp-helper-ui.js";
 
 // IMPORTANT: make sure you have run `npm install inquirer` for prompt UI
-mcpHelperMenu();
+mcpHelperMenu().catch((error) => {
+  console.error(chalk.red("❌"), error instanceof Error ? error.message : error);
+  process.exit(exitCodeFor(error));
+});
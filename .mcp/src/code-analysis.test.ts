@@ -0,0 +1,81 @@
+// code-analysis.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeCode, formatAnalysisReport } from "./code-analysis.js";
+
+const rulesAt = (code: string, language = "typescript") =>
+  analyzeCode(code, language).findings.map(finding => `${finding.line} ${finding.rule}`);
+
+describe("analyzeCode", () => {
+  test("measures complexity per function, counting branches and short-circuits", () => {
+    const result = analyzeCode([
+      "export function pick(a: number, b?: number) {",
+      "  if (a > 0 && b) return a;",
+      "  for (const x of [a]) { if (x) return b ?? x; }",
+      "  return 0;",
+      "}",
+      "export const arrow = () => 1;"
+    ].join("\n"), "typescript");
+
+    assert.deepEqual(result.functions.map(fn => [fn.name, fn.complexity, fn.lineCount]), [["pick", 6, 5], ["arrow", 1, 1]]);
+  });
+
+  test("reports complexity, length and nesting over the thresholds", () => {
+    const code = [
+      "export function busy(x: number) {",
+      "  if (x) { if (x > 1) { if (x > 2) { if (x > 3) { return x || 1; } } } }",
+      "  return 0;",
+      "}"
+    ].join("\n");
+    const result = analyzeCode(code, "ts", { complexityThreshold: 2, maxFunctionLines: 3, maxNestingDepth: 3 });
+
+    assert.deepEqual(result.findings.map(finding => `${finding.line}:${finding.column} ${finding.rule} ${finding.severity}`), [
+      "1:1 complexity error",
+      "1:1 long-function warning",
+      "2:38 deep-nesting warning"
+    ]);
+  });
+
+  test("flags explicit any and syntax errors", () => {
+    assert.deepEqual(rulesAt("export const value: any = 1;"), ["1 any-usage"]);
+    assert.deepEqual(rulesAt("export function broken( {"), ["1 syntax-error"]);
+  });
+
+  test("reports unused locals, parameters and imports in modules", () => {
+    const code = [
+      "import { readFileSync } from 'node:fs';",
+      "const unusedTopLevel = 1;",
+      "export function run(flag: boolean) {",
+      "  const unusedInner = 2;",
+      "}"
+    ].join("\n");
+
+    assert.deepEqual(rulesAt(code), ["1 unused-variable", "2 unused-variable", "3 unused-variable", "4 unused-variable"]);
+  });
+
+  test("leaves top-level declarations of scripts and CommonJS files alone", () => {
+    const code = [
+      "const path = require('path');",
+      "function helper() { const unusedInner = 1; }",
+      "var config = { path };"
+    ].join("\n");
+
+    assert.deepEqual(rulesAt(code, "javascript"), ["2 unused-variable"]);
+  });
+
+  test("returns an unsupported result for languages it cannot parse", () => {
+    const result = analyzeCode("print('hi')", "python");
+
+    assert.equal(result.supported, false);
+    assert.match(formatAnalysisReport(result), /not available for 'python'. Supported languages: typescript, ts/);
+  });
+});
+
+describe("formatAnalysisReport", () => {
+  test("lists functions and findings", () => {
+    const report = formatAnalysisReport(analyzeCode("export function ok(): number { return 1; }", "typescript"));
+
+    assert.match(report, /Functions \(1\):\n- ok \(line 1\): complexity 1, 1 lines\n/);
+    assert.match(report, /Findings \(0\):\n- No issues found\n/);
+  });
+});
@@ -0,0 +1,390 @@
+// code-analysis.ts
+import ts from "typescript";
+
+export type FindingRule =
+  | "complexity"
+  | "unused-variable"
+  | "any-usage"
+  | "long-function"
+  | "deep-nesting"
+  | "syntax-error";
+
+export interface CodeFinding {
+  rule: FindingRule;
+  severity: "info" | "warning" | "error";
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface FunctionMetrics {
+  name: string;
+  line: number;
+  column: number;
+  complexity: number;
+  lineCount: number;
+}
+
+export interface CodeAnalysisResult {
+  language: string;
+  supported: boolean;
+  lineCount: number;
+  functions: FunctionMetrics[];
+  findings: CodeFinding[];
+}
+
+export interface CodeAnalysisOptions {
+  complexityThreshold?: number;
+  maxFunctionLines?: number;
+  maxNestingDepth?: number;
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  typescript: ts.ScriptKind.TS,
+  ts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  javascript: ts.ScriptKind.JS,
+  js: ts.ScriptKind.JS,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX
+};
+
+// Diagnostics emitted by noUnusedLocals / noUnusedParameters
+const UNUSED_DIAGNOSTIC_CODES = new Set([6133, 6138, 6196, 6198, 6199, 6205]);
+
+// Nodes between a top-level statement and a name it declares
+const TOP_LEVEL_NAME_PARTS = new Set([
+  ts.SyntaxKind.Identifier,
+  ts.SyntaxKind.VariableDeclarationList,
+  ts.SyntaxKind.VariableDeclaration,
+  ts.SyntaxKind.ObjectBindingPattern,
+  ts.SyntaxKind.ArrayBindingPattern,
+  ts.SyntaxKind.BindingElement
+]);
+
+/**
+ * Resolves a user-supplied language name to a TypeScript script kind.
+ * Returns undefined for languages the compiler API cannot parse.
+ */
+export function resolveScriptKind(language: string): ts.ScriptKind | undefined {
+  return SCRIPT_KINDS[language.trim().toLowerCase()];
+}
+
+export function parseSource(code: string, language: string): ts.SourceFile | undefined {
+  const scriptKind = resolveScriptKind(language);
+  if (scriptKind === undefined) return undefined;
+
+  return ts.createSourceFile(
+    fileNameFor(scriptKind),
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind
+  );
+}
+
+export function analyzeCode(
+  code: string,
+  language: string,
+  options: CodeAnalysisOptions = {}
+): CodeAnalysisResult {
+  const {
+    complexityThreshold = 10,
+    maxFunctionLines = 50,
+    maxNestingDepth = 4
+  } = options;
+
+  const result: CodeAnalysisResult = {
+    language,
+    supported: false,
+    lineCount: code.split("\n").length,
+    functions: [],
+    findings: []
+  };
+
+  const sourceFile = parseSource(code, language);
+  if (!sourceFile) return result;
+
+  result.supported = true;
+
+  const program = createInMemoryProgram(sourceFile);
+
+  // Syntax errors make every other metric unreliable, so report them first
+  for (const diagnostic of program.getSyntacticDiagnostics(sourceFile)) {
+    result.findings.push(toFinding(sourceFile, diagnostic.start, "syntax-error", "error",
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")));
+  }
+
+  const visit = (node: ts.Node, nesting: number): void => {
+    if (node.kind === ts.SyntaxKind.AnyKeyword) {
+      result.findings.push(toFinding(sourceFile, node.getStart(sourceFile), "any-usage", "warning",
+        "Explicit 'any' disables type checking; prefer a specific type or 'unknown'"));
+    }
+
+    if (isFunctionWithBody(node)) {
+      const metrics = measureFunction(node, sourceFile);
+      result.functions.push(metrics);
+
+      if (metrics.complexity > complexityThreshold) {
+        result.findings.push({
+          rule: "complexity",
+          severity: metrics.complexity > complexityThreshold * 2 ? "error" : "warning",
+          message: `Function '${metrics.name}' has cyclomatic complexity ${metrics.complexity} (threshold ${complexityThreshold})`,
+          line: metrics.line,
+          column: metrics.column
+        });
+      }
+
+      if (metrics.lineCount > maxFunctionLines) {
+        result.findings.push({
+          rule: "long-function",
+          severity: "warning",
+          message: `Function '${metrics.name}' spans ${metrics.lineCount} lines (max ${maxFunctionLines})`,
+          line: metrics.line,
+          column: metrics.column
+        });
+      }
+
+      // Nesting depth restarts inside every function body
+      ts.forEachChild(node, child => visit(child, 0));
+      return;
+    }
+
+    let depth = nesting;
+    if (isNestingStatement(node)) {
+      depth++;
+      if (depth === maxNestingDepth + 1) {
+        result.findings.push(toFinding(sourceFile, node.getStart(sourceFile), "deep-nesting", "warning",
+          `Block is nested ${depth} levels deep (max ${maxNestingDepth}); consider early returns or extracting a function`));
+      }
+    }
+
+    ts.forEachChild(node, child => visit(child, depth));
+  };
+
+  visit(sourceFile, 0);
+
+  // Scripts and CommonJS files share their top-level declarations without `export`,
+  // so an unused one there may well be read by another file
+  const reportTopLevel = hasModuleExports(sourceFile);
+  const unusedDiagnostics = program
+    .getSemanticDiagnostics(sourceFile)
+    .filter(diagnostic => UNUSED_DIAGNOSTIC_CODES.has(diagnostic.code))
+    .filter(diagnostic => reportTopLevel || !declaresTopLevel(sourceFile, diagnostic.start ?? 0));
+  for (const diagnostic of unusedDiagnostics) {
+    result.findings.push(toFinding(sourceFile, diagnostic.start, "unused-variable", "warning",
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")));
+  }
+
+  result.findings.sort((a, b) => a.line - b.line || a.column - b.column);
+  return result;
+}
+
+export function formatAnalysisReport(result: CodeAnalysisResult): string {
+  if (!result.supported) {
+    return `Static analysis is not available for '${result.language}'. Supported languages: ${Object.keys(SCRIPT_KINDS).join(", ")}`;
+  }
+
+  let report = `Code Quality Report (${result.language}, ${result.lineCount} lines)\n`;
+
+  report += `\nFunctions (${result.functions.length}):\n`;
+  if (result.functions.length === 0) {
+    report += "- None found\n";
+  }
+  for (const fn of result.functions) {
+    report += `- ${fn.name} (line ${fn.line}): complexity ${fn.complexity}, ${fn.lineCount} lines\n`;
+  }
+
+  report += `\nFindings (${result.findings.length}):\n`;
+  if (result.findings.length === 0) {
+    report += "- No issues found\n";
+  }
+  for (const finding of result.findings) {
+    report += `- [${finding.severity}] ${finding.line}:${finding.column} ${finding.rule}: ${finding.message}\n`;
+  }
+
+  return report;
+}
+
+// Helper functions
+
+export type FunctionWithBody =
+  | ts.FunctionDeclaration
+  | ts.FunctionExpression
+  | ts.ArrowFunction
+  | ts.MethodDeclaration
+  | ts.ConstructorDeclaration
+  | ts.GetAccessorDeclaration
+  | ts.SetAccessorDeclaration;
+
+export function isFunctionWithBody(node: ts.Node): node is FunctionWithBody {
+  return (
+    ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node)
+  ) && node.body !== undefined;
+}
+
+export function getFunctionName(node: FunctionWithBody): string {
+  const className = node.parent && ts.isClassLike(node.parent) && node.parent.name
+    ? `${node.parent.name.text}.`
+    : "";
+
+  if (ts.isConstructorDeclaration(node)) return `${className}constructor`;
+  if (node.name && (ts.isIdentifier(node.name) || ts.isPrivateIdentifier(node.name) || ts.isStringLiteral(node.name))) {
+    return `${className}${node.name.text}`;
+  }
+
+  // Arrow functions and function expressions take the name they are bound to
+  const parent = node.parent;
+  if (parent && (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent))
+    && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+
+  return "<anonymous>";
+}
+
+function measureFunction(node: FunctionWithBody, sourceFile: ts.SourceFile): FunctionMetrics {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+
+  let complexity = 1;
+  const countBranches = (child: ts.Node): void => {
+    // Nested functions are measured separately
+    if (isFunctionWithBody(child)) return;
+
+    switch (child.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CaseClause:
+      case ts.SyntaxKind.CatchClause:
+        complexity++;
+        break;
+      case ts.SyntaxKind.BinaryExpression: {
+        const operator = (child as ts.BinaryExpression).operatorToken.kind;
+        if (
+          operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+          operator === ts.SyntaxKind.BarBarToken ||
+          operator === ts.SyntaxKind.QuestionQuestionToken
+        ) {
+          complexity++;
+        }
+        break;
+      }
+    }
+
+    ts.forEachChild(child, countBranches);
+  };
+
+  if (node.body) {
+    countBranches(node.body);
+  }
+
+  return {
+    name: getFunctionName(node),
+    line: start.line + 1,
+    column: start.character + 1,
+    complexity,
+    lineCount: end.line - start.line + 1
+  };
+}
+
+function isNestingStatement(node: ts.Node): boolean {
+  return (
+    ts.isIfStatement(node) ||
+    ts.isIterationStatement(node, false) ||
+    ts.isSwitchStatement(node) ||
+    ts.isTryStatement(node)
+  ) && !(ts.isIfStatement(node) && ts.isIfStatement(node.parent) && node.parent.elseStatement === node);
+}
+
+function hasModuleExports(sourceFile: ts.SourceFile): boolean {
+  return sourceFile.statements.some(statement =>
+    ts.isExportDeclaration(statement)
+    || ts.isExportAssignment(statement)
+    || (ts.canHaveModifiers(statement)
+      && (ts.getModifiers(statement) || []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)));
+}
+
+// Whether the position is the name of a top-level variable, function, class or type, as opposed to a
+// parameter, an import or anything declared inside a body
+function declaresTopLevel(sourceFile: ts.SourceFile, position: number): boolean {
+  let node: ts.Node = sourceFile;
+  for (let child = childAt(node, position, sourceFile); child; child = childAt(node, position, sourceFile)) {
+    node = child;
+  }
+
+  for (; node.parent && node.parent !== sourceFile; node = node.parent) {
+    if (!TOP_LEVEL_NAME_PARTS.has(node.kind)) return false;
+  }
+  return node !== sourceFile && !ts.isImportDeclaration(node) && !ts.isImportEqualsDeclaration(node);
+}
+
+function childAt(node: ts.Node, position: number, sourceFile: ts.SourceFile): ts.Node | undefined {
+  return ts.forEachChild(node, child =>
+    child.getStart(sourceFile) <= position && position < child.getEnd() ? child : undefined);
+}
+
+/**
+ * Builds a single-file program with noUnusedLocals/noUnusedParameters enabled.
+ * No lib files are loaded, so callers should only trust syntactic and unused diagnostics.
+ */
+function createInMemoryProgram(sourceFile: ts.SourceFile): ts.Program {
+  const compilerOptions: ts.CompilerOptions = {
+    noLib: true,
+    noResolve: true,
+    types: [],
+    allowJs: true,
+    checkJs: true,
+    noUnusedLocals: true,
+    noUnusedParameters: true,
+    moduleDetection: ts.ModuleDetectionKind.Force,
+    jsx: ts.JsxEmit.Preserve,
+    target: ts.ScriptTarget.Latest
+  };
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName) => (fileName === sourceFile.fileName ? sourceFile : undefined),
+    getDefaultLibFileName: () => "lib.d.ts",
+    writeFile: () => undefined,
+    getCurrentDirectory: () => "/",
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => "\n",
+    fileExists: (fileName) => fileName === sourceFile.fileName,
+    readFile: () => undefined
+  };
+
+  return ts.createProgram([sourceFile.fileName], compilerOptions, host);
+}
+
+function toFinding(
+  sourceFile: ts.SourceFile,
+  position: number | undefined,
+  rule: FindingRule,
+  severity: CodeFinding["severity"],
+  message: string
+): CodeFinding {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position ?? 0);
+  return { rule, severity, message, line: line + 1, column: character + 1 };
+}
+
+function fileNameFor(scriptKind: ts.ScriptKind): string {
+  switch (scriptKind) {
+    case ts.ScriptKind.TSX: return "/input.tsx";
+    case ts.ScriptKind.JS: return "/input.js";
+    case ts.ScriptKind.JSX: return "/input.jsx";
+    default: return "/input.ts";
+  }
+}
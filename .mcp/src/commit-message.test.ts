@@ -0,0 +1,75 @@
+// commit-message.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { classifyChange, draftCommitMessage, generateCommitMessage, type FileChange } from "./commit-message.js";
+import { git, tempProject, writeProjectFiles } from "./test-fixtures/projects.js";
+
+const change = (path: string, status: FileChange["status"] = "modified", additions = 1, deletions = 0): FileChange =>
+  ({ path, status, additions, deletions, kind: classifyChange(path), addedExports: [] });
+
+// A repository with one commit, then the given edits left unstaged
+function editedRepo(before: Record<string, string>, after: Record<string, string>): string {
+  const root = tempProject(before, { git: true });
+  git(root, "add", "-A");
+  git(root, "commit", "--quiet", "-m", "init");
+  writeProjectFiles(root, after);
+  return root;
+}
+
+describe("classifyChange", () => {
+  test("sorts paths into dependencies, tests, docs, config and source", () => {
+    assert.deepEqual(
+      ["pnpm-lock.yaml", "src/a.test.ts", "docs/setup.txt", ".github/workflows/ci.yml", "tsconfig.build.json", "src/app.tsx", "logo.png"]
+        .map(classifyChange),
+      ["deps", "tests", "docs", "config", "config", "source", "other"]
+    );
+  });
+});
+
+describe("draftCommitMessage", () => {
+  test("scopes a single-directory change and lists groups in the body", () => {
+    const draft = draftCommitMessage([change("src/auth/login.ts", "added"), change("src/auth/session.ts", "added")]);
+
+    assert.equal(draft?.message, "feat(auth): add 2 source files in src/auth\n\n- src/auth (source): add login.ts, add session.ts");
+  });
+
+  test("picks the type from the kinds and sizes of the changes", () => {
+    assert.equal(draftCommitMessage([change("package.json"), change("package-lock.json")])?.message.split("\n")[0], "build(deps): update dependencies");
+    assert.equal(draftCommitMessage([change(".github/workflows/ci.yml")])?.type, "ci");
+    assert.equal(draftCommitMessage([change("src/a.ts", "modified", 2, 10)])?.type, "refactor");
+    assert.equal(draftCommitMessage([change("src/a.ts", "modified", 10, 2)])?.type, "fix");
+    assert.equal(draftCommitMessage([]), undefined);
+  });
+});
+
+describe("generateCommitMessage", () => {
+  test("calls a modified file that gains an export a feature", () => {
+    const root = editedRepo(
+      { "src/math.ts": "export function add(a: number, b: number) { return a + b; }\n" },
+      { "src/math.ts": "export function add(a: number, b: number) { return a + b; }\nexport function sub(a: number, b: number) { return a - b; }\n" }
+    );
+
+    const draft = generateCommitMessage(root);
+    assert.equal(draft?.source, "working-tree");
+    assert.deepEqual(draft?.groups[0].files[0].addedExports, ["sub"]);
+    assert.equal(draft?.message, "feat(src): update math.ts");
+  });
+
+  test("does not count a changed export signature as new", () => {
+    const root = editedRepo(
+      { "src/math.ts": "export function add(a: number, b: number) {\n  return a + b;\n}\n" },
+      { "src/math.ts": "export function add(a: number, b = 0) {\n  return a + b;\n}\n" }
+    );
+
+    assert.equal(generateCommitMessage(root)?.type, "fix");
+  });
+
+  test("prefers staged changes over the working tree", () => {
+    const root = editedRepo({ "a.md": "a\n", "b.md": "b\n" }, { "a.md": "a2\n", "b.md": "b2\n" });
+    git(root, "add", "a.md");
+
+    const draft = generateCommitMessage(root);
+    assert.equal(draft?.source, "staged");
+    assert.equal(draft?.message, "docs: update a.md");
+  });
+});
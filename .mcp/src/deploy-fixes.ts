@@ -0,0 +1,421 @@
+// deploy-fixes.ts
+import { promisify } from "node:util";
+import { execFile as execFileCallback } from "node:child_process";
+import { existsSync, readdirSync, readFileSync, rmSync, statSync, chmodSync } from "node:fs";
+import { builtinModules } from "node:module";
+import { join, relative } from "node:path";
+import inquirer from "inquirer";
+import { deploymentLogger } from "./deployment-events.js";
+import {
+  addCommand,
+  addCommandArgs,
+  clearPackageManagerCache,
+  DEFAULT_LOCKFILES,
+  detectPackageManager,
+  isValidPackageName,
+  readPackageJson
+} from "./package-manager.js";
+import { resolveSafePath, writeSafeFile } from "./path-helper.js";
+import {
+  detectOutputDirectory,
+  formatConfig,
+  formatConfigDiff,
+  proposeVercelConfig,
+  VERCEL_CONFIG_FILE,
+  VERCEL_CONFIG_SCHEMA_URL,
+  type VercelConfig
+} from "./vercel-config.js";
+
+const execFile = promisify(execFileCallback);
+const log = deploymentLogger("vercel");
+
+export const FIX_SNAPSHOT_DIR = join(".mcp", "fix-snapshots");
+
+// Oldest snapshots are dropped beyond this point
+const MAX_SNAPSHOTS = 20;
+
+// Node.js majors Vercel builds with, newest first
+const VERCEL_NODE_MAJORS = [22, 20];
+
+export interface FixContext {
+  projectRoot: string;
+  // The captured deploy output, without color codes
+  output: string;
+  // The signature match; group 1 usually holds the module, version or directory it names
+  match: RegExpMatchArray;
+}
+
+export interface FixProposal {
+  summary: string;
+  // Shown before the fix is confirmed, e.g. a diff or the command it runs
+  details?: string;
+  // Files the fix writes or deletes, relative to the project root; they are snapshotted first
+  files: string[];
+  apply(): Promise<void> | void;
+}
+
+export interface DeployFix {
+  id: string;
+  description: string;
+  // Error messages in Vercel, npm or compiler output that this fix addresses
+  signatures: RegExp[];
+  // What the fix would change here, or undefined when it does not apply to this project
+  propose(context: FixContext): FixProposal | undefined;
+}
+
+export interface ProposedFix {
+  fix: DeployFix;
+  // The output line that matched
+  evidence: string;
+  proposal: FixProposal;
+}
+
+export interface SnapshotFile {
+  // Relative to the project root; in a workspace package the lockfile sits above it
+  path: string;
+  existed: boolean;
+  mode?: number;
+  // Base64, so binary lockfiles round-trip exactly
+  content?: string;
+}
+
+export interface FixSnapshot {
+  id: string;
+  fix: string;
+  summary: string;
+  timestamp: string;
+  files: SnapshotFile[];
+}
+
+const BUILTIN_FIXES: DeployFix[] = [
+  {
+    id: "missing-module",
+    description: "Missing dependency",
+    signatures: [
+      /Cannot find module '([^'./][^']*)'/,
+      /Module not found: (?:Error: )?Can't resolve '([^'./][^']*)'/,
+      /Cannot find package '([^'./][^']*)'/
+    ],
+    propose: ({ projectRoot, match }) => proposeDependency(projectRoot, packageNameOf(match[1]), false)
+  },
+  {
+    id: "missing-type-declarations",
+    description: "Missing TypeScript declarations",
+    signatures: [/Could not find a declaration file for module '([^'./][^']*)'/],
+    propose: ({ projectRoot, match }) => {
+      const name = packageNameOf(match[1]);
+      // @scope/pkg is published as @types/scope__pkg
+      return proposeDependency(projectRoot, `@types/${name.replace(/^@/, "").replace("/", "__")}`, true);
+    }
+  },
+  {
+    id: "missing-typescript",
+    description: "TypeScript compiler not installed",
+    signatures: [/tsc: (?:command )?not found/, /'tsc' is not recognized/],
+    propose: ({ projectRoot }) => proposeDependency(projectRoot, "typescript", true)
+  },
+  {
+    id: "output-directory",
+    description: "Wrong output directory",
+    signatures: [/No Output Directory named "([^"]+)" found after the Build completed/],
+    propose: ({ projectRoot, match }) => {
+      const outputDirectory = detectOutputDirectory(projectRoot);
+      if (!outputDirectory || outputDirectory === match[1]) return undefined;
+
+      const configPath = join(projectRoot, VERCEL_CONFIG_FILE);
+      const before = existsSync(configPath) ? readFileSync(configPath, "utf-8") : "";
+      let config: VercelConfig;
+      try {
+        config = before ? JSON.parse(before) : { $schema: VERCEL_CONFIG_SCHEMA_URL };
+      } catch {
+        return undefined;
+      }
+      const after = formatConfig({ ...config, outputDirectory });
+
+      return {
+        summary: `Set outputDirectory to "${outputDirectory}" (the build does not write "${match[1]}")`,
+        details: formatConfigDiff(before, after),
+        files: [VERCEL_CONFIG_FILE],
+        apply: () => writeSafeFile(VERCEL_CONFIG_FILE, after, projectRoot)
+      };
+    }
+  },
+  {
+    id: "node-version",
+    description: "Unsupported Node.js version",
+    signatures: [
+      /Found invalid Node\.js Version: "([^"]+)"/,
+      /Node\.js Version "([^"]+)" is (?:discontinued|deprecated)/,
+      /The engine "node" is incompatible with this module\. Expected version "([^"]+)"/
+    ],
+    propose: ({ projectRoot, match }) => {
+      const packageJson = readPackageJson(projectRoot);
+      if (!packageJson) return undefined;
+
+      // An engine mismatch names the range a dependency needs; the other messages name the rejected version
+      const required = match[0].startsWith("The engine") ? Number(match[1].match(/\d+/)?.[0] ?? 0) : 0;
+      const candidates = VERCEL_NODE_MAJORS.filter(major => major >= required);
+      const local = Number(process.versions.node.split(".")[0]);
+      const major = candidates.includes(local) ? local : candidates[0];
+      if (!major || packageJson.engines?.node === `${major}.x`) return undefined;
+
+      const previous = packageJson.engines?.node;
+      packageJson.engines = { ...packageJson.engines, node: `${major}.x` };
+      return {
+        summary: `Set engines.node to "${major}.x"${previous ? ` (was "${previous}")` : ""}`,
+        files: ["package.json"],
+        apply: () => writeSafeFile("package.json", `${JSON.stringify(packageJson, null, 2)}\n`, projectRoot)
+      };
+    }
+  },
+  {
+    id: "stale-project-link",
+    description: "Linked Vercel project no longer exists",
+    signatures: [/Project not found/i, /The specified project (?:was not found|does not exist)/i, /Could not retrieve Project Settings/i],
+    propose: ({ projectRoot }) => {
+      const linkDir = join(projectRoot, ".vercel");
+      if (!existsSync(linkDir)) return undefined;
+      return {
+        summary: "Remove .vercel so the next deployment links the project again",
+        files: listFiles(projectRoot, linkDir),
+        apply: () => rmSync(linkDir, { recursive: true, force: true })
+      };
+    }
+  },
+  {
+    id: "vercel-json",
+    description: "Invalid vercel.json",
+    signatures: [
+      /Invalid vercel\.json/i,
+      /vercel\.json.*schema validation failed/i,
+      /`routes` cannot be present/,
+      /Conflicting functions and builds configuration/
+    ],
+    propose: ({ projectRoot }) => {
+      const proposal = proposeVercelConfig(projectRoot);
+      if (!proposal) return undefined;
+      return {
+        summary: proposal.changes.join("; "),
+        details: proposal.diff,
+        files: [VERCEL_CONFIG_FILE],
+        apply: () => writeSafeFile(VERCEL_CONFIG_FILE, formatConfig(proposal.after), projectRoot)
+      };
+    }
+  }
+];
+
+const registry = new Map<string, DeployFix>(BUILTIN_FIXES.map(fix => [fix.id, fix]));
+
+// Adds a fix, or replaces the one with the same id
+export function registerDeployFix(fix: DeployFix): void {
+  registry.set(fix.id, fix);
+}
+
+export function getDeployFixes(): DeployFix[] {
+  return [...registry.values()];
+}
+
+/**
+ * Matches the output of a failed deployment against every registered fix and
+ * returns the ones that apply. Nothing is proposed for failures no fix knows.
+ */
+export function proposeDeployFixes(projectRoot: string, output: string): ProposedFix[] {
+  const clean = stripAnsi(output);
+  const proposed: ProposedFix[] = [];
+
+  for (const fix of registry.values()) {
+    for (const signature of fix.signatures) {
+      // Every occurrence counts, e.g. one missing module per line
+      const global = new RegExp(signature.source, signature.flags.includes("g") ? signature.flags : `${signature.flags}g`);
+      for (const match of clean.matchAll(global)) {
+        const proposal = fix.propose({ projectRoot, output: clean, match });
+        if (!proposal || proposed.some(item => item.fix.id === fix.id && item.proposal.summary === proposal.summary)) continue;
+        proposed.push({ fix, evidence: lineAt(clean, match.index ?? 0), proposal });
+      }
+    }
+  }
+
+  return proposed;
+}
+
+/**
+ * Applies the proposed fixes one by one, each after a confirmation when
+ * `confirm` is set, and snapshots the files it touches so it can be undone.
+ * A fix that throws is rolled back straight away. Returns the fixes applied.
+ */
+export async function applyDeployFixes(
+  projectRoot: string,
+  proposed: ProposedFix[],
+  options: { confirm?: boolean } = {}
+): Promise<ProposedFix[]> {
+  const applied: ProposedFix[] = [];
+
+  for (const item of proposed) {
+    const { fix, proposal } = item;
+    log.info(`\n🩹 ${fix.description}: ${proposal.summary}`, { fix: fix.id, evidence: item.evidence, files: proposal.files });
+    log.info(`   Matched: ${item.evidence}`);
+    if (proposal.details) log.info(proposal.details);
+
+    if (options.confirm) {
+      const { apply } = await inquirer.prompt([{
+        type: "confirm",
+        name: "apply",
+        message: `Apply "${fix.id}"?`,
+        default: true
+      }]);
+      if (!apply) continue;
+    }
+
+    const snapshot = snapshotFiles(projectRoot, fix.id, proposal.summary, proposal.files);
+    try {
+      await proposal.apply();
+    } catch (error) {
+      restoreSnapshot(projectRoot, snapshot);
+      log.warning(`⚠️  ${fix.id} failed and was reverted: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    saveSnapshot(projectRoot, snapshot);
+    log.fixApplied(fix.id, `✅ ${proposal.summary}`);
+    applied.push(item);
+  }
+
+  return applied;
+}
+
+export function readFixSnapshots(projectRoot = process.cwd()): FixSnapshot[] {
+  const dir = join(projectRoot, FIX_SNAPSHOT_DIR);
+  if (!existsSync(dir)) return [];
+
+  const snapshots: FixSnapshot[] = [];
+  for (const file of readdirSync(dir).filter(name => name.endsWith(".json")).sort()) {
+    try {
+      snapshots.push(JSON.parse(readFileSync(join(dir, file), "utf-8")));
+    } catch (error) {
+      log.warning(`⚠️  Could not read fix snapshot ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return snapshots;
+}
+
+// Restores every file the most recent fix touched to its exact previous content
+export async function undoLastFix(projectRoot = process.cwd()): Promise<FixSnapshot | undefined> {
+  const snapshot = readFixSnapshots(projectRoot).pop();
+  if (!snapshot) {
+    log.info("No automatic fixes to undo.");
+    return undefined;
+  }
+
+  restoreSnapshot(projectRoot, snapshot);
+  rmSync(join(projectRoot, FIX_SNAPSHOT_DIR, `${snapshot.id}.json`), { force: true });
+  clearPackageManagerCache();
+
+  log.fixApplied("undo-last-fix", `↩️  Undid ${snapshot.fix}: ${snapshot.summary}`);
+  for (const file of snapshot.files) {
+    log.info(`   ${file.existed ? "restored" : "removed"} ${file.path}`);
+  }
+  return snapshot;
+}
+
+// Helper functions
+
+function proposeDependency(projectRoot: string, name: string, dev: boolean): FixProposal | undefined {
+  // The name comes from build output, so anything npm would not publish is never installed
+  if (isBuiltinModule(name) || !isValidPackageName(name)) return undefined;
+
+  const packageJson = readPackageJson(projectRoot);
+  if (!packageJson) return undefined;
+  // Already declared, so the failure lies elsewhere, e.g. in a drifted lockfile
+  const declared = { ...packageJson.dependencies, ...packageJson.devDependencies, ...packageJson.optionalDependencies };
+  if (name in declared) return undefined;
+
+  const manager = detectPackageManager(projectRoot);
+  const command = addCommand(manager, [name], { dev });
+  const { file, args } = addCommandArgs(manager, [name], { dev });
+  const lockfile = relative(projectRoot, join(manager.root, manager.lockfile ?? DEFAULT_LOCKFILES[manager.name]));
+
+  return {
+    summary: `Add ${name} to ${dev ? "devDependencies" : "dependencies"}`,
+    details: `   Runs: ${command}`,
+    files: ["package.json", lockfile],
+    apply: async () => {
+      const { stdout } = await execFile(file, args, { cwd: projectRoot });
+      log.commandRun(command, projectRoot, 0, stdout.trim() || undefined);
+      clearPackageManagerCache();
+    }
+  };
+}
+
+// "lodash/merge" → "lodash", "@scope/pkg/sub" → "@scope/pkg"
+function packageNameOf(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+function isBuiltinModule(name: string): boolean {
+  return name.startsWith("node:") || builtinModules.includes(name);
+}
+
+function snapshotFiles(projectRoot: string, fixId: string, summary: string, files: string[]): FixSnapshot {
+  const timestamp = new Date().toISOString();
+  const root = fixRoot(projectRoot);
+  return {
+    id: `${timestamp.replace(/[:.]/g, "-")}-${fixId}`,
+    fix: fixId,
+    summary,
+    timestamp,
+    files: files.map(path => {
+      const fullPath = resolveSafePath(join(projectRoot, path), root);
+      if (!existsSync(fullPath)) return { path, existed: false };
+      return { path, existed: true, mode: statSync(fullPath).mode, content: readFileSync(fullPath).toString("base64") };
+    })
+  };
+}
+
+function saveSnapshot(projectRoot: string, snapshot: FixSnapshot): void {
+  const dir = join(projectRoot, FIX_SNAPSHOT_DIR);
+  // Snapshots hold copies of project files and stay out of commits
+  if (!existsSync(join(dir, ".gitignore"))) writeSafeFile(join(FIX_SNAPSHOT_DIR, ".gitignore"), "*\n", projectRoot);
+  writeSafeFile(join(FIX_SNAPSHOT_DIR, `${snapshot.id}.json`), JSON.stringify(snapshot, null, 2), projectRoot);
+
+  const stored = readdirSync(dir).filter(name => name.endsWith(".json")).sort();
+  for (const old of stored.slice(0, Math.max(0, stored.length - MAX_SNAPSHOTS))) {
+    rmSync(join(dir, old), { force: true });
+  }
+}
+
+function restoreSnapshot(projectRoot: string, snapshot: FixSnapshot): void {
+  const root = fixRoot(projectRoot);
+  for (const file of snapshot.files) {
+    const fullPath = resolveSafePath(join(projectRoot, file.path), root);
+    if (!file.existed) {
+      rmSync(fullPath, { force: true });
+      continue;
+    }
+    writeSafeFile(fullPath, Buffer.from(file.content ?? "", "base64"), root);
+    if (file.mode !== undefined) chmodSync(fullPath, file.mode);
+  }
+}
+
+// Fixes may touch the lockfile at the workspace root, but nothing outside it
+function fixRoot(projectRoot: string): string {
+  return detectPackageManager(projectRoot).root;
+}
+
+function listFiles(projectRoot: string, dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) return listFiles(projectRoot, fullPath);
+    return entry.isFile() ? [relative(projectRoot, fullPath)] : [];
+  });
+}
+
+function lineAt(output: string, index: number): string {
+  const start = output.lastIndexOf("\n", index) + 1;
+  const end = output.indexOf("\n", index);
+  return output.slice(start, end === -1 ? undefined : end).trim();
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, "");
+}
@@ -0,0 +1,60 @@
+// deployment-events.test.ts
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { configureDeploymentLog, deploymentEvents, deploymentLogger, onDeploymentEvent } from "./deployment-events.js";
+import { git, tempProject } from "./test-fixtures/projects.js";
+
+const startDir = process.cwd();
+const log = deploymentLogger("pipeline");
+
+after(() => {
+  process.chdir(startDir);
+  configureDeploymentLog({ mode: "pretty", dryRun: false });
+});
+
+describe("deployment event log", () => {
+  test("tags events with their source and times finished steps", () => {
+    const events: string[] = [];
+    const stop = onDeploymentEvent(event => events.push(`${event.source}:${event.type}`));
+    log.stepStarted("build", "Building");
+    log.stepFinished("build", "Built");
+    stop();
+
+    assert.deepEqual(events, ["pipeline:step-started", "pipeline:step-finished"]);
+  });
+
+  test("writes file logs to .mcp/logs in the repository root, not the working directory", () => {
+    const root = tempProject({}, { git: true });
+    mkdirSync(join(root, "packages", "web"), { recursive: true });
+    process.chdir(join(root, "packages", "web"));
+
+    configureDeploymentLog({ mode: "file" });
+    log.info("hello");
+
+    const logFile = deploymentEvents.getLogFile()!;
+    assert.equal(dirname(logFile), join(root, ".mcp", "logs"));
+    assert.equal(JSON.parse(readFileSync(logFile, "utf-8")).message, "hello");
+    assert.equal(readFileSync(join(root, ".mcp", ".gitignore"), "utf-8"), "/logs\n");
+  });
+
+  test("switches to the project root the orchestrator configures", () => {
+    const root = tempProject({}, { git: true });
+    configureDeploymentLog({ projectRoot: root });
+    log.info("again");
+
+    assert.equal(dirname(deploymentEvents.getLogFile()!), join(root, ".mcp", "logs"));
+    const untracked = git(root, "status", "--porcelain", "--untracked-files=all");
+    assert.equal(untracked, "?? .mcp/.gitignore");
+  });
+
+  test("writes no file for a dry run", () => {
+    const root = tempProject({}, { git: true });
+    configureDeploymentLog({ mode: "file", projectRoot: root, dryRun: true });
+    log.info("planned");
+
+    assert.equal(deploymentEvents.getLogFile(), undefined);
+    assert.equal(git(root, "status", "--porcelain", "--untracked-files=all"), "");
+  });
+});
@@ -0,0 +1,243 @@
+// deployment-events.ts
+import { EventEmitter } from "node:events";
+import { appendFileSync, existsSync, mkdirSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { stripVTControlCharacters } from "node:util";
+import chalk from "chalk";
+import { keepOutOfGit } from "./path-helper.js";
+
+export type DeploymentEventSource = "orchestrator" | "vercel" | "git" | "pipeline";
+
+export type DeploymentEventPayload =
+  | { type: "step-started"; step: string; message: string }
+  | { type: "step-finished"; step: string; success: boolean; message?: string; durationMs?: number }
+  | { type: "command-run"; command: string; cwd: string; exitCode?: number; output?: string }
+  | { type: "warning"; message: string }
+  | { type: "fix-applied"; fix: string; message: string }
+  | { type: "deployment-url"; url: string }
+  | { type: "info"; message: string; data?: Record<string, unknown> }
+  | { type: "error"; message: string; detail?: string };
+
+export type DeploymentEvent = DeploymentEventPayload & {
+  source: DeploymentEventSource;
+  timestamp: string;
+  runId: string;
+};
+
+/**
+ * pretty - the coloured console output people see today
+ * ndjson - one JSON event per line on stdout, for CI and dashboards
+ * file   - pretty console output plus an NDJSON file under .mcp/logs/ for the run
+ */
+export type DeploymentLogMode = "pretty" | "ndjson" | "file";
+
+export interface DeploymentLogOptions {
+  mode?: DeploymentLogMode;
+  // Where file mode writes; defaults to .mcp/logs in the project root
+  logDir?: string;
+  // Defaults to the repository around the working directory
+  projectRoot?: string;
+  // Keeps file mode from writing anything, for plans that promise no changes
+  dryRun?: boolean;
+}
+
+const LOG_MODES: DeploymentLogMode[] = ["pretty", "ndjson", "file"];
+const DEFAULT_LOG_DIR = join(".mcp", "logs");
+
+class DeploymentEventLog extends EventEmitter {
+  private mode: DeploymentLogMode = "pretty";
+  private logDir?: string;
+  private projectRoot?: string;
+  private logFile?: string;
+  private dryRun = false;
+  private readonly runId = new Date().toISOString().replace(/[:.]/g, "-");
+  private readonly stepStarts = new Map<string, number>();
+
+  constructor() {
+    super();
+    const envMode = process.env.DEPLOY_LOG_FORMAT as DeploymentLogMode | undefined;
+    if (envMode && LOG_MODES.includes(envMode)) {
+      this.mode = envMode;
+    }
+  }
+
+  configure(options: DeploymentLogOptions): void {
+    if (options.mode) {
+      if (!LOG_MODES.includes(options.mode)) {
+        throw new Error(`Unknown log mode: ${options.mode}. Use one of: ${LOG_MODES.join(", ")}`);
+      }
+      this.mode = options.mode;
+    }
+    if (options.logDir) {
+      this.logDir = options.logDir;
+      this.logFile = undefined;
+    }
+    if (options.projectRoot) {
+      this.projectRoot = options.projectRoot;
+      if (!this.logDir) this.logFile = undefined;
+    }
+    if (options.dryRun !== undefined) {
+      this.dryRun = options.dryRun;
+    }
+  }
+
+  getMode(): DeploymentLogMode {
+    return this.mode;
+  }
+
+  /** Path of the NDJSON file for this run, once one has been written */
+  getLogFile(): string | undefined {
+    return this.logFile;
+  }
+
+  record(source: DeploymentEventSource, payload: DeploymentEventPayload): DeploymentEvent {
+    if (payload.type === "step-started") {
+      this.stepStarts.set(`${source}:${payload.step}`, Date.now());
+    } else if (payload.type === "step-finished" && payload.durationMs === undefined) {
+      const startedAt = this.stepStarts.get(`${source}:${payload.step}`);
+      if (startedAt !== undefined) {
+        payload = { ...payload, durationMs: Date.now() - startedAt };
+      }
+    }
+
+    const event: DeploymentEvent = {
+      ...payload,
+      source,
+      timestamp: new Date().toISOString(),
+      runId: this.runId
+    };
+
+    if (this.mode === "ndjson") {
+      process.stdout.write(toJsonLine(event));
+    } else {
+      printPretty(event);
+    }
+
+    if (this.mode === "file" && !this.dryRun) {
+      this.writeToFile(event);
+    }
+
+    this.emit("event", event);
+    return event;
+  }
+
+  private writeToFile(event: DeploymentEvent): void {
+    try {
+      if (!this.logFile) {
+        const projectRoot = this.projectRoot ?? findRepositoryRoot(process.cwd());
+        const logDir = this.logDir ?? join(projectRoot, DEFAULT_LOG_DIR);
+        if (!existsSync(logDir)) {
+          mkdirSync(logDir, { recursive: true });
+        }
+        // Run logs are local output; a directory chosen with logDir is left alone
+        if (!this.logDir) keepOutOfGit(DEFAULT_LOG_DIR, projectRoot);
+        this.logFile = join(logDir, `deploy-${this.runId}.ndjson`);
+      }
+      appendFileSync(this.logFile, toJsonLine(event), "utf-8");
+    } catch (error) {
+      // Logging must never break a deployment
+      console.error(chalk.yellow("⚠️  Could not write deployment log:"), error);
+      this.mode = "pretty";
+    }
+  }
+}
+
+export const deploymentEvents = new DeploymentEventLog();
+
+export function configureDeploymentLog(options: DeploymentLogOptions): void {
+  deploymentEvents.configure(options);
+}
+
+export function onDeploymentEvent(listener: (event: DeploymentEvent) => void): () => void {
+  deploymentEvents.on("event", listener);
+  return () => deploymentEvents.off("event", listener);
+}
+
+/**
+ * stdio for child processes: inherit the terminal in pretty modes, but route
+ * child output to stderr in NDJSON mode so stdout stays machine-readable.
+ */
+export function childStdio(): "inherit" | [number, number, number] {
+  return deploymentEvents.getMode() === "ndjson" ? [0, 2, 2] : "inherit";
+}
+
+export interface DeploymentLogger {
+  stepStarted(step: string, message: string): void;
+  stepFinished(step: string, message?: string, success?: boolean): void;
+  commandRun(command: string, cwd?: string, exitCode?: number, output?: string): void;
+  warning(message: string): void;
+  fixApplied(fix: string, message: string): void;
+  deploymentUrl(url: string): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  error(message: string, error?: unknown): void;
+}
+
+export function deploymentLogger(source: DeploymentEventSource): DeploymentLogger {
+  const record = (payload: DeploymentEventPayload) => deploymentEvents.record(source, payload);
+
+  return {
+    stepStarted: (step, message) => record({ type: "step-started", step, message }),
+    stepFinished: (step, message, success = true) => record({ type: "step-finished", step, success, message }),
+    commandRun: (command, cwd = process.cwd(), exitCode, output) =>
+      record({ type: "command-run", command, cwd, exitCode, output }),
+    warning: (message) => record({ type: "warning", message }),
+    fixApplied: (fix, message) => record({ type: "fix-applied", fix, message }),
+    deploymentUrl: (url) => record({ type: "deployment-url", url }),
+    info: (message, data) => record({ type: "info", message, data }),
+    error: (message, error) => record({
+      type: "error",
+      message,
+      detail: error === undefined ? undefined : error instanceof Error ? error.message : String(error)
+    })
+  };
+}
+
+// Helper functions
+
+// The nearest directory with a .git, or the directory itself outside a repository
+function findRepositoryRoot(start: string): string {
+  let dir = resolve(start);
+  while (!existsSync(join(dir, ".git"))) {
+    if (dir === dirname(dir)) return resolve(start);
+    dir = dirname(dir);
+  }
+  return dir;
+}
+
+function toJsonLine(event: DeploymentEvent): string {
+  return JSON.stringify(event, (key, value) =>
+    typeof value === "string" && (key === "message" || key === "output") ? stripVTControlCharacters(value) : value
+  ) + "\n";
+}
+
+function printPretty(event: DeploymentEvent): void {
+  switch (event.type) {
+    case "step-started":
+      console.log(chalk.cyan(event.message));
+      break;
+    case "step-finished":
+      if (event.message) {
+        console.log(event.success ? chalk.green(event.message) : chalk.red(event.message));
+      }
+      break;
+    case "command-run":
+      // Commands stay quiet in the console; only their output is shown
+      if (event.output) console.log(event.output);
+      break;
+    case "warning":
+      console.log(chalk.yellow(event.message));
+      break;
+    case "fix-applied":
+      console.log(chalk.yellow(event.message));
+      break;
+    case "deployment-url":
+      console.log(chalk.green(`\n🌐 Deployment URL: ${event.url}`));
+      break;
+    case "info":
+      console.log(event.message);
+      break;
+    case "error":
+      console.error(chalk.red(event.message), event.detail ?? "");
+      break;
+  }
+}
@@ -0,0 +1,41 @@
+// deployment-history.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { HISTORY_FILE, readDeploymentHistory, recordDeployment, rollbackToDeployment } from "./deployment-history.js";
+import { git, tempProject } from "./test-fixtures/projects.js";
+
+describe("recordDeployment", () => {
+  test("records deployments newest first", async () => {
+    const root = tempProject({}, { git: true });
+    await recordDeployment({ url: "https://one.vercel.app", target: "preview", projectType: "frontend" }, root);
+    await recordDeployment({ url: "https://two.vercel.app", target: "production", projectType: "frontend" }, root);
+
+    assert.deepEqual(readDeploymentHistory(root).map(record => record.url), ["https://two.vercel.app", "https://one.vercel.app"]);
+  });
+
+  test("keeps the history file out of git without touching the rest of .mcp", async () => {
+    const root = tempProject({}, { git: true });
+    mkdirSync(join(root, ".mcp"));
+    writeFileSync(join(root, ".mcp", "config.json"), "{}\n");
+    writeFileSync(join(root, ".mcp", ".gitignore"), "/cache");
+
+    await recordDeployment({ url: "https://one.vercel.app", target: "preview", projectType: "frontend" }, root);
+    await recordDeployment({ url: "https://two.vercel.app", target: "preview", projectType: "frontend" }, root);
+
+    assert.equal(readFileSync(join(root, ".mcp", ".gitignore"), "utf-8"), "/cache\n/deployment-history.json\n");
+    const untracked = git(root, "status", "--porcelain", "--untracked-files=all");
+    assert.match(untracked, /\.mcp\/config\.json/);
+    assert.equal(untracked.includes(HISTORY_FILE), false);
+  });
+});
+
+describe("rollbackToDeployment", () => {
+  test("refuses to promote a preview to production unless asked to", async () => {
+    const root = tempProject({}, { git: true });
+    const record = await recordDeployment({ url: "https://one.vercel.app", target: "preview", projectType: "frontend" }, root);
+
+    await assert.rejects(rollbackToDeployment(record, root), /is a preview deployment; restoring it promotes it to production/);
+  });
+});
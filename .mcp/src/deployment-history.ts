@@ -0,0 +1,205 @@
+// deployment-history.ts
+import { spawn } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import chalk from "chalk";
+import inquirer from "inquirer";
+import { keepOutOfGit, writeSafeFile } from "./path-helper.js";
+import { projectContextScan } from "./project-context.js";
+import { childStdio, deploymentLogger } from "./deployment-events.js";
+import { getCurrentBranch, getHeadCommit } from "./git-helper.js";
+import { isNonInteractive, MissingInputError } from "./interaction.js";
+import type { DeploymentTarget } from "./vercel-helper.js";
+
+export const HISTORY_FILE = join(".mcp", "deployment-history.json");
+
+// Oldest entries are dropped beyond this point
+const MAX_HISTORY_ENTRIES = 100;
+
+export interface DeploymentRecord {
+  id: string;
+  url: string;
+  target: DeploymentTarget;
+  commitSha?: string;
+  branch?: string;
+  projectType?: string;
+  // Set for workspace packages; the path is relative to the repository root
+  packageName?: string;
+  packagePath?: string;
+  timestamp: string;
+}
+
+interface RecordOptions {
+  url: string;
+  target: DeploymentTarget;
+  projectType?: string;
+  packageName?: string;
+  packagePath?: string;
+}
+
+const log = deploymentLogger("vercel");
+
+export function readDeploymentHistory(projectRoot = process.cwd()): DeploymentRecord[] {
+  const historyPath = join(projectRoot, HISTORY_FILE);
+  if (!existsSync(historyPath)) return [];
+
+  try {
+    const parsed = JSON.parse(readFileSync(historyPath, "utf-8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    log.warning(`⚠️  Could not read deployment history: ${error instanceof Error ? error.message : error}`);
+    return [];
+  }
+}
+
+export async function recordDeployment(
+  options: RecordOptions,
+  projectRoot = process.cwd()
+): Promise<DeploymentRecord> {
+  let projectType = options.projectType;
+  if (!projectType) {
+    // Only the package.json is needed to detect the type, so skip the tree walk
+    const context = await projectContextScan(
+      options.packagePath ? join(projectRoot, options.packagePath) : projectRoot,
+      { maxDepth: -1, includeWorkspaces: false }
+    );
+    projectType = context.projectType;
+  }
+
+  const record: DeploymentRecord = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    url: options.url,
+    target: options.target,
+    commitSha: getHeadCommit(projectRoot),
+    branch: getCurrentBranch(projectRoot),
+    projectType,
+    packageName: options.packageName,
+    packagePath: options.packagePath,
+    timestamp: new Date().toISOString()
+  };
+
+  const history = [record, ...readDeploymentHistory(projectRoot)].slice(0, MAX_HISTORY_ENTRIES);
+
+  try {
+    writeSafeFile(HISTORY_FILE, JSON.stringify(history, null, 2), projectRoot);
+    // The history belongs to this machine's deployments, not to the repository
+    keepOutOfGit(HISTORY_FILE, projectRoot);
+  } catch (error) {
+    // A failed history write must not fail a deployment that already succeeded
+    log.warning(`⚠️  Could not record deployment history: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return record;
+}
+
+export interface RollbackOptions {
+  // Allow a preview or custom-environment deployment to become the production deployment
+  promote?: boolean;
+}
+
+/**
+ * Makes a past deployment live again. Production deployments are restored with
+ * `vercel rollback`; anything else can only go live through `vercel promote`,
+ * which sends it to production, so that needs `promote`.
+ */
+export async function rollbackToDeployment(
+  record: DeploymentRecord,
+  projectRoot = process.cwd(),
+  options: RollbackOptions = {}
+): Promise<void> {
+  const isProduction = record.target === "production";
+  if (!isProduction && !options.promote) {
+    throw new Error(
+      `${record.url} is a ${record.target} deployment; restoring it promotes it to production. ` +
+      "Pass --promote to do that."
+    );
+  }
+  const args = isProduction ? ["rollback", record.url] : ["promote", record.url];
+  const command = ["vercel", ...args].join(" ");
+  // The Vercel project link of a workspace package lives in its own directory
+  const cwd = record.packagePath ? join(projectRoot, record.packagePath) : projectRoot;
+
+  log.stepStarted("rollback", `⏪ Restoring ${record.url} (${record.commitSha?.slice(0, 7) || "unknown commit"})...`);
+
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn("vercel", args, { cwd, stdio: childStdio() });
+
+    child.on("close", (code) => {
+      log.commandRun(command, cwd, code ?? undefined);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} failed with code ${code}`));
+      }
+    });
+
+    child.on("error", reject);
+  });
+
+  log.stepFinished("rollback", isProduction
+    ? `✅ ${record.url} is live on production again`
+    : `✅ ${record.url} is now the production deployment`);
+  log.deploymentUrl(record.url);
+}
+
+export function formatDeploymentRecord(record: DeploymentRecord): string {
+  const date = new Date(record.timestamp).toLocaleString();
+  const commit = record.commitSha ? record.commitSha.slice(0, 7) : "-------";
+  const pkg = record.packageName ? `  [${record.packageName}]` : "";
+  return `${date}  ${record.target.padEnd(10)} ${commit}  ${record.branch || "?"}${pkg}  ${record.url}`;
+}
+
+// Interactive rollback for the helper menu and `aigs rollback`; returns the restored deployment
+export async function rollbackWizard(projectRoot = process.cwd()): Promise<DeploymentRecord | undefined> {
+  const history = readDeploymentHistory(projectRoot);
+
+  if (history.length === 0) {
+    console.log(chalk.yellow("⚠️  No deployments recorded yet. History is written after each successful deploy."));
+    return undefined;
+  }
+
+  // Picking the deployment to restore is the whole point of the wizard
+  if (isNonInteractive()) {
+    throw new MissingInputError("the deployment to restore", "`aigs rollback <id|url>` (see `aigs rollback --list`)");
+  }
+
+  console.log(chalk.cyan("\n⏪ Deployment History\n"));
+
+  const { recordId } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "recordId",
+      message: "Select a deployment to restore:",
+      pageSize: 15,
+      choices: [
+        ...history.map(record => ({ name: formatDeploymentRecord(record), value: record.id })),
+        { name: "🔙 Back", value: "back" }
+      ]
+    }
+  ]);
+
+  if (recordId === "back") return undefined;
+
+  const record = history.find(entry => entry.id === recordId)!;
+  const { confirm } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "confirm",
+      message: record.target === "production"
+        ? `Make ${record.url} the live production deployment?`
+        : `${record.url} is a ${record.target} deployment. Promote it to production?`,
+      default: false
+    }
+  ]);
+
+  if (!confirm) return undefined;
+
+  try {
+    await rollbackToDeployment(record, projectRoot, { promote: true });
+    return record;
+  } catch (error) {
+    console.error(chalk.red("❌ Rollback failed:"), error instanceof Error ? error.message : error);
+    console.log(chalk.yellow("💡 Tip: Make sure you're logged into Vercel with 'vercel login'"));
+    return undefined;
+  }
+}
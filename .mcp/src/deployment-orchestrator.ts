@@ -1,21 +1,126 @@
 // deployment-orchestrator.ts
 import { promisify } from "node:util";
-import { exec as execCallback } from "node:child_process";
+import { exec as execCallback, execFile as execFileCallback } from "node:child_process";
 import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import chalk from "chalk";
 import inquirer from "inquirer";
 import { checkSSHAgent, checkGitHubSSHConnection, sshSetupWizard } from "./ssh-setup.js";
 import { projectContextScan } from "./project-context.js";
-import { gitStageCommitPush } from "./git-helper.js";
+import { gitStageCommitPush, getCurrentBranch, hasUpstream, isProtectedBranch } from "./git-helper.js";
+import { configureDeploymentLog, deploymentLogger } from "./deployment-events.js";
+import { recordDeployment } from "./deployment-history.js";
+import { promptForCommitMessage } from "./commit-message.js";
+import { loadProjectConfig } from "./project-config.js";
+import {
+  DEFAULT_LOCKFILES,
+  checkLockfileDrift,
+  clearPackageManagerCache,
+  detectPackageManager,
+  globalInstallCommand,
+  installCommand
+} from "./package-manager.js";
+import {
+  detectQualityGates,
+  formatQualityGateReport,
+  runQualityGates,
+  type QualityGateConfig
+} from "./quality-gates.js";
+import { auditEnvironment, envAuditWarnings } from "./env-audit.js";
+import { assertNoSecrets, scanDeployPayload } from "./secret-scanner.js";
+import { formatEnvironmentSources, loadEnvironment } from "./env-loader.js";
+import {
+  deployInputs,
+  deployInputSources,
+  DeploymentStageError,
+  isNonInteractive,
+  MissingInputError,
+  requireInput
+} from "./interaction.js";
+import {
+  formatVercelConfigIssues,
+  proposeVercelConfig,
+  validateVercelConfig,
+  writeVercelConfig,
+  VERCEL_CONFIG_FILE
+} from "./vercel-config.js";
+import {
+  formatDetection,
+  resolveProjectType,
+  type DetectedProjectType
+} from "./framework-detectors.js";
+import {
+  discoverWorkspace,
+  workspaceBuildCommand,
+  type WorkspaceDefinition,
+  type WorkspacePackageInfo
+} from "./workspaces.js";
+import {
+  extractDeploymentUrl,
+  resolveDeploymentTarget,
+  vercelDeployArgs,
+  type DeploymentTarget
+} from "./vercel-helper.js";
 
 const exec = promisify(execCallback);
+const execFile = promisify(execFileCallback);
+const log = deploymentLogger("orchestrator");
 
-interface DeploymentConfig {
+export interface DeploymentConfig {
   projectType: "frontend" | "backend" | "fullstack" | "auto";
   commitMessage?: string;
   skipChecks?: boolean;
   autoFix?: boolean;
+  // Run detection and preflight only, and report what would be executed
+  dryRun?: boolean;
+  // Defaults to production on main/master and preview on other branches
+  target?: DeploymentTarget;
+  // Push directly to main/master without asking
+  force?: boolean;
+  // Workspace packages to deploy, by name or path; asked for when unset in a monorepo
+  packages?: string[];
+}
+
+export interface PlannedFileChange {
+  path: string;
+  action: "create" | "modify" | "delete";
+}
+
+export interface PlanStep {
+  description: string;
+  command?: string;
+  cwd: string;
+  files: PlannedFileChange[];
+  autoFix?: boolean;
+}
+
+export interface PackageDeploymentResult {
+  name: string;
+  path: string;
+  projectType: DeploymentConfig["projectType"];
+  url?: string;
+}
+
+export interface DeploymentResult {
+  dryRun: boolean;
+  projectType: DeploymentConfig["projectType"];
+  target: DeploymentTarget;
+  branch?: string;
+  // URL of the first deployed project
+  url?: string;
+  // One entry per deployed package in a monorepo
+  packages?: PackageDeploymentResult[];
+  plan: PlanStep[];
+}
+
+// A project deployed with its own root directory; the repository itself or a workspace package
+interface DeploymentUnit {
+  root: string;
+  projectType: DeploymentConfig["projectType"];
+  name?: string;
+  path?: string;
+  // Workspace-aware build, run from the repository root
+  buildCommand?: string;
 }
 
 interface PreflightResult {
@@ -27,27 +132,40 @@ interface PreflightResult {
 export class DeploymentOrchestrator {
   private projectRoot: string;
   private config: DeploymentConfig;
+  private plan: PlanStep[] = [];
 
   constructor(projectRoot: string, config: DeploymentConfig) {
     this.projectRoot = projectRoot;
+    // A plan writes no log file, so it leaves the project exactly as it was
+    configureDeploymentLog({ projectRoot, dryRun: config.dryRun ?? false });
     this.config = config;
   }
 
-  async runSeamlessDeployment(): Promise<void> {
-    console.log(chalk.blue("\n🚀 Starting Seamless Deployment Process...\n"));
+  async runSeamlessDeployment(): Promise<DeploymentResult> {
+    this.plan = [];
+    log.stepStarted("deployment", this.config.dryRun
+      ? "\n📝 Planning deployment (dry run - nothing will be executed)...\n"
+      : "\n🚀 Starting Seamless Deployment Process...\n");
 
     try {
+      const branch = getCurrentBranch(this.projectRoot);
+      const target = resolveDeploymentTarget(this.config.target, this.projectRoot);
+      this.config.target = target;
+      log.info(`🎯 Deployment target: ${target}${branch ? ` (branch ${branch})` : ""}`, { target, branch });
+
       // Step 1: Project validation
       if (!this.config.skipChecks) {
         const preflightResult = await this.runPreflightChecks();
         
         if (!preflightResult.passed) {
-          console.log(chalk.red("\n❌ Pre-flight checks failed:"));
-          preflightResult.issues.forEach(issue => console.log(`  - ${issue}`));
+          log.stepFinished("preflight", "\n❌ Pre-flight checks failed:", false);
+          preflightResult.issues.forEach(issue => log.info(`  - ${issue}`, { issue }));
           
-          if (this.config.autoFix) {
-            console.log(chalk.yellow("\n🔧 Attempting automatic fixes..."));
+          if (this.config.autoFix || this.config.dryRun) {
+            log.stepStarted("auto-fix", this.config.dryRun ? "\n🔧 Planning automatic fixes..." : "\n🔧 Attempting automatic fixes...");
             await this.attemptAutoFixes(preflightResult);
+          } else if (isNonInteractive()) {
+            throw new DeploymentStageError("preflight", `Pre-flight checks failed: ${preflightResult.issues.join("; ")}`);
           } else {
             const { proceed } = await inquirer.prompt([{
               type: "confirm",
@@ -59,35 +177,64 @@ export class DeploymentOrchestrator {
             if (proceed) {
               await this.attemptAutoFixes(preflightResult);
             } else {
-              throw new Error("Deployment cancelled due to pre-flight issues");
+              throw new DeploymentStageError("preflight", "Deployment cancelled due to pre-flight issues");
             }
           }
         }
       }
 
-      // Step 2: Detect project type if auto
-      if (this.config.projectType === "auto") {
-        this.config.projectType = await this.detectProjectType();
-        console.log(chalk.green(`✅ Detected project type: ${this.config.projectType}`));
-      }
+      // Step 2: Pick the projects to deploy and detect their types
+      const units = await this.resolveDeploymentUnits();
 
       // Step 3: Prepare for deployment
-      await this.prepareDeployment();
+      await this.prepareDeployment(units);
 
       // Step 4: Git operations
       if (this.config.commitMessage) {
-        console.log(chalk.cyan("\n📤 Committing and pushing changes..."));
-        await gitStageCommitPush(this.config.commitMessage);
+        if (this.config.dryRun) {
+          await this.planGitOperations(this.config.commitMessage);
+        } else {
+          log.stepStarted("git", "\n📤 Committing and pushing changes...");
+          await gitStageCommitPush({
+            message: this.config.commitMessage,
+            cwd: this.projectRoot,
+            force: await this.confirmProtectedPush()
+          });
+        }
       }
 
       // Step 5: Deploy to Vercel
-      console.log(chalk.cyan("\n🌐 Deploying to Vercel..."));
-      await this.deployToVercel();
+      if (!this.config.dryRun) {
+        log.stepStarted("vercel", "\n🌐 Deploying to Vercel...");
+      }
+      await this.ensureVercelLogin();
+      const deployed: PackageDeploymentResult[] = [];
+      for (const unit of units) {
+        const url = await this.deployToVercel(unit);
+        deployed.push({ name: unit.name ?? "", path: unit.path ?? ".", projectType: unit.projectType, url });
+      }
+      const isWorkspace = units.some(unit => unit.path !== undefined);
 
-      console.log(chalk.green("\n✨ Deployment completed successfully!"));
+      if (this.config.dryRun) {
+        log.info(formatDeploymentPlan(this.plan), { plan: this.plan });
+        log.stepFinished("deployment");
+      } else {
+        log.stepFinished("deployment", "\n✨ Deployment completed successfully!");
+      }
+
+      return {
+        dryRun: Boolean(this.config.dryRun),
+        projectType: units.length === 1 ? units[0].projectType : this.config.projectType,
+        target,
+        branch,
+        url: deployed.find(result => result.url)?.url,
+        packages: isWorkspace ? deployed : undefined,
+        plan: this.plan
+      };
       
     } catch (error: any) {
-      console.error(chalk.red("\n❌ Deployment failed:"), error.message);
+      log.stepFinished("deployment", undefined, false);
+      log.error("\n❌ Deployment failed:", error);
       throw error;
     }
   }
@@ -96,7 +243,7 @@ export class DeploymentOrchestrator {
     const issues: string[] = [];
     const warnings: string[] = [];
 
-    console.log(chalk.cyan("🔍 Running pre-flight checks...\n"));
+    log.stepStarted("preflight", "🔍 Running pre-flight checks...\n");
 
     // Check Node.js version
     const nodeVersion = process.version;
@@ -142,13 +289,31 @@ export class DeploymentOrchestrator {
       } catch {
         issues.push("Invalid package.json");
       }
+
+      // A drifted lockfile fails the frozen install on Vercel
+      issues.push(...checkLockfileDrift(this.projectRoot));
     }
 
+    // vercel.json is checked against the bundled schema; legacy settings are warnings until they break the build
+    const vercelConfig = validateVercelConfig(this.projectRoot);
+    issues.push(...formatVercelConfigIssues(vercelConfig.issues.filter(issue => issue.severity === "error")));
+    warnings.push(...formatVercelConfigIssues(vercelConfig.issues.filter(issue => issue.severity === "warning")));
+
+    // Which .env file each variable resolves from for this build; values stay hidden
+    const environment = loadEnvironment(this.projectRoot, { mode: this.config.target === "production" ? "production" : "preview" });
+    if (environment.files.length > 0) {
+      log.info(formatEnvironmentSources(environment), { envFiles: environment.files, envSources: environment.sources });
+    }
+
+    // Variables the code reads but the deployment will not have
+    const envAudit = await auditEnvironment(this.projectRoot, { target: this.config.target, cache: !this.config.dryRun });
+    warnings.push(...envAuditWarnings(envAudit));
+
     // Check Vercel configuration
     try {
       await exec("vercel --version");
     } catch {
-      issues.push("Vercel CLI not installed. Run 'npm install -g vercel'");
+      issues.push(`Vercel CLI not installed. Run '${globalInstallCommand(detectPackageManager(this.projectRoot), "vercel")}'`);
     }
 
     // Check for Vercel token
@@ -156,6 +321,11 @@ export class DeploymentOrchestrator {
       warnings.push("No VERCEL_TOKEN environment variable found. You may need to login.");
     }
 
+    warnings.forEach(warning => log.warning(`⚠️  ${warning}`));
+    if (issues.length === 0) {
+      log.stepFinished("preflight", "✅ Pre-flight checks passed");
+    }
+
     return {
       passed: issues.length === 0,
       issues,
@@ -164,21 +334,45 @@ export class DeploymentOrchestrator {
   }
 
   private async attemptAutoFixes(preflightResult: PreflightResult): Promise<void> {
+    let sshPlanned = false;
+    let lockfileSynced = false;
+    let vercelConfigFixed = false;
+
     for (const issue of preflightResult.issues) {
       if (issue.includes("Git repository")) {
-        console.log(chalk.yellow("🔧 Initializing Git repository..."));
-        await exec("git init", { cwd: this.projectRoot });
-        await exec("git add .", { cwd: this.projectRoot });
-        await exec('git commit -m "Initial commit"', { cwd: this.projectRoot });
+        log.fixApplied("git-init", "🔧 Initializing Git repository...");
+        await this.runStep({
+          description: "Initialize Git repository",
+          command: "git init",
+          files: [{ path: ".git/", action: "create" }],
+          autoFix: true
+        });
+        await this.runStep({ description: "Stage all files", command: "git add .", files: [], autoFix: true });
+        await this.runStep({ description: "Create initial commit", command: 'git commit -m "Initial commit"', files: [], autoFix: true });
       }
       
-      if (issue.includes("SSH")) {
-        console.log(chalk.yellow("🔧 Setting up SSH..."));
-        await sshSetupWizard();
+      // Both SSH issues are fixed by a single run of the wizard
+      if (issue.includes("SSH") && !sshPlanned) {
+        sshPlanned = true;
+        if (isNonInteractive()) {
+          // The wizard creates keys and rewrites the global git config, which a CI runner must not get unasked
+          log.warning("⚠️  Skipping the SSH setup in non-interactive mode; run 'aigs ssh setup' in a terminal");
+        } else if (this.config.dryRun) {
+          log.fixApplied("ssh-setup", "🔧 Setting up SSH...");
+          this.plan.push({
+            description: "Run the interactive SSH setup wizard (may generate a key and update global git config)",
+            cwd: this.projectRoot,
+            files: [{ path: "~/.ssh/", action: "modify" }, { path: "~/.gitconfig", action: "modify" }],
+            autoFix: true
+          });
+        } else {
+          log.fixApplied("ssh-setup", "🔧 Setting up SSH...");
+          await sshSetupWizard();
+        }
       }
       
       if (issue.includes("package.json")) {
-        console.log(chalk.yellow("🔧 Creating package.json..."));
+        log.fixApplied("create-package-json", "🔧 Creating package.json...");
         const packageJson = {
           name: this.projectRoot.split('/').pop(),
           version: "1.0.0",
@@ -187,128 +381,437 @@ export class DeploymentOrchestrator {
             start: "node index.js"
           }
         };
-        writeFileSync(
-          join(this.projectRoot, "package.json"),
-          JSON.stringify(packageJson, null, 2)
-        );
+        this.writeStep("Create package.json with default scripts", "package.json", JSON.stringify(packageJson, null, 2), true);
+        clearPackageManagerCache();
+      }
+      
+      if (issue.startsWith("Lockfile drift") && !lockfileSynced) {
+        lockfileSynced = true;
+        const manager = detectPackageManager(this.projectRoot);
+        log.fixApplied("sync-lockfile", `🔧 Updating ${manager.lockfile} to match package.json...`);
+        await this.runStep({
+          description: `Update ${manager.lockfile} to match package.json`,
+          command: installCommand(manager),
+          files: [{ path: manager.lockfile!, action: "modify" }],
+          autoFix: true
+        });
+      }
+      
+      if (issue.startsWith(VERCEL_CONFIG_FILE) && !vercelConfigFixed) {
+        vercelConfigFixed = true;
+        const proposal = proposeVercelConfig(this.projectRoot);
+        if (proposal) {
+          log.fixApplied("vercel-json", `🔧 Updating ${VERCEL_CONFIG_FILE}...`);
+          await writeVercelConfig(this.projectRoot, proposal, { dryRun: this.config.dryRun });
+          if (this.config.dryRun) {
+            this.plan.push({
+              description: `Update ${VERCEL_CONFIG_FILE}: ${proposal.changes.join("; ")}`,
+              cwd: this.projectRoot,
+              files: [{ path: VERCEL_CONFIG_FILE, action: proposal.exists ? "modify" : "create" }],
+              autoFix: true
+            });
+          }
+        }
       }
       
       if (issue.includes("Vercel CLI")) {
-        console.log(chalk.yellow("🔧 Installing Vercel CLI..."));
-        await exec("npm install -g vercel");
+        log.fixApplied("install-vercel-cli", "🔧 Installing Vercel CLI...");
+        await this.runStep({
+          description: "Install Vercel CLI globally",
+          command: globalInstallCommand(detectPackageManager(this.projectRoot), "vercel"),
+          files: [],
+          autoFix: true
+        }, false);
       }
     }
   }
 
-  private async detectProjectType(): Promise<"frontend" | "backend" | "fullstack"> {
-    const context = await projectContextScan(this.projectRoot);
-    
-    const hasFrontend = context.technologies?.some(tech => 
-      ["react", "vue", "angular", "next.js", "gatsby"].includes(tech.toLowerCase())
-    );
-    
-    const hasBackend = context.technologies?.some(tech => 
-      ["express", "fastify", "koa", "nest.js"].includes(tech.toLowerCase())
-    );
-    
-    if (hasFrontend && hasBackend) return "fullstack";
-    if (hasFrontend) return "frontend";
-    if (hasBackend) return "backend";
-    
-    // Default to frontend if uncertain
-    return "frontend";
+  private async detectProjectType(root = this.projectRoot): Promise<DetectedProjectType> {
+    const context = await projectContextScan(root, {
+      maxDepth: -1,
+      includeWorkspaces: false,
+      // Workspace packages use the detectors configured for the repository
+      detectors: loadProjectConfig(this.projectRoot).detectors
+    });
+    for (const detection of context.detections) {
+      log.info(`🔎 ${formatDetection(detection)}`, { detection });
+    }
+
+    const projectType = resolveProjectType(context.detections);
+    if (projectType) return projectType;
+
+    // Nothing is confident enough; a weak guess is still better than none for a plan
+    const [guess] = context.detections;
+    if (this.config.dryRun) {
+      if (!guess) {
+        throw new Error(`Could not detect the project type of ${root}. Pass "frontend", "backend" or "fullstack" explicitly.`);
+      }
+      log.warning(`⚠️  Unsure about the project type of ${root}; planning it as ${guess.projectType} (${guess.name})`);
+      return guess.projectType;
+    }
+    if (isNonInteractive()) {
+      return requireInput(
+        deployInputs(this.projectRoot).projectType,
+        `the project type of ${root}`,
+        deployInputSources("projectType", "--type")
+      );
+    }
+
+    const { answer } = await inquirer.prompt([{
+      type: "list",
+      name: "answer",
+      message: `Could not detect the project type of ${root} with confidence. What is it?`,
+      choices: ["frontend", "backend", "fullstack"],
+      default: guess?.projectType
+    }]);
+    return answer;
+  }
+
+  private async resolveDeploymentUnits(): Promise<DeploymentUnit[]> {
+    const workspace = discoverWorkspace(this.projectRoot);
+
+    if (!workspace) {
+      if (this.config.projectType === "auto") {
+        this.config.projectType = await this.detectProjectType();
+        log.info(`✅ Detected project type: ${this.config.projectType}`, { projectType: this.config.projectType });
+      }
+      return [{ root: this.projectRoot, projectType: this.config.projectType }];
+    }
+
+    log.info(`📚 Found ${workspace.tools.join("/")} workspace with ${workspace.packages.length} packages`, {
+      tools: workspace.tools,
+      packages: workspace.packages.map(pkg => pkg.path)
+    });
+
+    const units: DeploymentUnit[] = [];
+    for (const pkg of await this.selectWorkspacePackages(workspace)) {
+      const projectType = this.config.projectType === "auto" ? await this.detectProjectType(pkg.root) : this.config.projectType;
+      log.info(`✅ ${pkg.name}: ${projectType}`, { package: pkg.name, projectType });
+      units.push({
+        root: pkg.root,
+        projectType,
+        name: pkg.name,
+        path: pkg.path,
+        buildCommand: workspaceBuildCommand(workspace, pkg)
+      });
+    }
+    return units;
+  }
+
+  private async selectWorkspacePackages(
+    workspace: WorkspaceDefinition,
+    requested = this.config.packages
+  ): Promise<WorkspacePackageInfo[]> {
+    if (requested?.length) {
+      const selected = workspace.packages.filter(pkg => requested.includes(pkg.name) || requested.includes(pkg.path));
+      const unknown = requested.filter(entry => !selected.some(pkg => pkg.name === entry || pkg.path === entry));
+      if (unknown.length > 0) {
+        throw new Error(
+          `Unknown workspace package(s): ${unknown.join(", ")}. Available: ${workspace.packages.map(pkg => pkg.name).join(", ")}`
+        );
+      }
+      return selected;
+    }
+
+    // Apps are the packages with something to build; a plan covers all of them
+    const buildable = workspace.packages.filter(pkg => pkg.scripts.build);
+    if (this.config.dryRun) {
+      return buildable.length > 0 ? buildable : workspace.packages;
+    }
+    if (isNonInteractive()) {
+      const configured = deployInputs(this.projectRoot).packages;
+      if (configured?.length) {
+        return this.selectWorkspacePackages(workspace, configured);
+      }
+      // The prompt preselects a lone app, so that is the default answer too
+      return [requireInput(
+        buildable.length === 1 ? buildable[0] : undefined,
+        "the workspace packages to deploy",
+        deployInputSources("packages", "--package")
+      )];
+    }
+
+    const { paths } = await inquirer.prompt([{
+      type: "checkbox",
+      name: "paths",
+      message: "Select the packages to deploy:",
+      choices: workspace.packages.map(pkg => ({
+        name: `${pkg.name} ${chalk.gray(`(${pkg.path})`)}`,
+        value: pkg.path,
+        checked: buildable.length === 1 && buildable[0] === pkg
+      })),
+      validate: (selected) => selected.length > 0 || "Select at least one package"
+    }]);
+    return workspace.packages.filter(pkg => paths.includes(pkg.path));
   }
 
-  private async prepareDeployment(): Promise<void> {
-    console.log(chalk.cyan("\n📦 Preparing deployment..."));
+  private async prepareDeployment(units: DeploymentUnit[]): Promise<void> {
+    log.stepStarted("prepare", "\n📦 Preparing deployment...");
     
-    // Install dependencies if needed
+    // Install dependencies if needed, exactly as locked when there is a lockfile
     const nodeModulesExists = existsSync(join(this.projectRoot, "node_modules"));
     if (!nodeModulesExists) {
-      console.log(chalk.yellow("📥 Installing dependencies..."));
-      await exec("npm install", { cwd: this.projectRoot });
+      const manager = detectPackageManager(this.projectRoot);
+      const command = installCommand(manager, { frozen: true });
+      log.info(chalk.yellow(`📥 Installing dependencies with ${manager.name}...`));
+      try {
+        await this.runStep({
+          description: "Install dependencies",
+          command,
+          files: [
+            { path: "node_modules/", action: "create" },
+            ...(manager.lockfile ? [] : [{ path: DEFAULT_LOCKFILES[manager.name], action: "create" as const }])
+          ]
+        });
+      } catch (error) {
+        throw new DeploymentStageError("build", `Installing dependencies failed: ${error instanceof Error ? error.message : error}`, { cause: error });
+      }
+      clearPackageManagerCache();
     }
     
-    // Run build if available
-    try {
-      const packageJson = JSON.parse(
-        readFileSync(join(this.projectRoot, "package.json"), "utf-8")
-      );
-      
-      if (packageJson.scripts?.build) {
-        console.log(chalk.yellow("🔨 Running build script..."));
-        await exec("npm run build", { cwd: this.projectRoot });
+    // Typecheck, lint, test and build every project before anything is pushed
+    const gateConfig = loadProjectConfig(this.projectRoot).qualityGates ?? {};
+    for (const unit of units) {
+      await this.runQualityGateStage(unit, gateConfig);
+    }
+
+    log.stepFinished("prepare");
+  }
+
+  private async runQualityGateStage(unit: DeploymentUnit, gateConfig: QualityGateConfig): Promise<void> {
+    const config: QualityGateConfig = { ...gateConfig };
+    if (unit.buildCommand) {
+      const build = typeof gateConfig.build === "string" ? { mode: gateConfig.build } : gateConfig.build ?? {};
+      // An explicitly configured command still wins over the workspace build
+      if (!build.command) {
+        config.build = { ...build, command: unit.buildCommand, cwd: this.projectRoot };
       }
-    } catch (error) {
-      console.log(chalk.yellow("⚠️  Could not run build script"));
+    }
+
+    const label = unit.name ? ` for ${unit.name}` : "";
+    const { gates, skipped } = await detectQualityGates(unit.root, config);
+    if (this.config.dryRun) {
+      for (const gate of gates) {
+        this.plan.push({
+          description: `Quality gate${label}: ${gate.name} (${gate.required ? "required" : "optional"})`,
+          command: gate.command,
+          cwd: gate.cwd ?? unit.root,
+          files: []
+        });
+      }
+      return;
+    }
+    if (gates.length === 0) return;
+
+    log.info(chalk.yellow(`🚦 Running quality gates${label}...`));
+    const report = await runQualityGates(unit.root, gates, skipped);
+    const summary = formatQualityGateReport(report);
+    log.info(summary, { package: unit.name, qualityGates: report.results.map(({ output, ...result }) => result), skipped });
+
+    if (!report.passed) {
+      log.stepFinished("prepare", undefined, false);
+      const failed = report.results.filter(result => !result.passed && result.required).map(result => result.name);
+      throw new DeploymentStageError("build", `Quality gates failed${label}: ${failed.join(", ")}`);
     }
   }
 
-  private async deployToVercel(): Promise<void> {
+  // Checked once, before the first project is deployed
+  private async ensureVercelLogin(): Promise<void> {
     try {
-      // Check if we're logged in to Vercel
-      try {
-        await exec("vercel whoami");
-      } catch {
-        console.log(chalk.yellow("🔐 Not logged in to Vercel. Initiating login..."));
-        await exec("vercel login");
+      await exec("vercel whoami");
+    } catch {
+      // `vercel login` needs a browser or a terminal
+      if (isNonInteractive() && !this.config.dryRun) {
+        if (process.env.VERCEL_TOKEN) {
+          throw new DeploymentStageError("preflight", "Vercel rejected VERCEL_TOKEN; check that it is valid for this scope");
+        }
+        throw new MissingInputError("Vercel credentials", "VERCEL_TOKEN");
       }
+      log.warning("🔐 Not logged in to Vercel. Initiating login...");
+      await this.runStep({ description: "Log in to Vercel", command: "vercel login", files: [] }, false);
+    }
+  }
+
+  private async deployToVercel(unit: DeploymentUnit): Promise<string | undefined> {
+    const label = unit.name ? `${unit.name} (${unit.path})` : `${unit.projectType} project`;
+    const record = (url: string, target: DeploymentTarget) => recordDeployment(
+      { url, target, projectType: unit.projectType, packageName: unit.name, packagePath: unit.path },
+      this.projectRoot
+    );
+
+    // Read-only, so a plan runs it too and shows what would block the deployment
+    log.info(`🔒 Scanning ${label} for secrets before upload...`);
+    try {
+      assertNoSecrets(await scanDeployPayload(unit.root, { cache: !this.config.dryRun }), `deploy ${label}`);
+    } catch (error) {
+      throw new DeploymentStageError("preflight", error instanceof Error ? error.message : String(error), { cause: error });
+    }
+
+    try {
+      // Deploy based on target and project type
+      const target = resolveDeploymentTarget(this.config.target, unit.root);
+      const deployArgs = [...vercelDeployArgs(target)];
       
-      // Deploy based on project type
-      let deployCommand = "vercel --prod";
-      
-      if (this.config.projectType === "backend") {
+      if (unit.projectType === "backend") {
         // For backend projects, we might need different settings
-        deployCommand += " --no-clipboard";
+        deployArgs.push("--no-clipboard");
       }
+      const deployCommand = ["vercel", ...deployArgs].join(" ");
       
-      console.log(chalk.cyan("🚀 Deploying to Vercel..."));
-      const { stdout } = await exec(deployCommand, { 
-        cwd: this.projectRoot,
-        env: { ...process.env, FORCE_COLOR: "1" }
-      });
+      if (this.config.dryRun) {
+        this.plan.push({
+          description: `Deploy ${label} to Vercel (${target})`,
+          command: deployCommand,
+          cwd: unit.root,
+          files: existsSync(join(unit.root, ".vercel")) ? [] : [{ path: ".vercel/", action: "create" }]
+        });
+        return;
+      }
+
+      log.info(chalk.cyan(`🚀 Deploying ${label} to Vercel...`));
+      let stdout: string;
+      try {
+        ({ stdout } = await execFile("vercel", deployArgs, {
+          cwd: unit.root,
+          env: { ...process.env, FORCE_COLOR: "1" }
+        }));
+      } catch (error) {
+        if (!(error instanceof Error && error.message.includes("No project found"))) throw error;
+        // The first deployment of an unlinked directory creates the Vercel project
+        log.info(chalk.yellow("📝 Creating new Vercel project..."));
+        ({ stdout } = await execFile("vercel", deployArgs, { cwd: unit.root }));
+      }
       
-      console.log(stdout);
+      log.commandRun(deployCommand, unit.root, 0, stdout);
       
       // Extract deployment URL
-      const urlMatch = stdout.match(/https:\/\/[^\s]+\.vercel\.app/);
-      if (urlMatch) {
-        console.log(chalk.green(`\n🌐 Deployment URL: ${urlMatch[0]}`));
+      const url = extractDeploymentUrl(stdout);
+      if (url) {
+        log.deploymentUrl(url);
+        await record(url, target);
       }
+      return url;
       
     } catch (error) {
-      if ((error as any).message.includes("No project found")) {
-        console.log(chalk.yellow("📝 Creating new Vercel project..."));
-        await exec("vercel --prod", { cwd: this.projectRoot });
-      } else {
-        throw error;
-      }
+      throw new DeploymentStageError("deploy", `Deploying ${label} failed: ${error instanceof Error ? error.message : error}`, { cause: error });
+    }
+  }
+
+  private async planGitOperations(commitMessage: string): Promise<void> {
+    let changed: PlannedFileChange[] = [];
+    try {
+      const { stdout } = await exec("git status --porcelain", { cwd: this.projectRoot });
+      changed = stdout.split("\n").filter(Boolean).map(line => {
+        const status = line.substring(0, 2);
+        const action: PlannedFileChange["action"] = status === "??" ? "create" : status.includes("D") ? "delete" : "modify";
+        return { path: line.substring(3), action };
+      });
+    } catch {
+      // Repository does not exist yet; it is created by an earlier step
     }
+
+    const branch = getCurrentBranch(this.projectRoot);
+    const push = hasUpstream(this.projectRoot) || !branch ? "git push" : `git push --set-upstream origin ${branch}`;
+
+    this.plan.push({ description: "Stage all changes", command: "git add -A", cwd: this.projectRoot, files: changed });
+    this.plan.push({ description: "Commit staged changes", command: `git commit -m ${JSON.stringify(commitMessage)}`, cwd: this.projectRoot, files: [] });
+    this.plan.push({
+      description: isProtectedBranch(branch) && !this.config.force
+        ? `Push to remote (requires confirmation: ${branch} is protected)`
+        : "Push to remote",
+      command: push,
+      cwd: this.projectRoot,
+      files: []
+    });
   }
+
+  // Direct pushes to main/master need --force or an explicit yes
+  private async confirmProtectedPush(): Promise<boolean> {
+    const branch = getCurrentBranch(this.projectRoot);
+    if (this.config.force || !isProtectedBranch(branch)) {
+      return Boolean(this.config.force);
+    }
+    if (isNonInteractive()) {
+      throw new MissingInputError(`confirmation to push directly to ${branch}`, "--force");
+    }
+
+    const { pushToProtected } = await inquirer.prompt([{
+      type: "confirm",
+      name: "pushToProtected",
+      message: `You are on ${branch}. Push directly to it?`,
+      default: false
+    }]);
+    return pushToProtected;
+  }
+
+  // Executes a command, or only records it when planning a dry run
+  private async runStep(step: Omit<PlanStep, "cwd">, inProject = true): Promise<string> {
+    const cwd = inProject ? this.projectRoot : process.cwd();
+    if (this.config.dryRun) {
+      this.plan.push({ ...step, cwd });
+      return "";
+    }
+
+    const { stdout } = await exec(step.command!, { cwd });
+    log.commandRun(step.command!, cwd, 0);
+    return stdout;
+  }
+
+  private writeStep(description: string, relativePath: string, content: string, autoFix = false): void {
+    const filePath = join(this.projectRoot, relativePath);
+    if (this.config.dryRun) {
+      this.plan.push({
+        description,
+        cwd: this.projectRoot,
+        files: [{ path: relativePath, action: existsSync(filePath) ? "modify" : "create" }],
+        autoFix
+      });
+      return;
+    }
+
+    writeFileSync(filePath, content);
+  }
+}
+
+export function formatDeploymentPlan(plan: PlanStep[]): string {
+  const lines = [chalk.cyan(`\n📝 Execution plan (${plan.length} step${plan.length === 1 ? "" : "s"}):`)];
+
+  if (plan.length === 0) {
+    lines.push("  Nothing to do.");
+  }
+
+  plan.forEach((step, index) => {
+    lines.push(`\n${index + 1}. ${step.description}${step.autoFix ? chalk.yellow(" [auto-fix]") : ""}`);
+    if (step.command) lines.push(`   $ ${step.command}`);
+    lines.push(chalk.gray(`   cwd: ${step.cwd}`));
+    for (const file of step.files) {
+      lines.push(chalk.gray(`   ${file.action}: ${file.path}`));
+    }
+  });
+
+  lines.push(chalk.green("\nDry run complete - no commands were executed and no files were written."));
+  return lines.join("\n");
 }
 
 // Export convenient wrapper function
 export async function runDeploymentOrchestrator(
   projectType: "frontend" | "backend" | "fullstack" | "auto" = "auto",
-  commitMessage?: string
-): Promise<void> {
+  commitMessage?: string,
+  options: Omit<Partial<DeploymentConfig>, "projectType" | "commitMessage"> = {}
+): Promise<DeploymentResult> {
   const orchestrator = new DeploymentOrchestrator(process.cwd(), {
     projectType,
     commitMessage,
-    autoFix: true
+    autoFix: true,
+    ...options
   });
   
-  await orchestrator.runSeamlessDeployment();
+  return orchestrator.runSeamlessDeployment();
 }
 
 // Direct Vercel deployment helper
 export async function seamlessVercelDeploy(): Promise<void> {
-  const { commitMessage } = await inquirer.prompt([{
-    type: "input",
-    name: "commitMessage",
-    message: "Enter commit message (or press Enter to skip Git):",
-    default: ""
-  }]);
+  const commitMessage = await promptForCommitMessage({ allowSkip: true });
   
-  await runDeploymentOrchestrator("auto", commitMessage || undefined);
+  await runDeploymentOrchestrator("auto", commitMessage);
 }
\ No newline at end of file
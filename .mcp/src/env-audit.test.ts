@@ -0,0 +1,87 @@
+// env-audit.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync } from "node:fs";
+import { auditEnvironment, envAuditWarnings, formatEnvAudit } from "./env-audit.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+describe("auditEnvironment", () => {
+  test("finds references in every syntax and notes which have a fallback", async () => {
+    const root = tempProject({
+      "src/server.ts": [
+        "const url = process.env.API_URL;",
+        "const port = process.env[\"PORT_OVERRIDE\"] ?? 3000;",
+        "const { DB_HOST, DB_PORT = 5432 } = process.env;"
+      ].join("\n"),
+      "src/client.tsx": "fetch(import.meta.env.VITE_API_URL || '/api');"
+    });
+    const audit = await auditEnvironment(root);
+
+    const references = audit.references.map(ref => `${ref.file}:${ref.line} ${ref.syntax} ${ref.name}${ref.hasFallback ? " (fallback)" : ""}`);
+    assert.deepEqual(references.sort(), [
+      "src/client.tsx:1 import.meta.env VITE_API_URL (fallback)",
+      "src/server.ts:1 process.env API_URL",
+      "src/server.ts:2 process.env PORT_OVERRIDE (fallback)",
+      "src/server.ts:3 process.env DB_HOST",
+      "src/server.ts:3 process.env DB_PORT (fallback)"
+    ]);
+    assert.deepEqual(audit.missing, ["API_URL", "DB_HOST"]);
+  });
+
+  test("sorts variables into missing, unused, undocumented and local only", async () => {
+    const root = tempProject({
+      "index.js": [
+        "process.env.API_URL;",
+        "process.env.SECRET_KEY;",
+        "process.env.DEBUG_LEVEL;",
+        "process.env.NODE_ENV;",
+        "process.env.VERCEL_URL;"
+      ].join("\n"),
+      ".env": "API_URL=https://api.example.com\nOLD_FLAG=1\n",
+      ".env.local": "SECRET_KEY=dev\n",
+      ".env.example": "API_URL=\nSECRET_KEY=\nLEGACY=\n"
+    });
+    const audit = await auditEnvironment(root, { target: "preview" });
+
+    assert.deepEqual(audit.files.map(file => `${file.file} ${file.kind}`), [".env target", ".env.example example", ".env.local local"]);
+    assert.deepEqual(audit.missing, ["DEBUG_LEVEL"]);
+    assert.deepEqual(audit.unused, ["LEGACY", "OLD_FLAG"]);
+    assert.deepEqual(audit.undocumented, ["DEBUG_LEVEL"]);
+    assert.deepEqual(audit.missingForTarget, ["SECRET_KEY"]);
+  });
+
+  test("leaves the scan cache alone when asked to", async () => {
+    const cached = () => readdirSync(process.env.MCP_SCAN_CACHE_DIR!).length;
+    const before = cached();
+    await auditEnvironment(tempProject({ "index.js": "process.env.API_URL;" }), { cache: false });
+
+    assert.equal(cached(), before);
+  });
+
+  test("reports nothing undocumented without an example file", async () => {
+    const audit = await auditEnvironment(tempProject({ "index.js": "process.env.API_URL;" }));
+    assert.deepEqual(audit.undocumented, []);
+  });
+});
+
+describe("formatEnvAudit", () => {
+  test("points at where a missing variable is read", async () => {
+    const audit = await auditEnvironment(tempProject({ "src/db.js": "\nconnect(process.env.DATABASE_URL);" }));
+
+    assert.match(formatEnvAudit(audit), /Missing - read by the code but set in no \.env file:\n {4}- DATABASE_URL \(src\/db\.js:2\)/);
+    assert.deepEqual(envAuditWarnings(audit), ["Environment variables read by the code but not set in any .env file: DATABASE_URL"]);
+  });
+
+  test("suggests vercel env add for local-only variables", async () => {
+    const audit = await auditEnvironment(tempProject({ "index.js": "process.env.TOKEN;", ".env.local": "TOKEN=abc\n" }));
+
+    assert.match(envAuditWarnings(audit)[0], /'vercel env add TOKEN production'/);
+  });
+
+  test("confirms when everything is set", async () => {
+    const audit = await auditEnvironment(tempProject({ "index.js": "process.env.API_URL;", ".env": "API_URL=x\n" }));
+
+    assert.match(formatEnvAudit(audit), /Every variable the code reads is set/);
+    assert.deepEqual(envAuditWarnings(audit), []);
+  });
+});
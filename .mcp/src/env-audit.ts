@@ -0,0 +1,225 @@
+// env-audit.ts
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { parse as parseDotenv } from "dotenv";
+import { envFilesForMode } from "./env-loader.js";
+import { scanProjectTree } from "./project-scanner.js";
+import type { DeploymentTarget } from "./vercel-helper.js";
+
+export interface EnvReference {
+  name: string;
+  file: string;
+  line: number;
+  syntax: "process.env" | "import.meta.env";
+  // Read as `process.env.X || ...` or `?? ...`, so the code copes when it is unset
+  hasFallback: boolean;
+}
+
+export interface EnvFileInfo {
+  file: string;
+  kind: "example" | "target" | "local";
+  names: string[];
+}
+
+export interface EnvAudit {
+  target: DeploymentTarget;
+  references: EnvReference[];
+  files: EnvFileInfo[];
+  // Read by the code without a fallback, but set in no .env file
+  missing: string[];
+  // Set in a .env file or .env.example, but never read by the code
+  unused: string[];
+  // Read by the code but not listed in .env.example; empty when there is no example file
+  undocumented: string[];
+  // Only set in files that stay on this machine, so the deployment will not see them
+  missingForTarget: string[];
+}
+
+export interface EnvAuditOptions {
+  target?: DeploymentTarget;
+  maxDepth?: number;
+  // Reuse and update the project scan cache (default true)
+  cache?: boolean;
+}
+
+const SOURCE_EXTENSIONS = /\.(js|jsx|mjs|cjs|ts|tsx|mts|cts|vue|svelte|astro)$/;
+const MAX_SOURCE_BYTES = 1024 * 1024;
+const ENV_FILE = /^\.env(\..+)?$/;
+const EXAMPLE_FILES = [".env.example", ".env.sample", ".env.template"];
+// What a Vercel build reads; *.local files are never committed
+const TARGET_ENV_FILES = envFilesForMode("production").filter(file => !file.endsWith(".local"));
+
+// Provided by Node, the build tool or Vercel at runtime
+const PLATFORM_VARIABLES = new Set([
+  "NODE_ENV", "CI", "PORT", "HOME", "PATH", "PWD", "TZ", "NEXT_RUNTIME",
+  "MODE", "DEV", "PROD", "SSR", "BASE_URL"
+]);
+const PLATFORM_PREFIXES = ["VERCEL_", "npm_", "NEXT_PUBLIC_VERCEL_", "VITE_VERCEL_"];
+
+const REFERENCE_PATTERN = /\b(process\.env|import\.meta\.env)(?:\.([A-Za-z_$][\w$]*)|\[\s*["'`]([^"'`]+)["'`]\s*\])(\s*(?:\|\||\?\?))?/g;
+const DESTRUCTURE_PATTERN = /\{([^{}]*)\}\s*=\s*(process\.env|import\.meta\.env)\b/g;
+
+/**
+ * Compares the variables the source reads with what the .env files provide.
+ * Only `.env` and `.env.production` travel with a deployment (previews build in
+ * production mode too); `.env.local`, `.env.development` and the like stay local.
+ */
+export async function auditEnvironment(projectRoot: string, options: EnvAuditOptions = {}): Promise<EnvAudit> {
+  const target = options.target ?? "production";
+  const references = await collectEnvReferences(projectRoot, options.maxDepth, options.cache);
+  const files = readEnvFiles(projectRoot);
+
+  const referenced = new Map<string, EnvReference[]>();
+  for (const reference of references) {
+    if (isPlatformVariable(reference.name)) continue;
+    referenced.set(reference.name, [...referenced.get(reference.name) ?? [], reference]);
+  }
+
+  const namesIn = (kinds: EnvFileInfo["kind"][]) =>
+    new Set(files.filter(file => kinds.includes(file.kind)).flatMap(file => file.names));
+  const defined = namesIn(["target", "local"]);
+  const targetNames = namesIn(["target"]);
+  const localNames = namesIn(["local"]);
+  const example = files.some(file => file.kind === "example") ? namesIn(["example"]) : undefined;
+
+  const sorted = (names: Iterable<string>) => [...new Set(names)].sort();
+  return {
+    target,
+    references,
+    files,
+    missing: sorted([...referenced].filter(([name, refs]) =>
+      !defined.has(name) && refs.some(reference => !reference.hasFallback)
+    ).map(([name]) => name)),
+    unused: sorted([...defined, ...example ?? []].filter(name => !referenced.has(name) && !isPlatformVariable(name))),
+    undocumented: example ? sorted([...referenced.keys()].filter(name => !example.has(name))) : [],
+    missingForTarget: sorted([...localNames].filter(name => referenced.has(name) && !targetNames.has(name)))
+  };
+}
+
+export function formatEnvAudit(audit: EnvAudit): string {
+  const lines = [`Environment variables (${audit.target}):`];
+  const where = (name: string) => {
+    const reference = audit.references.find(ref => ref.name === name);
+    return reference ? ` (${reference.file}:${reference.line})` : "";
+  };
+
+  if (audit.missing.length) {
+    lines.push("  Missing - read by the code but set in no .env file:");
+    lines.push(...audit.missing.map(name => `    - ${name}${where(name)}`));
+  }
+  if (audit.missingForTarget.length) {
+    lines.push(`  Local only - set on this machine but not for ${audit.target}:`);
+    lines.push(...audit.missingForTarget.map(name => `    - ${name}`));
+  }
+  if (audit.undocumented.length) {
+    lines.push("  Undocumented - missing from .env.example:");
+    lines.push(...audit.undocumented.map(name => `    - ${name}${where(name)}`));
+  }
+  if (audit.unused.length) {
+    lines.push("  Unused - set but never read:");
+    lines.push(...audit.unused.map(name => `    - ${name}`));
+  }
+  if (lines.length === 1) {
+    lines.push("  ✅ Every variable the code reads is set");
+  }
+
+  return lines.join("\n");
+}
+
+// One line per finding, for pre-flight warnings and readiness reports
+export function envAuditWarnings(audit: EnvAudit): string[] {
+  const warnings: string[] = [];
+
+  if (audit.missing.length) {
+    warnings.push(`Environment variables read by the code but not set in any .env file: ${audit.missing.join(", ")}`);
+  }
+  if (audit.missingForTarget.length) {
+    warnings.push(
+      `Environment variables only set locally, add them for ${audit.target} ` +
+      `(e.g. 'vercel env add ${audit.missingForTarget[0]} ${audit.target}'): ${audit.missingForTarget.join(", ")}`
+    );
+  }
+  if (audit.undocumented.length) {
+    warnings.push(`Environment variables missing from .env.example: ${audit.undocumented.join(", ")}`);
+  }
+  if (audit.unused.length) {
+    warnings.push(`Environment variables that are set but never read: ${audit.unused.join(", ")}`);
+  }
+
+  return warnings;
+}
+
+// Helper functions
+
+async function collectEnvReferences(projectRoot: string, maxDepth = 10, cache?: boolean): Promise<EnvReference[]> {
+  const tree = await scanProjectTree(projectRoot, { maxDepth, cache });
+  const references: EnvReference[] = [];
+
+  for (const entry of tree.entries) {
+    if (entry.type !== "file" || !SOURCE_EXTENSIONS.test(entry.path) || (entry.size ?? 0) > MAX_SOURCE_BYTES) continue;
+
+    let source: string;
+    try {
+      source = readFileSync(join(projectRoot, entry.path), "utf-8");
+    } catch {
+      continue;
+    }
+
+    const lineOf = (index: number) => source.slice(0, index).split("\n").length;
+    for (const match of source.matchAll(REFERENCE_PATTERN)) {
+      references.push({
+        name: match[2] ?? match[3],
+        file: entry.path,
+        line: lineOf(match.index ?? 0),
+        syntax: match[1] as EnvReference["syntax"],
+        hasFallback: Boolean(match[4])
+      });
+    }
+
+    // const { API_URL, PORT = 3000 } = process.env
+    for (const match of source.matchAll(DESTRUCTURE_PATTERN)) {
+      for (const binding of match[1].split(",")) {
+        const name = binding.split(/[:=]/)[0].trim();
+        if (!/^[A-Za-z_$][\w$]*$/.test(name)) continue;
+        references.push({
+          name,
+          file: entry.path,
+          line: lineOf(match.index ?? 0),
+          syntax: match[2] as EnvReference["syntax"],
+          hasFallback: binding.includes("=")
+        });
+      }
+    }
+  }
+
+  return references;
+}
+
+function readEnvFiles(projectRoot: string): EnvFileInfo[] {
+  let names: string[];
+  try {
+    names = readdirSync(projectRoot).filter(name => ENV_FILE.test(name)).sort();
+  } catch {
+    return [];
+  }
+
+  const files: EnvFileInfo[] = [];
+  for (const file of names) {
+    try {
+      const parsed = parseDotenv(readFileSync(join(projectRoot, file), "utf-8"));
+      files.push({ file, kind: classifyEnvFile(file), names: Object.keys(parsed) });
+    } catch {
+      // Unreadable files are reported by the secret and permission checks
+    }
+  }
+  return files;
+}
+
+function classifyEnvFile(file: string): EnvFileInfo["kind"] {
+  if (EXAMPLE_FILES.includes(file)) return "example";
+  return TARGET_ENV_FILES.includes(file) ? "target" : "local";
+}
+
+function isPlatformVariable(name: string): boolean {
+  return PLATFORM_VARIABLES.has(name) || PLATFORM_PREFIXES.some(prefix => name.startsWith(prefix));
+}
@@ -0,0 +1,97 @@
+// env-loader.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { detectEnvConvention, envFilesForMode, formatEnvironmentSources, loadEnvironment } from "./env-loader.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+describe("envFilesForMode", () => {
+  test("orders files from lowest to highest precedence per convention", () => {
+    assert.deepEqual(envFilesForMode("development"), [".env", ".env.development", ".env.local", ".env.development.local"]);
+    assert.deepEqual(envFilesForMode("development", "vite"), [".env", ".env.local", ".env.development", ".env.development.local"]);
+  });
+
+  test("reads the production files for previews and skips .env.local in Next.js tests", () => {
+    assert.deepEqual(envFilesForMode("preview"), [".env", ".env.production", ".env.local", ".env.production.local"]);
+    assert.deepEqual(envFilesForMode("test"), [".env", ".env.test", ".env.test.local"]);
+    assert.deepEqual(envFilesForMode("test", "vite"), [".env", ".env.local", ".env.test", ".env.test.local"]);
+  });
+});
+
+describe("loadEnvironment", () => {
+  const files = {
+    ".env": "API_URL=https://api.example.com\nSHARED=env\nONLY_BASE=base\n",
+    ".env.production": "SHARED=production\n",
+    ".env.local": "SHARED=local\n",
+    ".env.production.local": "ONLY_BASE=production-local\n"
+  };
+
+  test("lets later files win and records what they override", () => {
+    const loaded = loadEnvironment(tempProject(files), { mode: "production", convention: "next", processEnv: false });
+
+    assert.deepEqual(loaded.files, [".env", ".env.production", ".env.local", ".env.production.local"]);
+    assert.equal(loaded.values.SHARED, "local");
+    assert.deepEqual(loaded.sources.SHARED.overrides, [".env", ".env.production"]);
+    assert.equal(loaded.values.ONLY_BASE, "production-local");
+  });
+
+  test("puts the mode file above .env.local for Vite", () => {
+    const loaded = loadEnvironment(tempProject(files), { mode: "production", convention: "vite", processEnv: false });
+
+    assert.equal(loaded.values.SHARED, "production");
+    assert.deepEqual(loaded.sources.SHARED.overrides, [".env", ".env.local"]);
+  });
+
+  test("lets variables from the shell win over every file", () => {
+    const loaded = loadEnvironment(tempProject(files), { mode: "production", convention: "next", processEnv: { SHARED: "shell" } });
+
+    assert.equal(loaded.values.SHARED, "shell");
+    assert.equal(loaded.sources.SHARED.source, "process.env");
+    assert.deepEqual(loaded.sources.SHARED.overrides, [".env", ".env.production", ".env.local"]);
+  });
+
+  test("expands references, defaults and escapes like dotenv-expand", () => {
+    const root = tempProject({
+      ".env": [
+        "HOST=localhost",
+        "PORT=",
+        "URL=http://${HOST}:${PORT:-3000}/$SUFFIX",
+        "SUFFIX=api",
+        "LITERAL=\\$HOST",
+        "LOOP=${LOOP}x",
+        "FROM_SHELL=${HOME_DIR}/app"
+      ].join("\n")
+    });
+    const loaded = loadEnvironment(root, { processEnv: { HOME_DIR: "/home/me" } });
+
+    assert.equal(loaded.values.URL, "http://localhost:3000/api");
+    assert.equal(loaded.sources.URL.expanded, true);
+    assert.equal(loaded.values.LITERAL, "$HOST");
+    assert.equal(loaded.values.LOOP, "x");
+    assert.equal(loaded.values.FROM_SHELL, "/home/me/app");
+    assert.equal(loaded.sources.HOST.expanded, false);
+  });
+
+  test("keeps references as written when expansion is off", () => {
+    const loaded = loadEnvironment(tempProject({ ".env": "A=1\nB=${A}\n" }), { expand: false, processEnv: false });
+    assert.equal(loaded.values.B, "${A}");
+  });
+});
+
+describe("formatEnvironmentSources", () => {
+  test("lists sources without printing values", () => {
+    const loaded = loadEnvironment(tempProject({ ".env": "TOKEN=supersecret\nEMPTY=\n" }), { processEnv: false });
+    const text = formatEnvironmentSources(loaded);
+
+    assert.doesNotMatch(text, /supersecret/);
+    assert.match(text, /TOKEN {2}\.env {2}\(set, 11 chars\)/);
+    assert.match(text, /EMPTY {2}\.env {2}\(empty\)/);
+  });
+});
+
+describe("detectEnvConvention", () => {
+  test("uses Vite precedence only for Vite projects without Next.js", () => {
+    assert.equal(detectEnvConvention(tempProject({ "package.json": JSON.stringify({ devDependencies: { vite: "^5.0.0" } }) })), "vite");
+    assert.equal(detectEnvConvention(tempProject({ "package.json": JSON.stringify({ dependencies: { next: "14", vite: "5" } }) })), "next");
+    assert.equal(detectEnvConvention(tempProject({})), "next");
+  });
+});
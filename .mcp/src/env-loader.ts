@@ -0,0 +1,171 @@
+// env-loader.ts
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { parse as parseDotenv } from "dotenv";
+
+export type EnvironmentMode = "development" | "preview" | "production" | "test";
+
+/**
+ * next - .env.[mode].local > .env.local > .env.[mode] > .env; .env.local is skipped in test
+ * vite - .env.[mode].local > .env.[mode] > .env.local > .env
+ */
+export type EnvConvention = "next" | "vite";
+
+export interface EnvLoadOptions {
+  mode?: EnvironmentMode;
+  // Detected from package.json when not given
+  convention?: EnvConvention;
+  // Variables already set in the shell win over the files, as they do in Next.js and Vite (default true)
+  processEnv?: NodeJS.ProcessEnv | false;
+  // Expand ${VAR}, $VAR and ${VAR:-default} references (default true)
+  expand?: boolean;
+}
+
+export interface EnvValueSource {
+  // The file the final value came from, or "process.env"
+  source: string;
+  // Lower-precedence files that also set the variable
+  overrides: string[];
+  expanded: boolean;
+}
+
+export interface LoadedEnvironment {
+  mode: EnvironmentMode;
+  convention: EnvConvention;
+  // Files that exist, from lowest to highest precedence
+  files: string[];
+  values: Record<string, string>;
+  sources: Record<string, EnvValueSource>;
+}
+
+// Deeper chains of ${VAR} references are left unexpanded
+const MAX_EXPANSION_DEPTH = 10;
+
+/**
+ * The .env files a mode reads, from lowest to highest precedence. Preview
+ * deployments build in production mode, so they read the production files.
+ */
+export function envFilesForMode(mode: EnvironmentMode, convention: EnvConvention = "next"): string[] {
+  const fileMode = mode === "preview" ? "production" : mode;
+  const local = convention === "next" && fileMode === "test" ? [] : [".env.local"];
+
+  return convention === "vite"
+    ? [".env", ...local, `.env.${fileMode}`, `.env.${fileMode}.local`]
+    : [".env", `.env.${fileMode}`, ...local, `.env.${fileMode}.local`];
+}
+
+export function loadEnvironment(projectRoot: string, options: EnvLoadOptions = {}): LoadedEnvironment {
+  const mode = options.mode ?? "development";
+  const convention = options.convention ?? detectEnvConvention(projectRoot);
+  const processEnv = options.processEnv === false ? {} : options.processEnv ?? process.env;
+
+  const files: string[] = [];
+  const raw: Record<string, string> = {};
+  const sources: Record<string, EnvValueSource> = {};
+
+  for (const file of envFilesForMode(mode, convention)) {
+    const path = join(projectRoot, file);
+    if (!existsSync(path)) continue;
+
+    let parsed: Record<string, string>;
+    try {
+      parsed = parseDotenv(readFileSync(path, "utf-8"));
+    } catch (error) {
+      console.warn(`Failed to load ${file}:`, error);
+      continue;
+    }
+    files.push(file);
+
+    for (const [name, value] of Object.entries(parsed)) {
+      const previous = sources[name];
+      raw[name] = value;
+      sources[name] = {
+        source: file,
+        overrides: previous ? [...previous.overrides, previous.source] : [],
+        expanded: false
+      };
+    }
+  }
+
+  for (const name of Object.keys(raw)) {
+    const fromShell = processEnv[name];
+    if (fromShell !== undefined) {
+      raw[name] = fromShell;
+      sources[name] = { source: "process.env", overrides: [...sources[name].overrides, sources[name].source], expanded: false };
+    }
+  }
+
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    // Values from the shell are final; only file values are expanded
+    if (options.expand === false || sources[name].source === "process.env") {
+      values[name] = value;
+      continue;
+    }
+    values[name] = expandValue(value, raw, processEnv, new Set([name]), 0);
+    sources[name].expanded = values[name] !== value;
+  }
+
+  return { mode, convention, files, values, sources };
+}
+
+// Lists where each variable came from; values are never printed
+export function formatEnvironmentSources(loaded: LoadedEnvironment): string {
+  const lines = [
+    `Environment (${loaded.mode}, ${loaded.convention} precedence): ${loaded.files.length ? loaded.files.join(" < ") : "no .env files"}`
+  ];
+
+  const names = Object.keys(loaded.sources).sort();
+  const width = Math.max(0, ...names.map(name => name.length));
+  for (const name of names) {
+    const { source, overrides, expanded } = loaded.sources[name];
+    const notes = [
+      loaded.values[name] ? `set, ${loaded.values[name].length} chars` : "empty",
+      ...(expanded ? ["expanded"] : []),
+      ...(overrides.length ? [`overrides ${overrides.join(", ")}`] : [])
+    ];
+    lines.push(`  ${name.padEnd(width)}  ${source}  (${notes.join("; ")})`);
+  }
+
+  return lines.join("\n");
+}
+
+export function detectEnvConvention(projectRoot: string): EnvConvention {
+  try {
+    const packageJson = JSON.parse(readFileSync(join(projectRoot, "package.json"), "utf-8"));
+    const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    return "vite" in dependencies && !("next" in dependencies) ? "vite" : "next";
+  } catch {
+    return "next";
+  }
+}
+
+// Helper functions
+
+// Same syntax as dotenv-expand, which Next.js and Vite both use; "\$" keeps a literal dollar sign
+function expandValue(
+  value: string,
+  variables: Record<string, string>,
+  processEnv: NodeJS.ProcessEnv,
+  seen: Set<string>,
+  depth: number
+): string {
+  if (depth > MAX_EXPANSION_DEPTH) return value;
+
+  return value.replace(/(\\)?\$(?:\{([A-Za-z_][\w]*)(?::?-([^}]*))?\}|([A-Za-z_][\w]*))/g, (match, escaped, braced, fallback, bare) => {
+    if (escaped) return match.slice(1);
+
+    const name = braced ?? bare;
+    // A variable that refers back to itself expands to nothing rather than looping
+    if (seen.has(name)) return "";
+
+    const resolved = processEnv[name] ?? (name in variables
+      ? expandValue(variables[name], variables, processEnv, new Set([...seen, name]), depth + 1)
+      : undefined);
+
+    if (resolved === undefined || resolved === "") {
+      return fallback !== undefined ? expandValue(fallback, variables, processEnv, seen, depth + 1) : "";
+    }
+    return resolved;
+  });
+}
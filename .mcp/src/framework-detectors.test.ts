@@ -0,0 +1,79 @@
+// framework-detectors.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { detectFrameworks, formatDetection, resolveProjectType, validateDetectorConfig } from "./framework-detectors.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+const scores = (root: string, dependencies: Record<string, string> = {}) =>
+  detectFrameworks(root, dependencies).map(detection => `${detection.id} ${detection.confidence}`);
+
+describe("detectFrameworks", () => {
+  test("adds up dependency, config file and directory evidence, capped at 1", () => {
+    const root = tempProject({ "next.config.mjs": "export default {};", "app/page.tsx": "" });
+    const [next] = detectFrameworks(root, { next: "14.0.0", react: "18.2.0" });
+
+    assert.equal(next.confidence, 1);
+    assert.deepEqual(next.evidence.map(item => `${item.kind} ${item.value} ${item.weight}`), [
+      "dependency next 0.6",
+      "config-file next.config.mjs 0.3",
+      "directory app/ 0.15"
+    ]);
+    assert.equal(formatDetection(next), "Next.js (frontend, 100%): dependency next, config-file next.config.mjs, directory app/");
+  });
+
+  test("counts further dependencies of one framework for less than the first", () => {
+    assert.deepEqual(scores(tempProject(), { "@remix-run/react": "2.0.0", "@remix-run/node": "2.0.0" }), ["remix 0.7"]);
+  });
+
+  test("drops frameworks a confident, more specific one supersedes", () => {
+    const root = tempProject({ "index.html": "<div id=root></div>" });
+
+    assert.deepEqual(scores(root, { vite: "5.0.0", react: "18.2.0" }), ["vite 0.75"]);
+    assert.deepEqual(scores(tempProject({ "next.config.js": "" }), { react: "18.2.0" }), ["react 0.6", "next 0.3"]);
+  });
+
+  test("reports weak evidence only above the noise floor and falls back to a static site", () => {
+    assert.deepEqual(scores(tempProject({ "app/index.js": "" })), []);
+    assert.deepEqual(scores(tempProject({ "index.html": "<h1>hi</h1>" })), ["static 0.6"]);
+  });
+
+  test("finds Vercel functions in api/, skipping helpers and declarations", () => {
+    const root = tempProject({
+      "api/health.js": "export default () => {};",
+      "api/_shared.js": "",
+      "api/types.d.ts": "",
+      "vercel.json": { functions: { "api/*.js": { memory: 512 } } }
+    });
+    const [functions] = detectFrameworks(root);
+
+    assert.equal(functions.id, "vercel-functions");
+    assert.deepEqual(functions.evidence.map(item => item.value), ["api/ (health.js)", "vercel.json functions"]);
+  });
+
+  test("lets a project detector replace a built-in one by id", () => {
+    const root = tempProject({ "app.config.ts": "" });
+    const custom = { id: "next", name: "Custom Next", projectType: "fullstack" as const, configFiles: ["app.config.*"] };
+
+    assert.deepEqual(detectFrameworks(root, { next: "14.0.0" }, [custom]).map(detection => `${detection.name} ${detection.confidence}`), ["Custom Next 0.3"]);
+  });
+});
+
+describe("resolveProjectType", () => {
+  test("combines the confident detections", () => {
+    const root = tempProject();
+
+    assert.equal(resolveProjectType(detectFrameworks(root, { react: "18", express: "4" })), "fullstack");
+    assert.equal(resolveProjectType(detectFrameworks(root, { fastify: "4" })), "backend");
+    assert.equal(resolveProjectType(detectFrameworks(tempProject({ "next.config.js": "" }))), undefined);
+  });
+});
+
+describe("validateDetectorConfig", () => {
+  test("rejects detectors that could never match", () => {
+    assert.throws(() => validateDetectorConfig(null, 0), /detectors\[0\] must be an object/);
+    assert.throws(() => validateDetectorConfig({ id: "x" }, 1), /detectors\[1\] needs an "id" and a "name"/);
+    assert.throws(() => validateDetectorConfig({ id: "x", name: "X", projectType: "mobile" }, 2), /projectType must be/);
+    assert.throws(() => validateDetectorConfig({ id: "x", name: "X", projectType: "backend", dependencies: "x" }, 3), /dependencies must be a list of strings/);
+    assert.throws(() => validateDetectorConfig({ id: "x", name: "X", projectType: "backend" }, 4), /needs at least one of/);
+  });
+});
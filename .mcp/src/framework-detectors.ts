@@ -0,0 +1,342 @@
+// framework-detectors.ts
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+export type DetectedProjectType = "frontend" | "backend" | "fullstack";
+
+export type EvidenceKind = "dependency" | "config-file" | "directory" | "file";
+
+export interface DetectionEvidence {
+  kind: EvidenceKind;
+  value: string;
+  weight: number;
+}
+
+export interface DetectionInput {
+  root: string;
+  dependencies: Record<string, string>;
+}
+
+export interface FrameworkDetector {
+  id: string;
+  // Shown to users as the framework name
+  name: string;
+  projectType: DetectedProjectType;
+  dependencies?: string[];
+  // Paths relative to the project root; a "*" matches within the file name, e.g. "next.config.*"
+  configFiles?: string[];
+  directories?: string[];
+  // Ids of less specific detectors this one replaces, e.g. Next.js replaces React
+  supersedes?: string[];
+  // Only counts when no other frontend detector is confident, e.g. a plain static site
+  fallback?: boolean;
+  // Extra evidence that cannot be expressed with the lists above
+  detect?: (input: DetectionInput) => DetectionEvidence[];
+}
+
+// Detectors from .mcp/config.json are plain JSON, so they cannot carry code
+export type DetectorConfig = Omit<FrameworkDetector, "detect">;
+
+export interface FrameworkDetection {
+  id: string;
+  name: string;
+  projectType: DetectedProjectType;
+  // 0 to 1; detections at or above MIN_CONFIDENCE are trusted
+  confidence: number;
+  evidence: DetectionEvidence[];
+}
+
+export const MIN_CONFIDENCE = 0.5;
+// Weaker detections, such as a lone app/ directory, are noise
+const MIN_REPORTED_CONFIDENCE = 0.3;
+
+// A matching dependency is strong evidence on its own; files and directories only add up
+const DEPENDENCY_WEIGHT = 0.6;
+const EXTRA_DEPENDENCY_WEIGHT = 0.1;
+const CONFIG_FILE_WEIGHT = 0.3;
+const DIRECTORY_WEIGHT = 0.15;
+const ENTRY_FILE_WEIGHT = 0.15;
+// An index.html is all a static site needs
+const STATIC_INDEX_WEIGHT = 0.6;
+
+const FUNCTION_EXTENSIONS = /\.(js|mjs|cjs|ts|mts|cts|go|py|rb)$/;
+
+const BUILTIN_DETECTORS: FrameworkDetector[] = [
+  {
+    id: "next",
+    name: "Next.js",
+    projectType: "frontend",
+    dependencies: ["next"],
+    configFiles: ["next.config.*"],
+    directories: ["app", "pages"],
+    supersedes: ["react"]
+  },
+  {
+    id: "gatsby",
+    name: "Gatsby",
+    projectType: "frontend",
+    dependencies: ["gatsby"],
+    configFiles: ["gatsby-config.*"],
+    supersedes: ["react"]
+  },
+  {
+    id: "remix",
+    name: "Remix",
+    projectType: "fullstack",
+    dependencies: ["@remix-run/react", "@remix-run/node", "@remix-run/dev"],
+    configFiles: ["remix.config.*"],
+    directories: ["app/routes"],
+    supersedes: ["react", "vite"]
+  },
+  {
+    id: "sveltekit",
+    name: "SvelteKit",
+    projectType: "fullstack",
+    dependencies: ["@sveltejs/kit"],
+    configFiles: ["svelte.config.*"],
+    directories: ["src/routes"],
+    supersedes: ["svelte", "vite"]
+  },
+  {
+    id: "nuxt",
+    name: "Nuxt",
+    projectType: "fullstack",
+    dependencies: ["nuxt", "nuxt3"],
+    configFiles: ["nuxt.config.*"],
+    directories: ["pages", "server/api"],
+    supersedes: ["vue", "vite"]
+  },
+  {
+    id: "astro",
+    name: "Astro",
+    projectType: "frontend",
+    dependencies: ["astro"],
+    configFiles: ["astro.config.*"],
+    directories: ["src/pages"],
+    supersedes: ["react", "vue", "svelte", "vite"]
+  },
+  {
+    id: "angular",
+    name: "Angular",
+    projectType: "frontend",
+    dependencies: ["@angular/core"],
+    configFiles: ["angular.json"]
+  },
+  {
+    id: "vite",
+    name: "Vite SPA",
+    projectType: "frontend",
+    dependencies: ["vite"],
+    configFiles: ["vite.config.*"],
+    supersedes: ["react", "vue", "svelte"],
+    detect: ({ root }) => existsSync(join(root, "index.html"))
+      ? [{ kind: "file", value: "index.html", weight: ENTRY_FILE_WEIGHT }]
+      : []
+  },
+  { id: "react", name: "React", projectType: "frontend", dependencies: ["react", "react-dom"] },
+  { id: "vue", name: "Vue", projectType: "frontend", dependencies: ["vue"] },
+  { id: "svelte", name: "Svelte", projectType: "frontend", dependencies: ["svelte"] },
+  {
+    id: "nestjs",
+    name: "NestJS",
+    projectType: "backend",
+    dependencies: ["@nestjs/core"],
+    configFiles: ["nest-cli.json"],
+    supersedes: ["express", "fastify"]
+  },
+  { id: "express", name: "Express", projectType: "backend", dependencies: ["express"] },
+  { id: "fastify", name: "Fastify", projectType: "backend", dependencies: ["fastify"] },
+  { id: "koa", name: "Koa", projectType: "backend", dependencies: ["koa"] },
+  { id: "hono", name: "Hono", projectType: "backend", dependencies: ["hono"] },
+  {
+    id: "vercel-functions",
+    name: "Vercel Functions",
+    projectType: "backend",
+    dependencies: ["@vercel/node"],
+    detect: detectVercelFunctions
+  },
+  {
+    id: "static",
+    name: "Static site",
+    projectType: "frontend",
+    fallback: true,
+    detect: ({ root }) => existsSync(join(root, "index.html"))
+      ? [{ kind: "file", value: "index.html", weight: STATIC_INDEX_WEIGHT }]
+      : []
+  }
+];
+
+const registry = new Map<string, FrameworkDetector>(BUILTIN_DETECTORS.map(detector => [detector.id, detector]));
+
+// Adds a detector, or replaces the one with the same id
+export function registerDetector(detector: FrameworkDetector): void {
+  registry.set(detector.id, detector);
+}
+
+export function getDetectors(): FrameworkDetector[] {
+  return [...registry.values()];
+}
+
+/**
+ * Runs every registered detector, plus any project-specific ones, and returns
+ * the detections that found evidence, most confident first. Detections made
+ * redundant by a more specific confident one are dropped.
+ */
+export function detectFrameworks(
+  root: string,
+  dependencies: Record<string, string> = {},
+  extraDetectors: DetectorConfig[] = []
+): FrameworkDetection[] {
+  const detectors = new Map(registry);
+  for (const detector of extraDetectors) detectors.set(detector.id, detector);
+
+  const input: DetectionInput = { root, dependencies };
+  const scored: FrameworkDetection[] = [];
+  for (const detector of detectors.values()) {
+    const evidence = collectEvidence(detector, input);
+    if (evidence.length === 0) continue;
+
+    const confidence = Math.min(1, evidence.reduce((sum, item) => sum + item.weight, 0));
+    scored.push({
+      id: detector.id,
+      name: detector.name,
+      projectType: detector.projectType,
+      confidence: Math.round(confidence * 100) / 100,
+      evidence
+    });
+  }
+
+  const confident = scored.filter(detection => detection.confidence >= MIN_CONFIDENCE);
+  const superseded = new Set(confident.flatMap(detection => detectors.get(detection.id)?.supersedes ?? []));
+  const hasFrontend = confident.some(detection =>
+    !detectors.get(detection.id)?.fallback && detection.projectType !== "backend"
+  );
+
+  return scored
+    .filter(detection => detection.confidence >= MIN_REPORTED_CONFIDENCE && !superseded.has(detection.id))
+    .filter(detection => !(detectors.get(detection.id)?.fallback && hasFrontend))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// Combines the confident detections; undefined when nothing is confident enough
+export function resolveProjectType(detections: FrameworkDetection[]): DetectedProjectType | undefined {
+  const types = new Set(
+    detections.filter(detection => detection.confidence >= MIN_CONFIDENCE).map(detection => detection.projectType)
+  );
+
+  if (types.has("fullstack") || (types.has("frontend") && types.has("backend"))) return "fullstack";
+  if (types.has("frontend")) return "frontend";
+  if (types.has("backend")) return "backend";
+  return undefined;
+}
+
+export function formatDetection(detection: FrameworkDetection): string {
+  const evidence = detection.evidence.map(item => `${item.kind} ${item.value}`).join(", ");
+  return `${detection.name} (${detection.projectType}, ${Math.round(detection.confidence * 100)}%): ${evidence}`;
+}
+
+// Rejects config detectors that would silently never match
+export function validateDetectorConfig(value: unknown, index: number): DetectorConfig {
+  const detector = value as Partial<DetectorConfig> | null;
+  const prefix = `detectors[${index}]`;
+
+  if (!detector || typeof detector !== "object") {
+    throw new Error(`${prefix} must be an object`);
+  }
+  if (typeof detector.id !== "string" || typeof detector.name !== "string") {
+    throw new Error(`${prefix} needs an "id" and a "name"`);
+  }
+  if (!["frontend", "backend", "fullstack"].includes(detector.projectType as string)) {
+    throw new Error(`${prefix}.projectType must be "frontend", "backend" or "fullstack"`);
+  }
+  for (const key of ["dependencies", "configFiles", "directories", "supersedes"] as const) {
+    const list = detector[key];
+    if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== "string"))) {
+      throw new Error(`${prefix}.${key} must be a list of strings`);
+    }
+  }
+  if (!detector.dependencies?.length && !detector.configFiles?.length && !detector.directories?.length) {
+    throw new Error(`${prefix} needs at least one of "dependencies", "configFiles" or "directories"`);
+  }
+
+  return detector as DetectorConfig;
+}
+
+// Helper functions
+
+function collectEvidence(detector: FrameworkDetector, input: DetectionInput): DetectionEvidence[] {
+  const evidence: DetectionEvidence[] = [];
+
+  const dependencies = (detector.dependencies ?? []).filter(name => name in input.dependencies);
+  dependencies.forEach((name, index) => {
+    evidence.push({ kind: "dependency", value: name, weight: index === 0 ? DEPENDENCY_WEIGHT : EXTRA_DEPENDENCY_WEIGHT });
+  });
+
+  for (const pattern of detector.configFiles ?? []) {
+    const file = findFile(input.root, pattern);
+    if (file) evidence.push({ kind: "config-file", value: file, weight: CONFIG_FILE_WEIGHT });
+  }
+
+  for (const directory of detector.directories ?? []) {
+    if (isDirectory(join(input.root, directory))) {
+      evidence.push({ kind: "directory", value: `${directory}/`, weight: DIRECTORY_WEIGHT });
+    }
+  }
+
+  if (detector.detect) {
+    evidence.push(...detector.detect(input));
+  }
+
+  return evidence;
+}
+
+// Files in api/ are deployed as serverless functions, as with this repository's api/health.js
+function detectVercelFunctions({ root }: DetectionInput): DetectionEvidence[] {
+  const evidence: DetectionEvidence[] = [];
+
+  const apiDir = join(root, "api");
+  const functions = isDirectory(apiDir)
+    ? readdirSync(apiDir).filter(file => FUNCTION_EXTENSIONS.test(file) && !file.startsWith("_") && !file.endsWith(".d.ts"))
+    : [];
+  if (functions.length > 0) {
+    evidence.push({ kind: "directory", value: `api/ (${functions.join(", ")})`, weight: DEPENDENCY_WEIGHT });
+  }
+
+  try {
+    const vercelJson = JSON.parse(readFileSync(join(root, "vercel.json"), "utf-8"));
+    if (vercelJson.functions) {
+      evidence.push({ kind: "config-file", value: "vercel.json functions", weight: CONFIG_FILE_WEIGHT });
+    }
+  } catch {
+    // No vercel.json, or one without functions
+  }
+
+  return evidence;
+}
+
+function findFile(root: string, pattern: string): string | undefined {
+  if (!pattern.includes("*")) {
+    return existsSync(join(root, pattern)) ? pattern : undefined;
+  }
+
+  const directory = dirname(pattern);
+  const matcher = new RegExp(`^${pattern.slice(directory === "." ? 0 : directory.length + 1).split("*").map(escapeRegExp).join(".*")}$`);
+  try {
+    const match = readdirSync(join(root, directory)).find(file => matcher.test(file));
+    return match && (directory === "." ? match : `${directory}/${match}`);
+  } catch {
+    return undefined;
+  }
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,79 @@
+// git-helper.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { getCurrentBranch, gitStageCommitPush, isProtectedBranch, isSecretFile, listChangedFiles } from "./git-helper.js";
+import { git, tempProject } from "./test-fixtures/projects.js";
+
+describe("isSecretFile", () => {
+  test("flags env files and keys but not shareable examples", () => {
+    assert.deepEqual(
+      [".env", "apps/web/.env.production.local", "certs/server.pem", ".ssh/id_rsa"].filter(isSecretFile),
+      [".env", "apps/web/.env.production.local", "certs/server.pem", ".ssh/id_rsa"]
+    );
+    assert.deepEqual([".env.example", "web\\.env.sample", "environment.ts", "id_rsa.pub"].filter(isSecretFile), []);
+  });
+});
+
+describe("isProtectedBranch", () => {
+  test("protects main and master only", () => {
+    assert.equal(isProtectedBranch("main"), true);
+    assert.equal(isProtectedBranch("master"), true);
+    assert.equal(isProtectedBranch("feature/main"), false);
+    assert.equal(isProtectedBranch(undefined), false);
+  });
+});
+
+describe("gitStageCommitPush", () => {
+  test("refuses to push to a protected branch before staging anything", async () => {
+    const root = tempProject({}, { git: "main" });
+    writeFileSync(join(root, "index.js"), "console.log('hi');\n");
+
+    await assert.rejects(
+      gitStageCommitPush({ message: "Add index", cwd: root }),
+      /Refusing to push directly to protected branch 'main'/
+    );
+    assert.equal(git(root, "diff", "--cached", "--name-only"), "");
+  });
+
+  test("commits without pushing, even on a protected branch", async () => {
+    const root = tempProject({}, { git: "main" });
+    writeFileSync(join(root, "index.js"), "console.log('hi');\n");
+
+    const result = await gitStageCommitPush({ message: "Add index", skipPush: true, cwd: root });
+
+    assert.deepEqual(result, { branch: "main", files: ["index.js"], committed: true, pushed: false, upstreamCreated: false });
+    assert.equal(git(root, "log", "--format=%s"), "Add index");
+    assert.deepEqual(listChangedFiles(root), []);
+  });
+
+  test("unstages env files instead of committing them", async () => {
+    const root = tempProject({}, { git: "feature" });
+    writeFileSync(join(root, "index.js"), "console.log('hi');\n");
+    writeFileSync(join(root, ".env"), "API_KEY=local\n");
+
+    await assert.rejects(
+      gitStageCommitPush({ message: "Add files", skipPush: true, cwd: root }),
+      /Refusing to commit files that may contain secrets: \.env/
+    );
+    assert.equal(git(root, "diff", "--cached", "--name-only"), "index.js");
+  });
+
+  test("unstages files whose staged content contains a token", async () => {
+    const root = tempProject({}, { git: "feature" });
+    // Assembled at runtime so this file does not trip the scanner itself
+    writeFileSync(join(root, "config.js"), `export const token = "${"ghp" + "_" + "q8Zr2LmX4vN7pK1sT9wB3yH6dF0gJ5cAAb12"}";\n`);
+
+    await assert.rejects(
+      gitStageCommitPush({ message: "Add config", paths: ["config.js"], skipPush: true, cwd: root }),
+      /Refusing to commit possible secrets; the files have been unstaged:\n {2}config\.js:1/
+    );
+    assert.equal(git(root, "diff", "--cached", "--name-only"), "");
+    assert.equal(getCurrentBranch(root), "feature");
+  });
+
+  test("rejects an empty message", async () => {
+    await assert.rejects(gitStageCommitPush({ message: "  ", skipPush: true, cwd: tempProject({}, { git: "feature" }) }), /cannot be empty/);
+  });
+});
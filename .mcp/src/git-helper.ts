@@ -1,47 +1,247 @@
 import { promisify } from "node:util";
-import { exec as execCallback } from "node:child_process";
+import { execFile as execFileCallback, execFileSync, spawn } from "node:child_process";
 import { checkSSHAgent, checkGitHubSSHConnection } from "./ssh-setup.js";
+import { childStdio, deploymentLogger } from "./deployment-events.js";
+import { formatSecretFindings, scanFilesForSecrets } from "./secret-scanner.js";
 
-const exec = promisify(execCallback);
+const execFile = promisify(execFileCallback);
+const log = deploymentLogger("git");
+
+// Branches that only accept direct pushes when `force` is set
+export const PROTECTED_BRANCHES = ["main", "master"];
+
+// Files that must never end up in a commit. Example env files are meant to be shared.
+const SECRET_FILE_PATTERNS = [/(^|\/)\.env(\.|$)/, /\.pem$/, /(^|\/)id_rsa$/];
+const SHAREABLE_ENV_FILE = /(^|\/)\.env\.(example|sample|template)$/;
+
+export interface GitCommitOptions {
+  message: string;
+  // Stage only these paths instead of every change
+  paths?: string[];
+  // Let the user pick hunks with `git add --patch`
+  interactive?: boolean;
+  // Allow pushing straight to a protected branch
+  force?: boolean;
+  // Commit without pushing
+  skipPush?: boolean;
+  remote?: string;
+  cwd?: string;
+}
+
+export interface GitCommitResult {
+  branch: string;
+  files: string[];
+  committed: boolean;
+  pushed: boolean;
+  upstreamCreated: boolean;
+}
+
+export async function gitStageCommitPush(options: GitCommitOptions): Promise<GitCommitResult | undefined> {
+  const { message, paths, interactive = false, force = false, skipPush = false, remote = "origin" } = options;
+  const cwd = options.cwd ?? process.cwd();
 
-export async function gitStageCommitPush(commitMessage: string): Promise<void> {
   try {
-    // Check SSH setup first
-    const sshAgentRunning = await checkSSHAgent();
-    const githubConnected = await checkGitHubSSHConnection();
-    
-    if (!sshAgentRunning || !githubConnected) {
-      console.log("\n❌ SSH is not properly configured for GitHub.");
-      console.log("Please run the SSH setup wizard first: npm run setup-ssh\n");
-      return;
-    }
-
-    // Stage all changes
-    console.log("📦 Staging all changes...");
-    await exec("git add -A");
-    
-    // Show status
-    const { stdout: statusOutput } = await exec("git status --short");
-    if (!statusOutput.trim()) {
-      console.log("✅ No changes to commit");
-      return;
-    }
-    
-    console.log("Changes to be committed:");
-    console.log(statusOutput);
-    
+    if (!message.trim()) {
+      throw new Error("Commit message cannot be empty");
+    }
+
+    const branch = getCurrentBranch(cwd);
+    if (!branch) {
+      throw new Error("Cannot commit from a detached HEAD. Check out a branch first.");
+    }
+
+    // Refuse before touching the index so a blocked push leaves nothing half done
+    if (!skipPush && isProtectedBranch(branch) && !force) {
+      throw new Error(
+        `Refusing to push directly to protected branch '${branch}'. Use a feature branch or force the push.`
+      );
+    }
+
+    if (!skipPush) {
+      // Check SSH setup first
+      const sshAgentRunning = await checkSSHAgent();
+      const githubConnected = await checkGitHubSSHConnection();
+
+      if (!sshAgentRunning || !githubConnected) {
+        log.warning("\n❌ SSH is not properly configured for GitHub.");
+        log.info("Please run the SSH setup wizard first: npm run setup-ssh\n");
+        return;
+      }
+    }
+
+    // Stage the requested changes
+    const pathArgs = paths?.length ? ["--", ...paths] : [];
+    if (interactive) {
+      log.stepStarted("stage", "📦 Choose the hunks to stage...");
+      await runGitInteractive(["add", "--patch", ...pathArgs], cwd);
+    } else {
+      const addArgs = paths?.length ? ["add", ...pathArgs] : ["add", "-A"];
+      log.stepStarted("stage", paths?.length ? `📦 Staging ${paths.length} path(s)...` : "📦 Staging all changes...");
+      await runGit(addArgs, cwd);
+    }
+
+    const files = await listStagedFiles(cwd);
+    if (files.length === 0) {
+      log.stepFinished("stage", "✅ No changes to commit");
+      return { branch, files, committed: false, pushed: false, upstreamCreated: false };
+    }
+
+    const secretFiles = files.filter(isSecretFile);
+    if (secretFiles.length > 0) {
+      await unstage(secretFiles, cwd);
+      log.stepFinished("stage", undefined, false);
+      throw new Error(
+        `Refusing to commit files that may contain secrets: ${secretFiles.join(", ")}. ` +
+        "They have been unstaged; add them to .gitignore."
+      );
+    }
+
+    // Tokens and keys pasted into ordinary files; the staged version is what gets committed
+    const findings = await scanFilesForSecrets(cwd, files, file => readStagedFile(file, cwd));
+    if (findings.length > 0) {
+      await unstage([...new Set(findings.map(finding => finding.file))], cwd);
+      log.stepFinished("stage", undefined, false);
+      throw new Error(
+        `Refusing to commit possible secrets; the files have been unstaged:\n${formatSecretFindings(findings)}`
+      );
+    }
+
+    log.info("Changes to be committed:");
+    log.info(files.map(file => `  ${file}`).join("\n"), { files });
+    log.stepFinished("stage");
+
     // Commit
-    console.log(`\n💾 Committing with message: "${commitMessage}"`);
-    await exec(`git commit -m "${commitMessage}"`);
-    
-    // Push
-    console.log("\n🚀 Pushing to remote...");
-    const { stdout: pushOutput } = await exec("git push");
-    console.log(pushOutput);
-    
-    console.log("\n✅ Successfully staged, committed, and pushed!");
+    log.stepStarted("commit", `\n💾 Committing with message: "${message}"`);
+    await runGit(["commit", "-m", message], cwd);
+    log.stepFinished("commit");
+
+    if (skipPush) {
+      log.stepFinished("git", "\n✅ Successfully staged and committed!");
+      return { branch, files, committed: true, pushed: false, upstreamCreated: false };
+    }
+
+    // Push, creating the upstream on the first push of a branch
+    const upstreamCreated = !hasUpstream(cwd);
+    log.stepStarted("push", upstreamCreated
+      ? `\n🚀 Pushing ${branch} to ${remote} and setting upstream...`
+      : "\n🚀 Pushing to remote...");
+    const pushOutput = await runGit(upstreamCreated ? ["push", "--set-upstream", remote, branch] : ["push"], cwd);
+    if (pushOutput) log.info(pushOutput);
+    log.stepFinished("push");
+
+    log.stepFinished("git", "\n✅ Successfully staged, committed, and pushed!");
+    return { branch, files, committed: true, pushed: true, upstreamCreated };
   } catch (error) {
-    console.error("❌ Git operation failed:", error);
+    log.error("❌ Git operation failed:", error);
     throw error;
   }
 }
+
+export function isProtectedBranch(branch: string | undefined): boolean {
+  return branch !== undefined && PROTECTED_BRANCHES.includes(branch);
+}
+
+export function isSecretFile(file: string): boolean {
+  const normalized = file.replace(/\\/g, "/");
+  if (SHAREABLE_ENV_FILE.test(normalized)) return false;
+  return SECRET_FILE_PATTERNS.some(pattern => pattern.test(normalized));
+}
+
+// Paths with uncommitted changes, including untracked files
+export function listChangedFiles(cwd = process.cwd()): string[] {
+  const status = gitOutput(["status", "--porcelain", "-z", "--untracked-files=all"], cwd, false);
+  if (!status) return [];
+
+  const files: string[] = [];
+  const entries = status.split("\0");
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+    files.push(entry.substring(3));
+    // Renames and copies are followed by their original path
+    if (entry[0] === "R" || entry[0] === "C") i++;
+  }
+  return files;
+}
+
+export function getCurrentBranch(cwd = process.cwd()): string | undefined {
+  // symbolic-ref also names a branch that has no commits yet, and fails on a detached HEAD
+  return gitOutput(["symbolic-ref", "--short", "-q", "HEAD"], cwd);
+}
+
+export function getHeadCommit(cwd = process.cwd()): string | undefined {
+  return gitOutput(["rev-parse", "HEAD"], cwd);
+}
+
+export function hasUpstream(cwd = process.cwd()): boolean {
+  return gitOutput(["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{u}"], cwd) !== undefined;
+}
+
+// Helper functions
+
+// Arguments are passed straight to git without a shell, so messages and paths need no quoting
+async function runGit(args: string[], cwd: string): Promise<string> {
+  const command = ["git", ...args].join(" ");
+  try {
+    const { stdout, stderr } = await execFile("git", args, { cwd });
+    log.commandRun(command, cwd, 0);
+    return (stdout + stderr).trim();
+  } catch (error) {
+    const failure = error as { code?: number; stderr?: string };
+    log.commandRun(command, cwd, typeof failure.code === "number" ? failure.code : 1, failure.stderr);
+    throw new Error(`${command} failed: ${failure.stderr?.trim() || (error as Error).message}`);
+  }
+}
+
+function runGitInteractive(args: string[], cwd: string): Promise<void> {
+  const command = ["git", ...args].join(" ");
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, { cwd, stdio: childStdio() });
+    child.on("close", code => {
+      log.commandRun(command, cwd, code ?? undefined);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} failed with code ${code}`));
+      }
+    });
+    child.on("error", reject);
+  });
+}
+
+async function listStagedFiles(cwd: string): Promise<string[]> {
+  const output = await runGit(["diff", "--cached", "--name-only", "-z"], cwd);
+  return output.split("\0").filter(Boolean);
+}
+
+async function unstage(files: string[], cwd: string): Promise<void> {
+  try {
+    await runGit(["reset", "-q", "--", ...files], cwd);
+  } catch {
+    // No commits yet, so there is no HEAD to reset to
+    await runGit(["rm", "--cached", "-q", "--", ...files], cwd);
+  }
+}
+
+async function readStagedFile(file: string, cwd: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFile("git", ["show", `:${file}`], { cwd, maxBuffer: 10 * 1024 * 1024 });
+    return stdout;
+  } catch {
+    // Deleted in the index, or too large to be worth scanning
+    return undefined;
+  }
+}
+
+function gitOutput(args: string[], cwd: string, trim = true): string | undefined {
+  try {
+    const output = execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"]
+    });
+    return (trim ? output.trim() : output) || undefined;
+  } catch {
+    return undefined;
+  }
+}
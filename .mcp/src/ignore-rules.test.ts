@@ -0,0 +1,50 @@
+// ignore-rules.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { isIgnored, parseIgnoreRules } from "./ignore-rules.js";
+
+// The paths among the candidates the rules ignore; a trailing "/" marks a directory
+function ignoredBy(content: string, candidates: string[], base = ""): string[] {
+  const rules = parseIgnoreRules(content, base);
+  return candidates.filter(candidate => isIgnored(rules, candidate.replace(/\/$/, ""), candidate.endsWith("/")));
+}
+
+describe("parseIgnoreRules", () => {
+  test("skips comments and blank lines and keeps escaped # and !", () => {
+    const rules = parseIgnoreRules("# comment\n\n\\#notes\n\\!important  \n");
+
+    assert.deepEqual(rules.map(rule => [rule.pattern, rule.negated]), [["\\#notes", false], ["\\!important", false]]);
+    assert.deepEqual(ignoredBy("\\#notes\n\\!important", ["#notes", "!important", "notes"]), ["#notes", "!important"]);
+  });
+});
+
+describe("isIgnored", () => {
+  test("matches a pattern without a slash at any depth", () => {
+    assert.deepEqual(ignoredBy("*.log", ["error.log", "a/b/debug.log", "log.txt"]), ["error.log", "a/b/debug.log"]);
+  });
+
+  test("anchors patterns with a slash to the ignore file's directory", () => {
+    assert.deepEqual(ignoredBy("/build\ndocs/*.md", ["build/", "src/build/", "docs/a.md", "docs/sub/a.md", "x/docs/a.md"]), ["build/", "docs/a.md"]);
+  });
+
+  test("matches only directories with a trailing slash, and everything inside them", () => {
+    assert.deepEqual(ignoredBy("tmp/", ["tmp/", "tmp", "src/tmp/", "tmp/cache/file.txt"]), ["tmp/", "src/tmp/", "tmp/cache/file.txt"]);
+  });
+
+  test("supports **, ? and character classes", () => {
+    assert.deepEqual(ignoredBy("**/cache", ["cache/", "a/b/cache/", "cached"]), ["cache/", "a/b/cache/"]);
+    assert.deepEqual(ignoredBy("a/**/b", ["a/b", "a/x/y/b", "c/a/b"]), ["a/b", "a/x/y/b"]);
+    assert.deepEqual(ignoredBy("out/**", ["out/", "out/x/y.js"]), ["out/x/y.js"]);
+    assert.deepEqual(ignoredBy("file?.txt", ["file1.txt", "file10.txt"]), ["file1.txt"]);
+    assert.deepEqual(ignoredBy("[!a]bc", ["xbc", "abc"]), ["xbc"]);
+  });
+
+  test("lets a later ! re-include a file, but not one inside an ignored directory", () => {
+    assert.deepEqual(ignoredBy("*.log\n!keep.log", ["a.log", "keep.log"]), ["a.log"]);
+    assert.deepEqual(ignoredBy("logs/\n!logs/keep.log", ["logs/keep.log", "logs/a.log"]), ["logs/keep.log", "logs/a.log"]);
+  });
+
+  test("applies rules from a nested ignore file only below its directory", () => {
+    assert.deepEqual(ignoredBy("dist/", ["dist/", "packages/web/dist/", "packages/api/dist/"], "packages/web"), ["packages/web/dist/"]);
+  });
+});
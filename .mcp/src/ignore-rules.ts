@@ -0,0 +1,140 @@
+// ignore-rules.ts
+import { readFileSync } from "node:fs";
+
+export interface IgnoreRule {
+  pattern: string;
+  negated: boolean;
+  // A trailing "/" only matches directories
+  directoryOnly: boolean;
+  // Directory of the ignore file, relative to the scan root ("" for the root)
+  base: string;
+  regex: RegExp;
+}
+
+/**
+ * Parses .gitignore syntax, which .vercelignore shares: comments, "!" to
+ * re-include, "/" to anchor or mark directories, and "*", "?", "**" and
+ * character classes.
+ */
+export function parseIgnoreRules(content: string, base = ""): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    const negated = line.startsWith("!");
+    if (negated) line = line.slice(1);
+    if (line.startsWith("\\#") || line.startsWith("\\!")) line = line.slice(1);
+
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.slice(1);
+
+    const source = globToRegExp(line);
+    rules.push({
+      pattern: rawLine.trim(),
+      negated,
+      directoryOnly,
+      base,
+      regex: new RegExp(anchored ? `^${source}$` : `(^|/)${source}$`)
+    });
+  }
+
+  return rules;
+}
+
+export function loadIgnoreRules(filePath: string, base = ""): IgnoreRule[] {
+  try {
+    return parseIgnoreRules(readFileSync(filePath, "utf-8"), base);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether a path relative to the scan root is ignored. Like git, a file inside
+ * an ignored directory stays ignored even if a later rule re-includes it.
+ */
+export function isIgnored(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  const segments = relativePath.split("/").filter(Boolean);
+  for (let index = 1; index < segments.length; index++) {
+    if (matches(rules, segments.slice(0, index).join("/"), true)) return true;
+  }
+  return matches(rules, segments.join("/"), isDirectory);
+}
+
+// Helper functions
+
+// The last matching rule wins, so a later "!" re-includes an earlier match
+function matches(rules: IgnoreRule[], path: string, isDirectory: boolean): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+
+    let candidate = path;
+    if (rule.base) {
+      if (!path.startsWith(`${rule.base}/`)) continue;
+      candidate = path.slice(rule.base.length + 1);
+    }
+
+    if (rule.regex.test(candidate)) ignored = !rule.negated;
+  }
+
+  return ignored;
+}
+
+function globToRegExp(glob: string): string {
+  let source = "";
+
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+
+    if (char === "*" && glob[index + 1] === "*") {
+      const atStart = index === 0;
+      const followedBySlash = glob[index + 2] === "/";
+      const atEnd = index + 2 === glob.length;
+      if ((atStart || glob[index - 1] === "/") && followedBySlash) {
+        // "**/" matches zero or more directories
+        source += "(?:.*/)?";
+        index += 2;
+      } else if (atEnd && glob[index - 1] === "/") {
+        // "dir/**" matches everything inside dir
+        source += ".*";
+        index += 1;
+      } else {
+        source += "[^/]*";
+        index += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", index + 2);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = glob.slice(index + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        index = end;
+      }
+    } else if (char === "\\" && index + 1 < glob.length) {
+      source += escapeRegExp(glob[++index]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
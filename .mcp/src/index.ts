@@ -3,12 +3,28 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import { analyzeCode, formatAnalysisReport } from './code-analysis.js';
+import { formatGeneratedTests, generateTests } from './test-generation.js';
+import { analyzePerformance, formatPerformanceReport } from './performance-analysis.js';
+import {
+  analyzeDeploymentReadiness,
+  formatDeploymentReadiness,
+  formatProjectContext,
+  generateDeploymentGuide,
+  projectContextScan,
+} from './project-context.js';
+import { getWorkspaceRoots, resolveWorkspacePath } from './path-helper.js';
+import { WorkspaceResourceProvider } from './workspace-resources.js';
+import { formatCommitMessageDraft, generateCommitMessage } from './commit-message.js';
 
 // AI-Guided SaaS MCP Server Implementation
 class AIGuidedSaaSMCPServer extends Server {
+  readonly workspaceResources: WorkspaceResourceProvider;
+
   constructor() {
     super(
       { 
@@ -19,50 +35,107 @@ class AIGuidedSaaSMCPServer extends Server {
       {
         capabilities: {
           tools: {},
-          resources: {},
+          resources: { listChanged: true },
         },
       }
     );
 
+    // Resources for the primary workspace root; refreshed when its files change
+    this.workspaceResources = new WorkspaceResourceProvider(getWorkspaceRoots()[0], () => {
+      this.sendResourceListChanged().catch((error) => {
+        console.error('Failed to send resource list change:', error);
+      });
+    });
+
     // Handle tool listing
     this.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: 'analyze-code',
-          description: 'Analyze code quality and provide improvement suggestions',
+          description: 'Statically analyze code for complexity, unused variables, any usage, long functions and deep nesting',
           inputSchema: {
             type: 'object',
             properties: {
               code: { type: 'string', description: 'Code to analyze' },
-              language: { type: 'string', description: 'Programming language' },
+              language: { type: 'string', description: 'Programming language (typescript, javascript, tsx, jsx)' },
+              complexityThreshold: { type: 'number', description: 'Cyclomatic complexity above which a function is reported (default 10)' },
+              maxFunctionLines: { type: 'number', description: 'Function length in lines above which it is reported (default 50)' },
+              maxNestingDepth: { type: 'number', description: 'Block nesting depth above which it is reported (default 4)' },
             },
             required: ['code', 'language'],
           },
         },
         {
           name: 'generate-tests',
-          description: 'Generate unit tests for provided code',
+          description: 'Generate a test file covering every exported function and class method in the provided code',
           inputSchema: {
             type: 'object',
             properties: {
               code: { type: 'string', description: 'Code to generate tests for' },
-              framework: { type: 'string', description: 'Testing framework (jest, mocha, etc.)' },
+              framework: { type: 'string', description: 'Testing framework (jest, vitest, mocha, node:test)' },
+              language: { type: 'string', description: 'Language of the code (typescript or javascript, default typescript)' },
+              modulePath: { type: 'string', description: 'Import path of the module under test, relative to the test file (default ./module)' },
             },
             required: ['code'],
           },
         },
         {
           name: 'optimize-performance',
-          description: 'Analyze and suggest performance optimizations',
+          description: 'Find performance hotspots (nested loops, lookups in loops, repeated JSON.parse, sync I/O in async code, awaits in loops)',
           inputSchema: {
             type: 'object',
             properties: {
               code: { type: 'string', description: 'Code to optimize' },
-              metrics: { type: 'array', items: { type: 'string' }, description: 'Specific metrics to focus on' },
+              language: { type: 'string', description: 'Programming language (typescript, javascript, tsx, jsx; default typescript)' },
+              metrics: { type: 'array', items: { type: 'string' }, description: 'Categories to report: cpu, memory, io (default all)' },
             },
             required: ['code'],
           },
         },
+        {
+          name: 'scan-project',
+          description: 'Scan a project in the workspace and return its detected framework, technologies and file structure',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              root: { type: 'string', description: 'Project root, absolute or relative to the workspace (default .)' },
+              maxDepth: { type: 'number', description: 'Maximum directory depth to scan (default 5)' },
+            },
+          },
+        },
+        {
+          name: 'check-deploy-readiness',
+          description: 'Check whether a project in the workspace is ready to deploy and list blocking issues and warnings, including environment variables the code reads but the deployment lacks',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              root: { type: 'string', description: 'Project root, absolute or relative to the workspace (default .)' },
+              target: { type: 'string', description: 'Deployment target the environment is checked for (default production)' },
+            },
+          },
+        },
+        {
+          name: 'draft-commit-message',
+          description: 'Propose a Conventional Commits message from the staged diff (or unstaged changes when nothing is staged), grouped by directory and kind',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              root: { type: 'string', description: 'Repository root, absolute or relative to the workspace (default .)' },
+              paths: { type: 'array', items: { type: 'string' }, description: 'Only describe changes to these paths' },
+            },
+          },
+        },
+        {
+          name: 'deployment-guide',
+          description: 'Generate a markdown deployment guide tailored to a project in the workspace',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              root: { type: 'string', description: 'Project root, absolute or relative to the workspace (default .)' },
+              target: { type: 'string', description: 'preview, production or a custom Vercel environment (default: as aigs deploy would pick from the branch)' },
+            },
+          },
+        },
       ],
     }));
 
@@ -71,36 +144,109 @@ class AIGuidedSaaSMCPServer extends Server {
       const { name, arguments: args } = request.params;
 
       switch (name) {
-        case 'analyze-code':
+        case 'analyze-code': {
+          const result = analyzeCode(String(args?.code ?? ''), String(args?.language ?? 'unknown'), {
+            complexityThreshold: args?.complexityThreshold as number | undefined,
+            maxFunctionLines: args?.maxFunctionLines as number | undefined,
+            maxNestingDepth: args?.maxNestingDepth as number | undefined,
+          });
           return {
             content: [
               {
                 type: 'text',
-                text: `Analyzing ${args?.language || 'unknown'} code...\n\nCode Quality Report:\n- Structure: Good\n- Readability: Excellent\n- Suggestions: Consider adding type annotations`,
+                text: formatAnalysisReport(result),
               },
+              jsonContent('saas://analysis/code', result),
             ],
           };
+        }
 
-        case 'generate-tests':
-          const framework = args?.framework || 'jest';
+        case 'generate-tests': {
+          const file = generateTests(String(args?.code ?? ''), {
+            framework: args?.framework as string | undefined,
+            language: args?.language as string | undefined,
+            modulePath: args?.modulePath as string | undefined,
+          });
           return {
             content: [
               {
                 type: 'text',
-                text: `Generated ${framework} tests:\n\`\`\`javascript\ndescribe('YourFunction', () => {\n  it('should work correctly', () => {\n    expect(yourFunction()).toBe(expected);\n  });\n});\n\`\`\``,
+                text: formatGeneratedTests(file),
               },
+              jsonContent('saas://tests/generated', file),
             ],
           };
+        }
 
-        case 'optimize-performance':
+        case 'optimize-performance': {
+          const metrics = Array.isArray(args?.metrics) ? args.metrics.map(String) : [];
+          const report = analyzePerformance(String(args?.code ?? ''), String(args?.language ?? 'typescript'), metrics);
           return {
             content: [
               {
                 type: 'text',
-                text: `Performance Analysis:\n- Current complexity: O(n²)\n- Suggested optimization: Use Map for O(1) lookups\n- Potential improvement: 70% faster execution`,
+                text: formatPerformanceReport(report),
               },
+              jsonContent('saas://analysis/performance', report),
             ],
           };
+        }
+
+        case 'scan-project': {
+          const root = resolveWorkspacePath(args?.root as string | undefined);
+          const context = await projectContextScan(root, { maxDepth: args?.maxDepth as number | undefined });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Project Context (${root}):\n${formatProjectContext(context)}`,
+              },
+              jsonContent('saas://project/context', context),
+            ],
+          };
+        }
+
+        case 'check-deploy-readiness': {
+          const root = resolveWorkspacePath(args?.root as string | undefined);
+          const readiness = await analyzeDeploymentReadiness(root, args?.target as string | undefined);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatDeploymentReadiness(readiness),
+              },
+              jsonContent('saas://project/readiness', readiness),
+            ],
+          };
+        }
+
+        case 'deployment-guide': {
+          const root = resolveWorkspacePath(args?.root as string | undefined);
+          const context = await projectContextScan(root);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: generateDeploymentGuide(context, root, args?.target as string | undefined),
+              },
+            ],
+          };
+        }
+
+        case 'draft-commit-message': {
+          const root = resolveWorkspacePath(args?.root as string | undefined);
+          const paths = Array.isArray(args?.paths) ? args.paths.map(String) : undefined;
+          const draft = generateCommitMessage(root, paths);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatCommitMessageDraft(draft),
+              },
+              jsonContent('saas://git/commit-message', draft ?? null),
+            ],
+          };
+        }
 
         default:
           throw new Error(`Unknown tool: ${name}`);
@@ -122,9 +268,14 @@ class AIGuidedSaaSMCPServer extends Server {
           description: 'Ready-to-use API endpoint templates',
           mimeType: 'application/json',
         },
+        ...(await this.workspaceResources.listResources()),
       ],
     }));
 
+    this.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.workspaceResources.listResourceTemplates(),
+    }));
+
     // Handle resource reading
     this.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
@@ -157,22 +308,43 @@ class AIGuidedSaaSMCPServer extends Server {
             ],
           };
 
-        default:
-          throw new Error(`Unknown resource: ${uri}`);
+        default: {
+          const contents = await this.workspaceResources.readResource(uri);
+          if (!contents) {
+            throw new Error(`Unknown resource: ${uri}`);
+          }
+          return { contents: [contents] };
+        }
       }
     });
   }
 }
 
+// Structured results are returned as embedded JSON resources so agents can parse them
+function jsonContent(uri: string, data: unknown) {
+  return {
+    type: 'resource' as const,
+    resource: {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(data, null, 2),
+    },
+  };
+}
+
 // Initialize and start the server
 const server = new AIGuidedSaaSMCPServer();
 const transport = new StdioServerTransport();
 
-server.connect(transport).catch((error) => {
+server.connect(transport).then(() => {
+  server.workspaceResources.start();
+}).catch((error) => {
   console.error('Failed to start AI-Guided SaaS MCP server:', error);
   process.exit(1);
 });
 
-console.log('🚀 AI-Guided SaaS MCP Server is running');
-console.log('Available tools: analyze-code, generate-tests, optimize-performance');
-console.log('Available resources: saas://docs/best-practices, saas://templates/api');
\ No newline at end of file
+// stdout carries the MCP protocol, so status messages go to stderr
+console.error('🚀 AI-Guided SaaS MCP Server is running');
+console.error('Available tools: analyze-code, generate-tests, optimize-performance, scan-project, check-deploy-readiness, draft-commit-message, deployment-guide');
+console.error('Available resources: saas://docs/best-practices, saas://templates/api, saas://project/structure, saas://project/package, saas://project/deployments, saas://project/file/{path}');
+console.error(`Workspace roots: ${getWorkspaceRoots().join(', ')}`);
\ No newline at end of file
@@ -0,0 +1,126 @@
+// interaction.ts
+import { loadProjectConfig, PROJECT_CONFIG_FILE, type DeployDefaults } from "./project-config.js";
+
+/**
+ * Exit codes of the deploy CLI, stable for CI scripts:
+ *   0 - deployed (or planned) successfully
+ *   1 - any other error, e.g. git or an invalid config file
+ *   2 - non-interactive mode needed an input nothing provided, or a flag was unknown or had no value
+ *   3 - pre-flight checks failed and were not fixed
+ *   4 - install or quality gates (build, type-check, tests) failed
+ *   5 - the Vercel deployment failed
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  missingInput: 2,
+  preflight: 3,
+  build: 4,
+  deploy: 5
+} as const;
+
+export type DeploymentStage = "preflight" | "build" | "deploy";
+
+export interface InteractionOptions {
+  // Set by --yes/--ci; detected from CI, DEPLOY_NON_INTERACTIVE and the terminal when unset
+  nonInteractive?: boolean;
+}
+
+// Raised instead of prompting when no flag, environment variable or config value answers the question
+export class MissingInputError extends Error {
+  readonly exitCode = EXIT_CODES.missingInput;
+
+  constructor(readonly input: string, sources: string) {
+    super(`Cannot ask for ${input} in non-interactive mode. Provide it with ${sources}.`);
+    this.name = "MissingInputError";
+  }
+}
+
+// Raised for a flag the command does not know or one that is missing its value
+export class UsageError extends Error {
+  readonly exitCode = EXIT_CODES.missingInput;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+// Tags a failure with the stage it happened in, which decides the exit code
+export class DeploymentStageError extends Error {
+  readonly exitCode: number;
+
+  constructor(readonly stage: DeploymentStage, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "DeploymentStageError";
+    this.exitCode = EXIT_CODES[stage];
+  }
+}
+
+const DEPLOY_ENV = {
+  target: "DEPLOY_TARGET",
+  projectType: "DEPLOY_PROJECT_TYPE",
+  packages: "DEPLOY_PACKAGES",
+  commitMessage: "DEPLOY_COMMIT_MESSAGE"
+} as const;
+
+let forced: boolean | undefined;
+
+export function configureInteraction(options: InteractionOptions): void {
+  forced = options.nonInteractive;
+}
+
+export function isNonInteractive(): boolean {
+  if (forced !== undefined) return forced;
+  return isSet(process.env.DEPLOY_NON_INTERACTIVE) || isSet(process.env.CI) || !process.stdin.isTTY;
+}
+
+// --yes and --ci both switch prompts off
+export function interactionFromArgs(args: string[]): InteractionOptions {
+  return args.includes("--yes") || args.includes("--ci") || args.includes("-y") ? { nonInteractive: true } : {};
+}
+
+/**
+ * Deployment inputs from the environment and the "deploy" section of
+ * .mcp/config.json; environment variables win. Flags are applied by callers.
+ */
+export function deployInputs(projectRoot = process.cwd()): DeployDefaults {
+  const defaults = loadProjectConfig(projectRoot).deploy ?? {};
+  const env = process.env;
+  const packages = env[DEPLOY_ENV.packages]?.split(",").map(name => name.trim()).filter(Boolean);
+  const projectType = env[DEPLOY_ENV.projectType];
+  if (projectType && !["frontend", "backend", "fullstack"].includes(projectType)) {
+    throw new Error(`Invalid ${DEPLOY_ENV.projectType}: ${projectType}. Use frontend, backend or fullstack`);
+  }
+
+  return {
+    target: env[DEPLOY_ENV.target] || defaults.target,
+    projectType: (projectType as DeployDefaults["projectType"]) || defaults.projectType,
+    packages: packages?.length ? packages : defaults.packages,
+    commitMessage: env[DEPLOY_ENV.commitMessage] || defaults.commitMessage
+  };
+}
+
+// Where a deploy input can come from, for MissingInputError messages
+export function deployInputSources(input: keyof DeployDefaults, flag?: string): string {
+  const sources = [flag, DEPLOY_ENV[input], `"deploy.${input}" in ${PROJECT_CONFIG_FILE}`].filter(Boolean);
+  return `${sources.slice(0, -1).join(", ")} or ${sources[sources.length - 1]}`;
+}
+
+// The answer to use instead of a prompt; throws when there is none
+export function requireInput<T>(value: T | undefined, input: string, sources: string): T {
+  if (value === undefined || value === null || value === "") {
+    throw new MissingInputError(input, sources);
+  }
+  return value;
+}
+
+// Whether an environment flag such as CI=true is on; "", "0" and "false" count as off
+export function isSet(value: string | undefined): boolean {
+  return value !== undefined && value !== "" && value !== "0" && value.toLowerCase() !== "false";
+}
+
+export function exitCodeFor(error: unknown): number {
+  const code = (error as { exitCode?: unknown } | undefined)?.exitCode;
+  return typeof code === "number" ? code : EXIT_CODES.failure;
+}
@@ -3,13 +3,18 @@ import inquirer from "inquirer";
 import chalk from "chalk";
 import path from "path";
 import fs from "fs";
-import { execSync, spawnSync } from "child_process";
-import { gitStageCommitPush } from "./git-helper.js";
+import { execSync } from "child_process";
+import { gitStageCommitPush, getCurrentBranch, isProtectedBranch, listChangedFiles } from "./git-helper.js";
 import { projectContextScan } from "./project-context.js";
 import { runSystemCheck } from "./system-check.js";
 import { mcpPipelineInitOrUpdate } from "./mcp-pipeline.js";
 import { runDeploymentOrchestrator } from "./deployment-orchestrator.js";
 import { sshSetupWizard } from "./ssh-setup.js";
+import { rollbackWizard } from "./deployment-history.js";
+import { undoLastFix } from "./deploy-fixes.js";
+import { isNonInteractive, MissingInputError } from "./interaction.js";
+import { promptForCommitMessage } from "./commit-message.js";
+import { resolveDeploymentTarget, vercelDeploy, type DeploymentTarget } from "./vercel-helper.js";
 import { readFileSync } from "fs";
 import { join } from "path";
 
@@ -86,13 +91,10 @@ function ensureSSHAgent() {
   }
 }
 
-function runGitAll(commitMsg: string) {
+async function runGitAll(commitMsg: string) {
   ensureSSHAgent();
   try {
-    execSync("git add -A", { cwd: PROJECT_ROOT, stdio: "inherit" });
-    execSync("git status --short", { cwd: PROJECT_ROOT, stdio: "inherit" });
-    execSync(`git commit -m "${commitMsg}"`, { cwd: PROJECT_ROOT, stdio: "inherit" });
-    execSync("git push", { cwd: PROJECT_ROOT, stdio: "inherit" });
+    await gitStageCommitPush({ message: commitMsg, cwd: PROJECT_ROOT, force: await confirmProtectedPush() });
     safePrint("✔️ All changes pushed successfully.");
   } catch (err) {
     safePrint("❌ Git operation failed. Please check the SSH agent or verify remote settings.");
@@ -100,17 +102,59 @@ function runGitAll(commitMsg: string) {
   }
 }
 
-function vercelDeploy() {
-  const deploy = spawnSync("vercel", ["--prod"], { stdio: "inherit" });
-  if (deploy.status !== 0) {
-    safePrint("❌ Vercel deploy failed. Double-check login or token.");
-    throw new Error("Vercel deploy error");
-  }
-  safePrint("🌍 Site deploy triggered on Vercel!");
+// Direct pushes to main/master are blocked unless the user explicitly agrees
+async function confirmProtectedPush(): Promise<boolean> {
+  const branch = getCurrentBranch(PROJECT_ROOT);
+  if (!isProtectedBranch(branch)) return false;
+
+  const { force } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "force",
+      message: `You are on ${branch}. Push directly to it?`,
+      default: false
+    }
+  ]);
+  return force;
+}
+
+async function promptForDeploymentTarget(): Promise<DeploymentTarget> {
+  const branch = getCurrentBranch(PROJECT_ROOT);
+  const suggested = resolveDeploymentTarget(undefined, PROJECT_ROOT);
+
+  const { target } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "target",
+      message: `Deploy to which environment?${branch ? ` (current branch: ${branch})` : ""}`,
+      default: suggested,
+      choices: [
+        { name: "🔍 Preview", value: "preview" },
+        { name: "🌍 Production", value: "production" },
+        { name: "🏷️  Custom environment...", value: "custom" }
+      ]
+    }
+  ]);
+
+  if (target !== "custom") return target;
+
+  const { customTarget } = await inquirer.prompt([
+    {
+      type: "input",
+      name: "customTarget",
+      message: "Enter the Vercel environment name:",
+      validate: (input) => /^[A-Za-z0-9][\w.-]*$/.test(input) || "Use letters, numbers, '.', '_' or '-'"
+    }
+  ]);
+  return customTarget;
 }
 
 // Enhanced main menu combining both versions
 export async function mcpHelperMenu() {
+  // The menu is nothing but prompts; the aigs subcommands cover the same tasks without them
+  if (isNonInteractive()) {
+    throw new MissingInputError("a menu choice", "an aigs subcommand (e.g. `aigs deploy --ci`, see `aigs --help`) instead of the menu");
+  }
   console.clear();
   console.log(banner);
   
@@ -122,6 +166,8 @@ export async function mcpHelperMenu() {
       choices: [
         { name: "🚀 Deploy to Vercel (AI-Guided)", value: "deploy" },
         { name: "📦 Quick Deploy (Legacy Mode)", value: "quickdeploy" },
+        { name: "⏪ Rollback a Deployment", value: "rollback" },
+        { name: "↩️  Undo Last Auto-Fix", value: "undofix" },
         { name: "🔧 Setup SSH for GitHub", value: "ssh" },
         { name: "📦 Initialize/Update MCP Pipeline", value: "mcp" },
         { name: "🔍 Analyze Project Context", value: "context" },
@@ -141,6 +187,12 @@ export async function mcpHelperMenu() {
     case "quickdeploy":
       await quickDeployMenu();
       break;
+    case "rollback":
+      await rollbackWizard(PROJECT_ROOT);
+      break;
+    case "undofix":
+      await undoLastFix(PROJECT_ROOT);
+      break;
     case "ssh":
       await sshSetupWizard();
       break;
@@ -225,8 +277,13 @@ async function deploymentMenu() {
     }
   }
 
+  const target = await promptForDeploymentTarget();
+
   try {
-    await runDeploymentOrchestrator(deployType);
+    const result = await runDeploymentOrchestrator(deployType, undefined, { target });
+    if (result.url) {
+      console.log(chalk.green(`\n🔗 ${result.target} deployment: ${result.url}`));
+    }
   } catch (error) {
     console.error(chalk.red("❌ Deployment failed:"), error);
     
@@ -260,14 +317,9 @@ async function quickDeployMenu() {
       if (fix.move) moveMisplacedFiles(misplaced);
       else return;
     }
-    const { msg } = await inquirer.prompt({
-      name: "msg",
-      type: "input",
-      message: "Enter a commit message:",
-      default: "Update via MCP Helper"
-    });
-    runGitAll(msg);
-    vercelDeploy();
+    const msg = await promptForCommitMessage({ cwd: PROJECT_ROOT, fallback: "Update via MCP Helper" });
+    await runGitAll(msg!);
+    await vercelDeploy({ target: await promptForDeploymentTarget(), cwd: PROJECT_ROOT });
     safePrint("🎉 Done! Your changes are live.");
   } catch (e) {
     safePrint("🛑 An error occurred: " + (e instanceof Error ? e.message : String(e)));
@@ -336,7 +388,6 @@ async function projectContextMenu() {
 
   try {
     const options = {
-      includeNodeModules: scanType === "full",
       maxDepth: scanType === "quick" ? 3 : 10,
       includeContent: scanType !== "structure"
     };
@@ -390,18 +441,47 @@ async function systemCheckMenu() {
 async function gitMenu() {
   console.log(chalk.cyan("\n📤 Git Operations\n"));
   
-  const { commitMessage } = await inquirer.prompt([
+  const { staging } = await inquirer.prompt([
     {
-      type: "input",
-      name: "commitMessage",
-      message: "Enter commit message:",
-      default: "Update: Work in progress",
-      validate: (input) => input.length > 0 || "Commit message cannot be empty"
+      type: "list",
+      name: "staging",
+      message: "What should be committed?",
+      choices: [
+        { name: "📦 All changes", value: "all" },
+        { name: "📝 Select files", value: "paths" },
+        { name: "✂️  Choose hunks interactively", value: "interactive" }
+      ]
     }
   ]);
 
+  let paths: string[] | undefined;
+  if (staging === "paths") {
+    const changed = listChangedFiles(PROJECT_ROOT);
+    if (changed.length === 0) {
+      console.log(chalk.green("✅ No changes to commit"));
+      return;
+    }
+    ({ paths } = await inquirer.prompt([
+      {
+        type: "checkbox",
+        name: "paths",
+        message: "Select files to stage:",
+        choices: changed,
+        validate: (selected) => selected.length > 0 || "Select at least one file"
+      }
+    ]));
+  }
+
+  const commitMessage = await promptForCommitMessage({ cwd: PROJECT_ROOT, paths, fallback: "Update: Work in progress" });
+
   try {
-    await gitStageCommitPush(commitMessage);
+    await gitStageCommitPush({
+      message: commitMessage!,
+      paths,
+      interactive: staging === "interactive",
+      cwd: PROJECT_ROOT,
+      force: await confirmProtectedPush()
+    });
   } catch (error) {
     console.error(chalk.red("❌ Git operation failed:"), error);
     
@@ -1,71 +1,78 @@
 import { scanForOrphanedFiles } from "./path-helper.js";
-import { gitStageCommitPush } from "./git-helper.js";
-import { deployToVercelWithFixes, triggerVercelProdAndStreamLogs } from "./vercel-helper.js";
-import chalk from "chalk";
+import { gitStageCommitPush, type GitCommitOptions } from "./git-helper.js";
+import { deployToVercelWithFixes, triggerVercelProdAndStreamLogs, type DeploymentTarget } from "./vercel-helper.js";
+import { deploymentLogger } from "./deployment-events.js";
+
+const log = deploymentLogger("pipeline");
 
 export async function mcpPipelineInitOrUpdate() {
-  console.log(chalk.cyan("🔧 Initializing/Updating MCP Pipeline..."));
+  log.stepStarted("pipeline", "🔧 Initializing/Updating MCP Pipeline...");
   
   // Scan for any orphaned files
   const orphaned = await scanForOrphanedFiles();
   if (orphaned.length > 0) {
-    console.log(chalk.yellow(`⚠️  Found ${orphaned.length} orphaned files. Consider moving them into the project.`));
+    log.warning(`⚠️  Found ${orphaned.length} orphaned files. Consider moving them into the project.`);
   }
   
   // Stage, commit, push
-  await gitStageCommitPush("Update MCP configuration");
+  await gitStageCommitPush({ message: "Update MCP configuration" });
   
   // Deploy to Vercel with automatic fixes if needed
   await deployToVercelWithFixes();
   
-  console.log(chalk.green("✅ MCP Pipeline complete!"));
+  log.stepFinished("pipeline", "✅ MCP Pipeline complete!");
 }
 
-export async function runMCPDeploy(commitMessage: string = "Deploy via MCP") {
+export async function runMCPDeploy(
+  commitMessage: string = "Deploy via MCP",
+  target?: DeploymentTarget,
+  gitOptions: Omit<GitCommitOptions, "message"> = {}
+): Promise<string | undefined> {
   try {
-    console.log(chalk.blue("🚀 Starting MCP deployment pipeline..."));
+    log.stepStarted("pipeline", "🚀 Starting MCP deployment pipeline...");
     
     // Check for orphaned files first
     const orphaned = await scanForOrphanedFiles();
     if (orphaned.length > 0) {
-      console.log(chalk.yellow(`⚠️  Found ${orphaned.length} orphaned files outside the project root:`));
-      orphaned.forEach(file => console.log(`   - ${file}`));
-      console.log("\nConsider moving these files into your project before deploying.\n");
+      log.warning(`⚠️  Found ${orphaned.length} orphaned files outside the project root:`);
+      log.info(orphaned.map(file => `   - ${file}`).join("\n"), { orphaned });
+      log.info("\nConsider moving these files into your project before deploying.\n");
     }
     
     // Git operations
-    await gitStageCommitPush(commitMessage);
+    await gitStageCommitPush({ ...gitOptions, message: commitMessage });
     
     // Deploy to Vercel with automatic fixes if needed
-    await deployToVercelWithFixes();
+    const url = await deployToVercelWithFixes({ target });
     
-    console.log(chalk.green("🎉 Deployment complete!"));
+    log.stepFinished("pipeline", "🎉 Deployment complete!");
+    return url;
   } catch (error) {
-    console.error(chalk.red("❌ Deployment failed:"), error);
+    log.stepFinished("pipeline", undefined, false);
+    log.error("❌ Deployment failed:", error);
     if ((error as any).message?.includes("SSH")) {
-      console.log(chalk.yellow("\n💡 Tip: Make sure your SSH agent is running and GitHub SSH key is added."));
-      console.log(chalk.white("   Run: eval \"$(ssh-agent -s)\" && ssh-add ~/.ssh/id_rsa"));
+      log.warning("\n💡 Tip: Make sure your SSH agent is running and GitHub SSH key is added.");
+      log.info("   Run: eval \"$(ssh-agent -s)\" && ssh-add ~/.ssh/id_rsa");
     }
     throw error;
   }
 }
 
 // Legacy function for backward compatibility
-export function runMCPDeployLegacy(commitMsg: string) {
+export async function runMCPDeployLegacy(commitMsg: string): Promise<void> {
   const root = process.cwd();
-  console.log("🚀 Starting MCP deployment pipeline...");
+  log.stepStarted("pipeline", "🚀 Starting MCP deployment pipeline...");
   
-  // Use legacy synchronous version
   try {
     // Simple orphaned file check
-    console.log("🔍 Scanning for orphaned files...");
+    log.info("🔍 Scanning for orphaned files...");
     
     // Use the legacy vercel deployment
-    triggerVercelProdAndStreamLogs();
+    await triggerVercelProdAndStreamLogs(undefined, root);
     
-    console.log("✅ MCP deployment pipeline completed.");
+    log.stepFinished("pipeline", "✅ MCP deployment pipeline completed.");
   } catch (error) {
-    console.error("❌ Deployment failed:", error);
+    log.error("❌ Deployment failed:", error);
     throw error;
   }
 }
\ No newline at end of file
@@ -0,0 +1,367 @@
+// network-probes.ts
+import { lookup } from "node:dns/promises";
+import { connect as netConnect, isIP, type Socket } from "node:net";
+import { connect as tlsConnect, type TLSSocket } from "node:tls";
+import { performance } from "node:perf_hooks";
+
+/**
+ * Connectivity probes that work where ICMP is blocked: a DNS lookup, TCP
+ * connects and an HTTPS HEAD request, each timed. HTTPS goes through
+ * HTTPS_PROXY (with a CONNECT tunnel) unless NO_PROXY matches the host.
+ */
+
+export interface NetworkEndpoint {
+  name: string;
+  host: string;
+  // TCP ports to connect to (default 443)
+  ports?: number[];
+  // Target of the HEAD request (default https://<host>/); false skips it
+  url?: string | false;
+  required?: boolean;
+}
+
+// The "network" section of .mcp/config.json
+export interface NetworkConfig {
+  // Replaces the default endpoints
+  endpoints?: NetworkEndpoint[];
+  // Report failures as warnings, e.g. on a plane or in an air-gapped build
+  offline?: boolean;
+  timeoutMs?: number;
+}
+
+export type ProbeKind = "dns" | "tcp" | "https";
+
+export interface ProbeResult {
+  kind: ProbeKind;
+  // host, host:port or the URL
+  target: string;
+  ok: boolean;
+  latencyMs: number;
+  // Set when the probe went through a proxy (credentials removed)
+  via?: string;
+  // HTTP status of the HEAD request
+  status?: number;
+  error?: string;
+}
+
+export interface EndpointProbe {
+  endpoint: NetworkEndpoint;
+  // The HTTPS request succeeded, or every TCP connect when there is none
+  reachable: boolean;
+  probes: ProbeResult[];
+}
+
+export interface ProbeOptions {
+  timeoutMs?: number;
+  // Where HTTPS_PROXY and NO_PROXY are read from (default process.env)
+  env?: NodeJS.ProcessEnv;
+  // Certificates to trust, e.g. a local test server's
+  ca?: string | Buffer;
+  rejectUnauthorized?: boolean;
+}
+
+export const DEFAULT_ENDPOINTS: NetworkEndpoint[] = [
+  // git over SSH uses port 22
+  { name: "GitHub", host: "github.com", ports: [443, 22], required: true },
+  { name: "npm Registry", host: "registry.npmjs.org", url: "https://registry.npmjs.org/-/ping", required: true },
+  { name: "Vercel", host: "vercel.com", required: false }
+];
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export async function probeEndpoints(endpoints: NetworkEndpoint[], options: ProbeOptions = {}): Promise<EndpointProbe[]> {
+  return Promise.all(endpoints.map(endpoint => probeEndpoint(endpoint, options)));
+}
+
+export async function probeEndpoint(endpoint: NetworkEndpoint, options: ProbeOptions = {}): Promise<EndpointProbe> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const url = endpoint.url === false ? undefined : new URL(endpoint.url ?? `https://${endpoint.host}/`);
+  const probes: ProbeResult[] = [];
+
+  // A malformed HTTPS_PROXY fails this endpoint's HTTPS probe instead of the whole check
+  let proxy: URL | undefined;
+  try {
+    proxy = url ? proxyFor(url, options.env) : undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    probes.push({ kind: "https", target: url!.href, ok: false, latencyMs: 0, error: message });
+    return { endpoint, reachable: false, probes };
+  }
+
+  // Behind a proxy the target is resolved and reached by the proxy, so the direct probes check the proxy
+  if (proxy) {
+    probes.push(await probeDns(proxy.hostname, timeoutMs));
+    probes.push(await probeTcp(proxy.hostname, proxyPort(proxy), timeoutMs));
+  } else {
+    probes.push(await probeDns(endpoint.host, timeoutMs));
+  }
+  // Everything else would fail with the same error
+  if (!probes[0].ok) return { endpoint, reachable: false, probes };
+
+  // SSH ignores HTTPS_PROXY, so other ports are always tried directly
+  const ports = endpoint.ports ?? [443];
+  const httpsPort = url ? Number(url.port || 443) : undefined;
+  for (const port of ports.filter(port => !proxy || port !== httpsPort)) {
+    probes.push(await probeTcp(endpoint.host, port, timeoutMs));
+  }
+
+  let reachable = probes.filter(probe => probe.kind === "tcp").every(probe => probe.ok);
+  if (url) {
+    const head = await probeHttps(url, proxy, timeoutMs, options);
+    probes.push(head);
+    reachable = head.ok;
+  }
+
+  return { endpoint, reachable, probes };
+}
+
+/**
+ * The proxy for an HTTPS URL from HTTPS_PROXY/https_proxy, or undefined when
+ * none is set or NO_PROXY matches. NO_PROXY takes "*", host names (which also
+ * match subdomains), ".domain" suffixes, IP addresses and host:port.
+ */
+export function proxyFor(url: URL, env: NodeJS.ProcessEnv = process.env): URL | undefined {
+  const configured = env.HTTPS_PROXY || env.https_proxy;
+  if (!configured) return undefined;
+
+  const noProxy = (env.NO_PROXY || env.no_proxy || "").split(/[\s,]+/).filter(Boolean);
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const port = url.port || "443";
+  const bypass = noProxy.some(entry => {
+    if (entry === "*") return true;
+    const [entryHost, entryPort] = splitHostPort(entry.toLowerCase());
+    if (entryPort && entryPort !== port) return false;
+    const domain = entryHost.replace(/^\*?\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+  if (bypass) return undefined;
+
+  try {
+    return new URL(configured.includes("://") ? configured : `http://${configured}`);
+  } catch {
+    throw new Error(`Invalid HTTPS_PROXY: ${configured}`);
+  }
+}
+
+export function validateNetworkConfig(value: unknown): NetworkConfig {
+  const config = value as NetworkConfig | null;
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new Error(`"network" must be an object`);
+  }
+  if (config.offline !== undefined && typeof config.offline !== "boolean") {
+    throw new Error(`"network.offline" must be true or false`);
+  }
+  if (config.timeoutMs !== undefined && (typeof config.timeoutMs !== "number" || config.timeoutMs <= 0)) {
+    throw new Error(`"network.timeoutMs" must be a positive number`);
+  }
+  if (config.endpoints !== undefined) {
+    if (!Array.isArray(config.endpoints)) throw new Error(`"network.endpoints" must be a list`);
+    config.endpoints.forEach(validateEndpoint);
+  }
+  return config;
+}
+
+// One line per probe, e.g. "dns github.com 12 ms, tcp github.com:443 30 ms"
+export function formatProbes(probe: EndpointProbe): string {
+  return probe.probes
+    .map(result => `${result.kind} ${result.target}${result.ok ? ` ${result.latencyMs} ms` : ` failed (${result.error})`}`)
+    .join(", ");
+}
+
+// Helper functions
+
+async function probeDns(host: string, timeoutMs: number): Promise<ProbeResult> {
+  return timed("dns", host, async () => {
+    if (isIP(host)) return {};
+    await withTimeout(lookup(host), timeoutMs, `no answer within ${timeoutMs} ms`);
+    return {};
+  });
+}
+
+async function probeTcp(host: string, port: number, timeoutMs: number): Promise<ProbeResult> {
+  return timed("tcp", `${host}:${port}`, async () => {
+    const socket = await openSocket(() => netConnect({ host, port }), "connect", timeoutMs);
+    socket.destroy();
+    return {};
+  });
+}
+
+async function probeHttps(url: URL, proxy: URL | undefined, timeoutMs: number, options: ProbeOptions): Promise<ProbeResult> {
+  const result = await timed("https", url.href, async () => {
+    const socket = await openTls(url, proxy, timeoutMs, options);
+    try {
+      return { status: await headRequest(socket, url, timeoutMs) };
+    } finally {
+      socket.destroy();
+    }
+  });
+  return proxy ? { ...result, via: redact(proxy) } : result;
+}
+
+async function openTls(url: URL, proxy: URL | undefined, timeoutMs: number, options: ProbeOptions): Promise<TLSSocket> {
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const port = Number(url.port || 443);
+  const tlsOptions = {
+    servername: isIP(host) ? undefined : host,
+    ca: options.ca,
+    rejectUnauthorized: options.rejectUnauthorized ?? true
+  };
+
+  if (!proxy) {
+    return openSocket(() => tlsConnect({ host, port, ...tlsOptions }), "secureConnect", timeoutMs);
+  }
+
+  const tunnel = await openTunnel(proxy, `${host.includes(":") ? `[${host}]` : host}:${port}`, timeoutMs, options);
+  return openSocket(() => tlsConnect({ socket: tunnel, ...tlsOptions }), "secureConnect", timeoutMs);
+}
+
+// Asks the proxy for a CONNECT tunnel and returns the socket once it answers 200
+async function openTunnel(proxy: URL, authority: string, timeoutMs: number, options: ProbeOptions): Promise<Socket> {
+  const host = proxy.hostname.replace(/^\[|\]$/g, "");
+  const port = proxyPort(proxy);
+  const socket: Socket = proxy.protocol === "https:"
+    ? await openSocket(() => tlsConnect({ host, port, ca: options.ca, rejectUnauthorized: options.rejectUnauthorized ?? true }), "secureConnect", timeoutMs)
+    : await openSocket(() => netConnect({ host, port }), "connect", timeoutMs);
+
+  const headers = [`CONNECT ${authority} HTTP/1.1`, `Host: ${authority}`];
+  if (proxy.username) {
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    headers.push(`Proxy-Authorization: Basic ${Buffer.from(credentials).toString("base64")}`);
+  }
+  socket.write(`${headers.join("\r\n")}\r\n\r\n`);
+
+  const status = await readStatus(socket, timeoutMs, true);
+  if (status !== 200) {
+    socket.destroy();
+    throw new Error(`proxy answered CONNECT with ${status}`);
+  }
+  return socket;
+}
+
+async function headRequest(socket: TLSSocket, url: URL, timeoutMs: number): Promise<number> {
+  socket.write([
+    `HEAD ${url.pathname}${url.search} HTTP/1.1`,
+    `Host: ${url.host}`,
+    "User-Agent: aigs-network-probe",
+    "Connection: close",
+    "",
+    ""
+  ].join("\r\n"));
+  return readStatus(socket, timeoutMs, false);
+}
+
+/**
+ * Reads an HTTP response head and returns its status code. For a CONNECT
+ * response the listener is removed once the head is complete, leaving the
+ * socket to the tunnelled connection.
+ */
+function readStatus(socket: Socket, timeoutMs: number, untilHeadEnd: boolean): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let received = "";
+    const timer = setTimeout(() => finish(new Error(`no response within ${timeoutMs} ms`)), timeoutMs);
+    const finish = (error?: Error, status?: number) => {
+      clearTimeout(timer);
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+      if (error) reject(error);
+      else resolve(status!);
+    };
+    const onData = (chunk: Buffer) => {
+      received += chunk.toString("latin1");
+      const lineEnd = received.indexOf("\r\n");
+      if (lineEnd === -1 || (untilHeadEnd && !received.includes("\r\n\r\n"))) return;
+      const match = received.slice(0, lineEnd).match(/^HTTP\/\d(?:\.\d)? (\d{3})/);
+      if (match) finish(undefined, Number(match[1]));
+      else finish(new Error("not an HTTP response"));
+    };
+    const onError = (error: Error) => finish(error);
+    const onClose = () => finish(new Error("connection closed before a response"));
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+  });
+}
+
+// Resolves with the socket once it emits the ready event, or rejects after the timeout
+function openSocket<T extends Socket>(create: () => T, readyEvent: "connect" | "secureConnect", timeoutMs: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const socket = create();
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error(`timed out after ${timeoutMs} ms`));
+    }, timeoutMs);
+    socket.once(readyEvent, () => {
+      clearTimeout(timer);
+      socket.off("error", onError);
+      resolve(socket);
+    });
+    const onError = (error: Error) => {
+      clearTimeout(timer);
+      socket.destroy();
+      reject(error);
+    };
+    socket.once("error", onError);
+  });
+}
+
+async function timed(kind: ProbeKind, target: string, probe: () => Promise<{ status?: number }>): Promise<ProbeResult> {
+  const started = performance.now();
+  try {
+    const { status } = await probe();
+    return { kind, target, ok: true, latencyMs: elapsed(started), ...(status !== undefined && { status }) };
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    const message = error instanceof Error ? error.message : String(error);
+    return { kind, target, ok: false, latencyMs: elapsed(started), error: code && !message.includes(code) ? `${code}: ${message}` : message };
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function elapsed(started: number): number {
+  return Math.round(performance.now() - started);
+}
+
+function proxyPort(proxy: URL): number {
+  return Number(proxy.port || (proxy.protocol === "https:" ? 443 : 80));
+}
+
+function redact(proxy: URL): string {
+  return `${proxy.protocol}//${proxy.host}`;
+}
+
+function splitHostPort(entry: string): [string, string | undefined] {
+  const bracketed = entry.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) return [bracketed[1], bracketed[2]];
+  const parts = entry.split(":");
+  // More than one colon is a bare IPv6 address
+  return parts.length === 2 ? [parts[0], parts[1]] : [entry, undefined];
+}
+
+function validateEndpoint(value: unknown, index: number): void {
+  const endpoint = value as Partial<NetworkEndpoint> | null;
+  const prefix = `"network.endpoints[${index}]"`;
+  if (!endpoint || typeof endpoint !== "object") throw new Error(`${prefix} must be an object`);
+  if (typeof endpoint.name !== "string" || typeof endpoint.host !== "string") {
+    throw new Error(`${prefix} needs a "name" and a "host"`);
+  }
+  if (endpoint.ports !== undefined && (!Array.isArray(endpoint.ports)
+    || endpoint.ports.some(port => !Number.isInteger(port) || port < 1 || port > 65535))) {
+    throw new Error(`${prefix}.ports must be a list of port numbers`);
+  }
+  if (endpoint.url !== undefined && endpoint.url !== false) {
+    if (typeof endpoint.url !== "string" || !endpoint.url.startsWith("https://")) {
+      throw new Error(`${prefix}.url must be an https:// URL or false`);
+    }
+  }
+  if (endpoint.required !== undefined && typeof endpoint.required !== "boolean") {
+    throw new Error(`${prefix}.required must be true or false`);
+  }
+}
@@ -0,0 +1,148 @@
+// package-manager.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addCommand,
+  checkLockfileDrift,
+  detectPackageManager,
+  execCommand,
+  installCommand,
+  isValidPackageName,
+  runScriptCommand,
+  type PackageManager
+} from "./package-manager.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+const manager = (name: PackageManager["name"], overrides: Partial<PackageManager> = {}): PackageManager =>
+  ({ name, root: "/project", source: "lockfile", corepack: false, bin: name, lockfile: "lock", ...overrides });
+
+const PACKAGE_JSON = { name: "app", dependencies: { react: "^18.2.0" }, devDependencies: { typescript: "~5.4.0" } };
+
+describe("detectPackageManager", () => {
+  test("prefers the packageManager field over lockfiles", () => {
+    const root = tempProject({ "package.json": { packageManager: "pnpm@9.1.0+sha512.abc" }, "yarn.lock": "" });
+    const detected = detectPackageManager(root);
+
+    assert.deepEqual([detected.name, detected.version, detected.source, detected.corepack, detected.lockfile], ["pnpm", "9.1.0", "packageManager", true, undefined]);
+  });
+
+  test("falls back to the first lockfile found, then npm", () => {
+    assert.equal(detectPackageManager(tempProject({ "package.json": {}, "bun.lock": "{}", "package-lock.json": "{}" })).name, "bun");
+
+    const fallback = detectPackageManager(tempProject({ "package.json": {} }, { git: true }));
+    assert.deepEqual([fallback.name, fallback.source, fallback.lockfile], ["npm", "default", undefined]);
+  });
+
+  test("gives a workspace package the manager of the workspace root", () => {
+    const root = tempProject({ "package.json": { workspaces: ["packages/*"] }, "yarn.lock": "", "packages/web/package.json": { name: "web" } }, { git: true });
+    const detected = detectPackageManager(`${root}/packages/web`);
+
+    assert.deepEqual([detected.name, detected.root, detected.lockfile], ["yarn", root, "yarn.lock"]);
+  });
+});
+
+describe("commands", () => {
+  test("installs frozen only when there is a lockfile to check against", () => {
+    assert.equal(installCommand(manager("npm"), { frozen: true }), "npm ci");
+    assert.equal(installCommand(manager("npm", { lockfile: undefined }), { frozen: true }), "npm install");
+    assert.equal(installCommand(manager("pnpm", { bin: "corepack pnpm" }), { frozen: true }), "corepack pnpm install --frozen-lockfile");
+    assert.equal(installCommand(manager("yarn", { version: "1.22.19" }), { frozen: true }), "yarn install --frozen-lockfile");
+    assert.equal(installCommand(manager("yarn", { version: "4.1.0" }), { frozen: true }), "yarn install --immutable");
+  });
+
+  test("runs scripts and binaries the way each manager does", () => {
+    assert.equal(runScriptCommand(manager("npm"), "test"), "npm test");
+    assert.equal(runScriptCommand(manager("npm"), "build"), "npm run build");
+    assert.equal(runScriptCommand(manager("bun"), "build"), "bun run build");
+    assert.equal(execCommand(manager("npm"), "tsc"), "npx tsc");
+    assert.equal(execCommand(manager("yarn", { version: "1.22.19" }), "tsc"), "yarn tsc");
+    assert.equal(execCommand(manager("yarn", { version: "4.1.0" }), "tsc"), "yarn exec tsc");
+    assert.equal(addCommand(manager("pnpm"), ["zod"], { dev: true }), "pnpm add -D zod");
+  });
+
+  test("validates package names by npm's rules", () => {
+    assert.equal(isValidPackageName("@scope/pkg.name"), true);
+    assert.equal(isValidPackageName("Uppercase"), false);
+    assert.equal(isValidPackageName("_private"), false);
+    assert.equal(isValidPackageName("rm -rf"), false);
+  });
+});
+
+describe("checkLockfileDrift", () => {
+  test("reports missing packages and changed ranges in package-lock.json", () => {
+    const root = tempProject({
+      "package.json": PACKAGE_JSON,
+      "package-lock.json": { lockfileVersion: 3, packages: { "": { dependencies: { react: "^18.0.0" } } } }
+    });
+
+    assert.deepEqual(checkLockfileDrift(root), [
+      "Lockfile drift: package-lock.json is missing typescript. Run 'npm install'.",
+      "Lockfile drift: package-lock.json has different ranges for react (^18.0.0 → ^18.2.0). Run 'npm install'."
+    ]);
+  });
+
+  test("reads the root importer of a pnpm v9 workspace lockfile", () => {
+    const root = tempProject({
+      "package.json": PACKAGE_JSON,
+      "pnpm-lock.yaml": [
+        "lockfileVersion: '9.0'",
+        "importers:",
+        "  .:",
+        "    dependencies:",
+        "      react:",
+        "        specifier: ^18.2.0",
+        "        version: 18.2.0",
+        "    devDependencies:",
+        "      typescript:",
+        "        specifier: ~5.3.0",
+        "        version: 5.3.3",
+        "  packages/web:",
+        "    dependencies:",
+        "      vue:",
+        "        specifier: ^3.0.0",
+        "        version: 3.4.0"
+      ].join("\n")
+    });
+
+    assert.deepEqual(checkLockfileDrift(root), [
+      "Lockfile drift: pnpm-lock.yaml has different ranges for typescript (~5.3.0 → ~5.4.0). Run 'pnpm install'."
+    ]);
+  });
+
+  test("reads pnpm v6 sections and v5 specifiers", () => {
+    const v6 = tempProject({
+      "package.json": PACKAGE_JSON,
+      "pnpm-lock.yaml": "lockfileVersion: '6.0'\ndependencies:\n  react:\n    specifier: ^18.2.0\n    version: 18.2.0\ndevDependencies:\n  typescript:\n    specifier: ~5.4.0\n    version: 5.4.5\n"
+    });
+    const v5 = tempProject({
+      "package.json": PACKAGE_JSON,
+      "pnpm-lock.yaml": "lockfileVersion: 5.4\nspecifiers:\n  react: ^18.2.0\ndependencies:\n  react: 18.2.0\n"
+    });
+
+    assert.deepEqual(checkLockfileDrift(v6), []);
+    assert.deepEqual(checkLockfileDrift(v5), ["Lockfile drift: pnpm-lock.yaml is missing typescript. Run 'pnpm install'."]);
+  });
+
+  test("reads every name@range in yarn.lock entry headers", () => {
+    const root = tempProject({
+      "package.json": PACKAGE_JSON,
+      "yarn.lock": [
+        "# yarn lockfile v1",
+        "",
+        "react@^18.0.0, react@^18.2.0:",
+        "  version \"18.2.0\"",
+        "",
+        "\"typescript@npm:~5.4.0\":",
+        "  version: 5.4.5"
+      ].join("\n")
+    });
+
+    assert.deepEqual(checkLockfileDrift(root), []);
+  });
+
+  test("reports lockfiles of other managers", () => {
+    const root = tempProject({ "package.json": { name: "app" }, "pnpm-lock.yaml": "lockfileVersion: '9.0'\n", "package-lock.json": "{}" });
+
+    assert.match(checkLockfileDrift(root)[0], /^Found package-lock\.json but the project uses pnpm\./);
+  });
+});
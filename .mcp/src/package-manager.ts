@@ -0,0 +1,405 @@
+// package-manager.ts
+import { execFileSync } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+
+export type PackageManagerName = "npm" | "pnpm" | "yarn" | "bun";
+
+export interface PackageManager {
+  name: PackageManagerName;
+  // Project the manager was detected for
+  root: string;
+  // Version pinned by the packageManager field, if any
+  version?: string;
+  // Lockfile that exists for this manager
+  lockfile?: string;
+  source: "packageManager" | "lockfile" | "default";
+  // The packageManager field is set, so corepack provides the binary
+  corepack: boolean;
+  // Command prefix, e.g. "corepack pnpm" when only corepack is installed
+  bin: string;
+}
+
+// The package.json fields these helpers read; everything else is kept as is
+export interface PackageJson {
+  name?: string;
+  packageManager?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  engines?: Record<string, string>;
+  [field: string]: unknown;
+}
+
+export interface InstallOptions {
+  // Install exactly what the lockfile says and fail if it is out of date
+  frozen?: boolean;
+}
+
+// Checked in order; the first lockfile found wins when package.json does not say
+export const LOCKFILES: Array<{ file: string; manager: PackageManagerName }> = [
+  { file: "bun.lockb", manager: "bun" },
+  { file: "bun.lock", manager: "bun" },
+  { file: "pnpm-lock.yaml", manager: "pnpm" },
+  { file: "yarn.lock", manager: "yarn" },
+  { file: "package-lock.json", manager: "npm" },
+  { file: "npm-shrinkwrap.json", manager: "npm" }
+];
+
+// Lockfile each manager writes on a first install
+export const DEFAULT_LOCKFILES: Record<PackageManagerName, string> = {
+  npm: "package-lock.json",
+  pnpm: "pnpm-lock.yaml",
+  yarn: "yarn.lock",
+  bun: "bun.lock"
+};
+
+const MANAGERS: PackageManagerName[] = ["npm", "pnpm", "yarn", "bun"];
+// npm's package name rules: lowercase URL-safe characters, an optional @scope/, no leading dot or underscore
+const PACKAGE_NAME = /^(?:@[a-z0-9-*~][a-z0-9-*._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+const DEPENDENCY_SECTION = /^(dependencies|devDependencies|optionalDependencies):$/;
+
+// Detection reads the disk and probes binaries, so it happens once per project
+const detected = new Map<string, PackageManager>();
+const available = new Map<string, boolean>();
+
+export function detectPackageManager(projectRoot = process.cwd()): PackageManager {
+  const root = resolve(projectRoot);
+  const cached = detected.get(root);
+  if (cached) return cached;
+
+  const field = readPackageJson(root)?.packageManager;
+  const pinned = typeof field === "string" ? parsePackageManagerField(field) : undefined;
+  const lockfiles = findLockfiles(root);
+
+  // Workspace packages share the manager and lockfile of the workspace root
+  if (!pinned && lockfiles.length === 0) {
+    const workspaceRoot = findManagedParent(root);
+    if (workspaceRoot) {
+      const manager = detectPackageManager(workspaceRoot);
+      detected.set(root, manager);
+      return manager;
+    }
+  }
+
+  let name: PackageManagerName = "npm";
+  let source: PackageManager["source"] = "default";
+  if (pinned) {
+    name = pinned.name;
+    source = "packageManager";
+  } else if (lockfiles.length > 0) {
+    name = lockfiles[0].manager;
+    source = "lockfile";
+  }
+
+  const corepack = Boolean(pinned) && name !== "bun";
+  const manager: PackageManager = {
+    name,
+    root,
+    version: pinned?.version,
+    lockfile: lockfiles.find(lockfile => lockfile.manager === name)?.file,
+    source,
+    corepack,
+    bin: corepack && !isAvailable(name) && isAvailable("corepack") ? `corepack ${name}` : name
+  };
+
+  detected.set(root, manager);
+  return manager;
+}
+
+// Forget cached results, e.g. after a lockfile was created
+export function clearPackageManagerCache(): void {
+  detected.clear();
+}
+
+export function installCommand(manager: PackageManager, options: InstallOptions = {}): string {
+  // A frozen install needs a lockfile to check against
+  const frozen = options.frozen && manager.lockfile !== undefined;
+
+  switch (manager.name) {
+    case "npm":
+      return frozen ? "npm ci" : "npm install";
+    case "pnpm":
+      return `${manager.bin} install${frozen ? " --frozen-lockfile" : ""}`;
+    case "yarn":
+      if (!frozen) return `${manager.bin} install`;
+      return isYarnBerry(manager) ? `${manager.bin} install --immutable` : `${manager.bin} install --frozen-lockfile`;
+    case "bun":
+      return `bun install${frozen ? " --frozen-lockfile" : ""}`;
+  }
+}
+
+export function addCommand(manager: PackageManager, packages: string[], options: { dev?: boolean } = {}): string {
+  const { file, args } = addCommandArgs(manager, packages, options);
+  return [file, ...args].join(" ");
+}
+
+// The same command as a binary and its arguments, so it can run without a shell
+export function addCommandArgs(
+  manager: PackageManager,
+  packages: string[],
+  options: { dev?: boolean } = {}
+): { file: string; args: string[] } {
+  const [file, ...prefix] = (manager.name === "npm" ? "npm install" : `${manager.bin} add`).split(" ");
+  return { file, args: [...prefix, ...(options.dev ? ["-D"] : []), ...packages] };
+}
+
+export function isValidPackageName(name: string): boolean {
+  return name.length <= 214 && PACKAGE_NAME.test(name);
+}
+
+export function runScriptCommand(manager: PackageManager, script: string): string {
+  if (manager.name === "npm") {
+    return script === "test" ? "npm test" : `npm run ${script}`;
+  }
+  return `${manager.bin} run ${script}`;
+}
+
+// Runs a binary from the project's dependencies, like npx
+export function execCommand(manager: PackageManager, command: string): string {
+  switch (manager.name) {
+    case "npm":
+      return `npx ${command}`;
+    case "pnpm":
+      return `${manager.bin} exec ${command}`;
+    case "yarn":
+      return isYarnBerry(manager) ? `${manager.bin} exec ${command}` : `${manager.bin} ${command}`;
+    case "bun":
+      return `bunx ${command}`;
+  }
+}
+
+export function globalInstallCommand(manager: PackageManager, packageName: string): string {
+  switch (manager.name) {
+    case "pnpm":
+      return `${manager.bin} add -g ${packageName}`;
+    case "yarn":
+      // Yarn 2+ dropped global installs
+      return isYarnBerry(manager) ? `npm install -g ${packageName}` : `${manager.bin} global add ${packageName}`;
+    case "bun":
+      return `bun add -g ${packageName}`;
+    default:
+      return `npm install -g ${packageName}`;
+  }
+}
+
+export function readPackageJson(root = process.cwd()): PackageJson | undefined {
+  try {
+    const packageJson = JSON.parse(readFileSync(join(root, "package.json"), "utf-8"));
+    return packageJson && typeof packageJson === "object" && !Array.isArray(packageJson) ? packageJson : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reports lockfiles that no longer match package.json: dependencies missing from
+ * the lockfile, version ranges that changed, and lockfiles from several managers.
+ */
+export function checkLockfileDrift(projectRoot = process.cwd()): string[] {
+  const root = resolve(projectRoot);
+  const manager = detectPackageManager(root);
+  const packageJson = readPackageJson(root);
+  const issues: string[] = [];
+  // A workspace package is covered by the check at the workspace root
+  if (!packageJson || manager.root !== root) return issues;
+
+  const lockfiles = findLockfiles(root);
+  const foreign = lockfiles.filter(lockfile => lockfile.manager !== manager.name);
+  if (foreign.length > 0) {
+    issues.push(
+      `Found ${foreign.map(lockfile => lockfile.file).join(", ")} but the project uses ${manager.name}. ` +
+      "Remove the extra lockfiles so installs are reproducible."
+    );
+  }
+
+  if (!manager.lockfile) return issues;
+
+  const declared: Record<string, string> = {
+    ...packageJson.optionalDependencies,
+    ...packageJson.dependencies,
+    ...packageJson.devDependencies
+  };
+  let locked: Map<string, Set<string>> | undefined;
+  try {
+    locked = readLockedSpecifiers(join(root, manager.lockfile), manager.lockfile);
+  } catch (error) {
+    issues.push(`Could not parse ${manager.lockfile}: ${error instanceof Error ? error.message : error}`);
+    return issues;
+  }
+  // Binary lockfiles cannot be compared
+  if (!locked) return issues;
+
+  const missing: string[] = [];
+  const changed: string[] = [];
+  for (const [name, range] of Object.entries(declared)) {
+    const lockedRanges = locked.get(name);
+    if (!lockedRanges) {
+      missing.push(name);
+    } else if (lockedRanges.size > 0 && !lockedRanges.has(range)) {
+      changed.push(`${name} (${[...lockedRanges].join(", ")} → ${range})`);
+    }
+  }
+
+  if (missing.length > 0) {
+    issues.push(`Lockfile drift: ${manager.lockfile} is missing ${missing.join(", ")}. Run '${installCommand(manager)}'.`);
+  }
+  if (changed.length > 0) {
+    issues.push(`Lockfile drift: ${manager.lockfile} has different ranges for ${changed.join(", ")}. Run '${installCommand(manager)}'.`);
+  }
+
+  return issues;
+}
+
+// Helper functions
+
+function findManagedParent(root: string): string | undefined {
+  if (existsSync(join(root, ".git"))) return undefined;
+
+  let dir = dirname(root);
+  while (dir !== dirname(dir)) {
+    if (findLockfiles(dir).length > 0 || typeof readPackageJson(dir)?.packageManager === "string") return dir;
+    // Never look past the repository
+    if (existsSync(join(dir, ".git"))) return undefined;
+    dir = dirname(dir);
+  }
+  return undefined;
+}
+
+function parsePackageManagerField(field: string): { name: PackageManagerName; version?: string } | undefined {
+  // e.g. "pnpm@9.1.0" or "yarn@4.1.0+sha512.abc"
+  const match = field.match(/^(npm|pnpm|yarn|bun)(?:@([^+]+))?/);
+  if (!match || !MANAGERS.includes(match[1] as PackageManagerName)) return undefined;
+  return { name: match[1] as PackageManagerName, version: match[2] };
+}
+
+function findLockfiles(root: string): typeof LOCKFILES {
+  return LOCKFILES.filter(lockfile => existsSync(join(root, lockfile.file)));
+}
+
+function isYarnBerry(manager: PackageManager): boolean {
+  if (manager.version) return !manager.version.startsWith("1.");
+  // Berry lockfiles carry a __metadata block
+  return manager.lockfile === "yarn.lock" && readFileSync(join(manager.root, manager.lockfile), "utf-8").includes("__metadata:");
+}
+
+function isAvailable(binary: string): boolean {
+  if (!available.has(binary)) {
+    try {
+      execFileSync(binary, ["--version"], { stdio: "ignore" });
+      available.set(binary, true);
+    } catch {
+      available.set(binary, false);
+    }
+  }
+  return available.get(binary)!;
+}
+
+/**
+ * Maps each direct dependency in the lockfile to the ranges recorded for it.
+ * An empty set means the package is present but its range is not recorded.
+ */
+function readLockedSpecifiers(path: string, lockfile: string): Map<string, Set<string>> | undefined {
+  if (lockfile === "bun.lockb") return undefined;
+
+  const text = readFileSync(path, "utf-8");
+  const locked = new Map<string, Set<string>>();
+  const add = (name: string, range?: string) => {
+    const ranges = locked.get(name) ?? new Set<string>();
+    if (range) ranges.add(range);
+    locked.set(name, ranges);
+  };
+
+  if (lockfile === "package-lock.json" || lockfile === "npm-shrinkwrap.json") {
+    const lock = JSON.parse(text);
+    const rootPackage = lock.packages?.[""];
+    if (rootPackage) {
+      for (const [name, range] of Object.entries<string>({
+        ...rootPackage.optionalDependencies,
+        ...rootPackage.dependencies,
+        ...rootPackage.devDependencies
+      })) {
+        add(name, range);
+      }
+    } else {
+      // lockfileVersion 1 only records resolved versions
+      for (const name of Object.keys(lock.dependencies ?? {})) add(name);
+    }
+  } else if (lockfile === "bun.lock") {
+    // JSONC with trailing commas
+    const lock = JSON.parse(text.replace(/,(\s*[}\]])/g, "$1"));
+    const workspace = lock.workspaces?.[""] ?? {};
+    for (const [name, range] of Object.entries<string>({
+      ...workspace.optionalDependencies,
+      ...workspace.dependencies,
+      ...workspace.devDependencies
+    })) {
+      add(name, range);
+    }
+  } else if (lockfile === "pnpm-lock.yaml") {
+    readPnpmSpecifiers(text, add);
+  } else if (lockfile === "yarn.lock") {
+    // Entry headers list every "name@range" that resolved to the entry
+    for (const line of text.split("\n")) {
+      if (!line || line.startsWith(" ") || line.startsWith("#") || !line.endsWith(":")) continue;
+      for (const key of line.slice(0, -1).split(",")) {
+        const entry = key.trim().replace(/^"|"$/g, "");
+        const at = entry.indexOf("@", 1);
+        if (at > 0) add(entry.slice(0, at), entry.slice(at + 1).replace(/^npm:/, ""));
+      }
+    }
+  }
+
+  return locked;
+}
+
+// Reads the root project of pnpm-lock.yaml: importers["."] (workspaces, v9), top-level
+// dependency sections (v6) or the top-level specifiers map (v5)
+function readPnpmSpecifiers(text: string, add: (name: string, range?: string) => void): void {
+  let mode: "dependencies" | "specifiers" | undefined;
+  let dependencyIndent = 2;
+  let inImporters = false;
+  let inRootImporter = false;
+  let current: string | undefined;
+
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const indent = line.length - line.trimStart().length;
+
+    if (indent === 0) {
+      inImporters = trimmed === "importers:";
+      inRootImporter = false;
+      mode = DEPENDENCY_SECTION.test(trimmed) ? "dependencies" : trimmed === "specifiers:" ? "specifiers" : undefined;
+      dependencyIndent = 2;
+      continue;
+    }
+    if (inImporters && indent === 2) {
+      inRootImporter = trimmed === ".:" || trimmed === "'.':";
+      mode = undefined;
+      continue;
+    }
+    if (inRootImporter && indent === 4) {
+      mode = DEPENDENCY_SECTION.test(trimmed) ? "dependencies" : undefined;
+      dependencyIndent = 6;
+      continue;
+    }
+    if (!mode) continue;
+
+    const entry = trimmed.match(/^'?([^']+?)'?:\s*'?([^']*?)'?$/);
+    if (!entry) continue;
+
+    if (indent === dependencyIndent) {
+      if (mode === "specifiers") {
+        add(entry[1], entry[2]);
+      } else {
+        // v5 sections map names straight to resolved versions, which are not ranges
+        current = entry[2] ? undefined : entry[1];
+        add(entry[1]);
+      }
+    } else if (indent === dependencyIndent + 2 && entry[1] === "specifier" && current) {
+      add(current, entry[2]);
+    }
+  }
+}
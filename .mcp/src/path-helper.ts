@@ -1,20 +1,43 @@
-import { normalize, resolve, join, dirname } from "path";
-import { writeFileSync, existsSync, mkdirSync, readdirSync, statSync } from "fs";
+import { normalize, resolve, join, dirname, basename, delimiter, sep } from "path";
+import { writeFileSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync } from "fs";
 
 /**
  * Ensures all paths are inside the project root (prevents code writing outside the repo).
  * Use in all file write operations.
  */
 export function resolveSafePath(dest: string, projectRoot = process.cwd()): string {
-  const normalized = normalize(resolve(projectRoot, dest));
-  if (!normalized.startsWith(projectRoot)) {
+  const root = normalize(resolve(projectRoot));
+  const normalized = normalize(resolve(root, dest));
+  // Compare on a separator boundary so /repo-other is not accepted for /repo
+  if (normalized !== root && !normalized.startsWith(root.endsWith(sep) ? root : root + sep)) {
     throw new Error(`File destination is outside the project root: ${normalized}`);
   }
   return normalized;
 }
 
+/**
+ * Directories the MCP server is allowed to inspect. Set MCP_WORKSPACE_ROOTS
+ * (separated like PATH) to allow more than the directory the server started in.
+ */
+export function getWorkspaceRoots(): string[] {
+  const configured = process.env.MCP_WORKSPACE_ROOTS?.split(delimiter).filter(Boolean) || [];
+  return configured.length > 0 ? configured.map(root => resolve(root)) : [process.cwd()];
+}
+
+// Resolves a path requested over MCP, rejecting anything outside the allowed workspace roots
+export function resolveWorkspacePath(requested = ".", roots = getWorkspaceRoots()): string {
+  for (const root of roots) {
+    try {
+      return resolveSafePath(requested, root);
+    } catch {
+      // Try the next workspace root
+    }
+  }
+  throw new Error(`Path is outside the allowed workspace: ${requested}`);
+}
+
 // Example usage before writing a file:
-export function writeSafeFile(relPath: string, content: string, root = process.cwd()): void {
+export function writeSafeFile(relPath: string, content: string | Uint8Array, root = process.cwd()): void {
   const safePath = resolveSafePath(relPath, root);
   
   // Ensure directory exists
@@ -26,6 +49,21 @@ export function writeSafeFile(relPath: string, content: string, root = process.c
   writeFileSync(safePath, content, "utf-8");
 }
 
+/**
+ * Lists a file or directory the tool keeps in the project, such as its
+ * history or logs, in the .gitignore next to it so `git add -A` skips it.
+ */
+export function keepOutOfGit(relPath: string, root = process.cwd()): void {
+  const safePath = resolveSafePath(relPath, root);
+  const ignoreFile = join(dirname(safePath), ".gitignore");
+  const entry = `/${basename(safePath)}`;
+  const current = existsSync(ignoreFile) ? readFileSync(ignoreFile, "utf-8") : "";
+  if (current.split(/\r?\n/).some(line => line.trim() === entry)) return;
+
+  const separator = current && !current.endsWith("\n") ? "\n" : "";
+  writeSafeFile(join(dirname(relPath), ".gitignore"), `${current}${separator}${entry}\n`, root);
+}
+
 // Scan for orphaned files created outside the project
 export async function scanForOrphanedFiles(projectRoot = process.cwd()): Promise<string[]> {
   const orphaned: string[] = [];
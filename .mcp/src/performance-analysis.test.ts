@@ -0,0 +1,74 @@
+// performance-analysis.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzePerformance, formatPerformanceReport, resolvePerformanceCategories } from "./performance-analysis.js";
+
+const hotspotsIn = (code: string, metrics?: string[]) =>
+  analyzePerformance(code, "typescript", metrics).hotspots.map(hotspot => `${hotspot.line} ${hotspot.kind}`);
+
+describe("resolvePerformanceCategories", () => {
+  test("maps loose metric names and falls back to every category", () => {
+    assert.deepEqual(resolvePerformanceCategories(["Time", "disk", "fps"]), { categories: ["cpu", "io"], ignored: ["fps"] });
+    assert.deepEqual(resolvePerformanceCategories(["fps"]), { categories: ["cpu", "memory", "io"], ignored: ["fps"] });
+  });
+});
+
+describe("analyzePerformance", () => {
+  test("estimates complexity from loop depth, counting iteration callbacks as loops", () => {
+    const report = analyzePerformance([
+      "function pairs(items: number[]) {",
+      "  items.forEach(a => { for (const b of items) console.log(a, b); });",
+      "}",
+      "const flat = (rows: number[][]) => rows.length;"
+    ].join("\n"));
+
+    assert.deepEqual(report.functions.map(fn => `${fn.name} ${fn.estimatedComplexity}`), ["pairs O(n²)", "<module> O(1)", "flat O(1)"]);
+  });
+
+  test("reports nested loops over one collection, lookups and JSON.parse in loops", () => {
+    const code = [
+      "function f(users: string[], ids: string[], raw: string) {",
+      "  for (const a of users) {",
+      "    for (const b of users) {}",
+      "    ids.includes(a);",
+      "    JSON.parse(raw);",
+      "  }",
+      "}"
+    ].join("\n");
+
+    assert.deepEqual(hotspotsIn(code), ["3 nested-loop", "4 lookup-in-loop", "5 repeated-json-parse"]);
+    assert.deepEqual(hotspotsIn(code, ["io"]), []);
+  });
+
+  test("reports await in a loop but not in a callback the loop iterates with", () => {
+    const code = [
+      "async function f(urls: string[]) {",
+      "  for (const url of urls) await fetch(url);",
+      "  await Promise.all(urls.map(async url => await fetch(url)));",
+      "  urls.forEach(async url => { await fetch(url); });",
+      "}"
+    ].join("\n");
+
+    assert.deepEqual(hotspotsIn(code), ["2 await-in-loop"]);
+  });
+
+  test("reports sync IO in async functions, including their sync iteration callbacks", () => {
+    const code = [
+      "async function load(files: string[]) {",
+      "  readFileSync(files[0]);",
+      "  files.forEach(file => readFileSync(file));",
+      "  setTimeout(() => readFileSync(files[1]));",
+      "}",
+      "function sync(files: string[]) { return files.map(file => readFileSync(file)); }"
+    ].join("\n");
+
+    assert.deepEqual(hotspotsIn(code), ["2 sync-io-in-async", "3 sync-io-in-async"]);
+  });
+
+  test("reports an unsupported language", () => {
+    const report = analyzePerformance("print(1)", "python");
+
+    assert.equal(report.supported, false);
+    assert.match(formatPerformanceReport(report), /not available for 'python'/);
+  });
+});
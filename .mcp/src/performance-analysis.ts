@@ -0,0 +1,336 @@
+// performance-analysis.ts
+import ts from "typescript";
+import { getFunctionName, isFunctionWithBody, parseSource } from "./code-analysis.js";
+
+export type PerformanceCategory = "cpu" | "memory" | "io";
+
+export type HotspotKind =
+  | "nested-loop"
+  | "lookup-in-loop"
+  | "repeated-json-parse"
+  | "sync-io-in-async"
+  | "await-in-loop";
+
+export interface PerformanceHotspot {
+  kind: HotspotKind;
+  categories: PerformanceCategory[];
+  message: string;
+  suggestion: string;
+  line: number;
+  column: number;
+}
+
+export interface FunctionComplexity {
+  name: string;
+  line: number;
+  maxLoopDepth: number;
+  estimatedComplexity: string;
+}
+
+export interface PerformanceReport {
+  language: string;
+  supported: boolean;
+  categories: PerformanceCategory[];
+  ignoredMetrics: string[];
+  functions: FunctionComplexity[];
+  hotspots: PerformanceHotspot[];
+}
+
+const ALL_CATEGORIES: PerformanceCategory[] = ["cpu", "memory", "io"];
+
+// Accept the loose names people tend to pass in `metrics`
+const METRIC_ALIASES: Record<string, PerformanceCategory> = {
+  cpu: "cpu",
+  time: "cpu",
+  speed: "cpu",
+  complexity: "cpu",
+  memory: "memory",
+  allocation: "memory",
+  allocations: "memory",
+  io: "io",
+  "i/o": "io",
+  network: "io",
+  disk: "io",
+  fs: "io"
+};
+
+const LOOKUP_METHODS = new Set(["includes", "indexOf", "lastIndexOf", "find", "findIndex", "findLast", "findLastIndex", "some", "filter"]);
+
+const ITERATION_METHODS = new Set(["forEach", "map", "filter", "reduce", "reduceRight", "some", "every", "find", "findIndex", "flatMap"]);
+
+const SYNC_IO_CALLS = new Set([
+  "readFileSync", "writeFileSync", "appendFileSync", "existsSync", "statSync", "lstatSync",
+  "readdirSync", "mkdirSync", "rmSync", "rmdirSync", "unlinkSync", "renameSync", "copyFileSync",
+  "accessSync", "openSync", "readSync", "writeSync", "execSync", "spawnSync", "execFileSync"
+]);
+
+interface LoopFrame {
+  collection?: string;
+}
+
+interface FunctionFrame {
+  metrics: FunctionComplexity;
+  isAsync: boolean;
+  jsonParses: Map<string, number>;
+  // Loops entered outside this function; an await only pauses its own function, so they don't count for it
+  outerLoops: number;
+}
+
+export function resolvePerformanceCategories(metrics: string[] = []): {
+  categories: PerformanceCategory[];
+  ignored: string[];
+} {
+  if (metrics.length === 0) return { categories: [...ALL_CATEGORIES], ignored: [] };
+
+  const categories = new Set<PerformanceCategory>();
+  const ignored: string[] = [];
+
+  for (const metric of metrics) {
+    const category = METRIC_ALIASES[metric.trim().toLowerCase()];
+    if (category) {
+      categories.add(category);
+    } else {
+      ignored.push(metric);
+    }
+  }
+
+  // Nothing recognisable was requested, so fall back to the full report
+  if (categories.size === 0) return { categories: [...ALL_CATEGORIES], ignored };
+
+  return { categories: ALL_CATEGORIES.filter(category => categories.has(category)), ignored };
+}
+
+export function analyzePerformance(
+  code: string,
+  language: string = "typescript",
+  metrics: string[] = []
+): PerformanceReport {
+  const { categories, ignored } = resolvePerformanceCategories(metrics);
+  const report: PerformanceReport = {
+    language,
+    supported: false,
+    categories,
+    ignoredMetrics: ignored,
+    functions: [],
+    hotspots: []
+  };
+
+  const sourceFile = parseSource(code, language);
+  if (!sourceFile) return report;
+
+  report.supported = true;
+  const hotspots: PerformanceHotspot[] = [];
+
+  const position = (node: ts.Node): { line: number; column: number } => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    return { line: line + 1, column: character + 1 };
+  };
+
+  const addHotspot = (
+    node: ts.Node,
+    kind: HotspotKind,
+    hotspotCategories: PerformanceCategory[],
+    message: string,
+    suggestion: string
+  ): void => {
+    hotspots.push({ kind, categories: hotspotCategories, message, suggestion, ...position(node) });
+  };
+
+  const newFrame = (name: string, node: ts.Node, isAsync: boolean, outerLoops = 0): FunctionFrame => ({
+    metrics: { name, line: position(node).line, maxLoopDepth: 0, estimatedComplexity: "O(1)" },
+    isAsync,
+    jsonParses: new Map(),
+    outerLoops
+  });
+
+  const closeFrame = (frame: FunctionFrame): void => {
+    frame.metrics.estimatedComplexity = estimateComplexity(frame.metrics.maxLoopDepth);
+    report.functions.push(frame.metrics);
+  };
+
+  const visit = (node: ts.Node, frame: FunctionFrame, loops: LoopFrame[]): void => {
+    if (isFunctionWithBody(node)) {
+      const iterationCollection = iterationCallbackCollection(node);
+
+      // A callback passed to an iteration method runs once per element while the enclosing
+      // function waits, so it keeps that function's loops and async context, and its loop
+      // depth counts towards it. Its own awaits only pause the callback, though.
+      if (iterationCollection !== undefined) {
+        const callbackLoops = [...loops, { collection: iterationCollection }];
+        const callbackFrame: FunctionFrame = {
+          ...newFrame(frame.metrics.name, node, frame.isAsync || hasAsyncModifier(node), callbackLoops.length),
+          jsonParses: frame.jsonParses
+        };
+        checkNestedLoop(node, callbackLoops, callbackFrame);
+        ts.forEachChild(node, child => visit(child, callbackFrame, callbackLoops));
+        frame.metrics.maxLoopDepth = Math.max(frame.metrics.maxLoopDepth, callbackFrame.metrics.maxLoopDepth);
+        return;
+      }
+
+      const childFrame = newFrame(getFunctionName(node), node, hasAsyncModifier(node));
+      ts.forEachChild(node, child => visit(child, childFrame, []));
+      closeFrame(childFrame);
+      return;
+    }
+
+    if (isLoop(node)) {
+      const innerLoops = [...loops, { collection: loopCollection(node) }];
+      checkNestedLoop(node, innerLoops, frame);
+      ts.forEachChild(node, child => visit(child, frame, innerLoops));
+      return;
+    }
+
+    if (ts.isAwaitExpression(node) && loops.length > frame.outerLoops) {
+      addHotspot(node, "await-in-loop", ["io"],
+        "'await' inside a loop runs each iteration sequentially",
+        "Collect the promises and await them together with Promise.all (or a concurrency-limited batch)");
+    }
+
+    if (ts.isCallExpression(node)) {
+      checkCall(node, frame, loops);
+    }
+
+    ts.forEachChild(node, child => visit(child, frame, loops));
+  };
+
+  const checkNestedLoop = (node: ts.Node, loops: LoopFrame[], frame: FunctionFrame): void => {
+    frame.metrics.maxLoopDepth = Math.max(frame.metrics.maxLoopDepth, loops.length);
+
+    const current = loops[loops.length - 1]?.collection;
+    if (!current) return;
+
+    const outer = loops.slice(0, -1).some(loop => loop.collection === current);
+    if (outer) {
+      addHotspot(node, "nested-loop", ["cpu"],
+        `Nested loop iterates '${current}' inside another loop over the same collection (O(n²))`,
+        `Index '${current}' once in a Map or Set keyed by the value you compare on, then look entries up in the outer loop`);
+    }
+  };
+
+  const checkCall = (node: ts.CallExpression, frame: FunctionFrame, loops: LoopFrame[]): void => {
+    const callee = node.expression;
+    const calleeName = ts.isPropertyAccessExpression(callee)
+      ? callee.name.text
+      : ts.isIdentifier(callee) ? callee.text : undefined;
+
+    if (!calleeName) return;
+
+    if (loops.length > 0 && ts.isPropertyAccessExpression(callee) && LOOKUP_METHODS.has(calleeName)
+      && !ts.isStringLiteralLike(callee.expression)) {
+      const receiver = callee.expression.getText(sourceFile);
+      addHotspot(node, "lookup-in-loop", ["cpu"],
+        `'${receiver}.${calleeName}()' scans the whole collection on every loop iteration`,
+        `Build a Set or Map from '${receiver}' before the loop and use has()/get() for O(1) lookups`);
+    }
+
+    if (calleeName === "parse" && ts.isPropertyAccessExpression(callee)
+      && callee.expression.getText(sourceFile) === "JSON") {
+      const argument = node.arguments[0]?.getText(sourceFile) || "";
+      const seen = frame.jsonParses.get(argument) || 0;
+      frame.jsonParses.set(argument, seen + 1);
+
+      if (loops.length > 0) {
+        addHotspot(node, "repeated-json-parse", ["cpu", "memory"],
+          `JSON.parse(${argument}) runs on every loop iteration`,
+          "Parse once outside the loop and reuse the resulting object");
+      } else if (seen === 1) {
+        addHotspot(node, "repeated-json-parse", ["cpu", "memory"],
+          `JSON.parse(${argument}) is parsed more than once in '${frame.metrics.name}'`,
+          "Parse once, store the result in a variable and reuse it");
+      }
+    }
+
+    if (frame.isAsync && SYNC_IO_CALLS.has(calleeName)) {
+      addHotspot(node, "sync-io-in-async", ["io"],
+        `'${calleeName}' blocks the event loop inside async function '${frame.metrics.name}'`,
+        `Use the promise-based API (e.g. fs/promises or util.promisify) instead of '${calleeName}'`);
+    }
+  };
+
+  const moduleFrame = newFrame("<module>", sourceFile, false);
+  ts.forEachChild(sourceFile, child => visit(child, moduleFrame, []));
+  closeFrame(moduleFrame);
+
+  report.functions.sort((a, b) => a.line - b.line);
+  report.hotspots = hotspots
+    .filter(hotspot => hotspot.categories.some(category => categories.includes(category)))
+    .sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return report;
+}
+
+export function formatPerformanceReport(report: PerformanceReport): string {
+  if (!report.supported) {
+    return `Performance analysis is not available for '${report.language}'. Supported languages: typescript, javascript, tsx, jsx`;
+  }
+
+  let text = `Performance Analysis (${report.categories.join(", ")})\n`;
+
+  if (report.ignoredMetrics.length > 0) {
+    text += `Ignored unknown metrics: ${report.ignoredMetrics.join(", ")}\n`;
+  }
+
+  text += "\nEstimated complexity:\n";
+  for (const fn of report.functions) {
+    text += `- ${fn.name} (line ${fn.line}): ${fn.estimatedComplexity}, loop depth ${fn.maxLoopDepth}\n`;
+  }
+
+  text += `\nHotspots (${report.hotspots.length}):\n`;
+  if (report.hotspots.length === 0) {
+    text += "- No hotspots found for the selected metrics\n";
+  }
+  for (const hotspot of report.hotspots) {
+    text += `- [${hotspot.categories.join("/")}] ${hotspot.line}:${hotspot.column} ${hotspot.message}\n`;
+    text += `  Suggestion: ${hotspot.suggestion}\n`;
+  }
+
+  return text;
+}
+
+// Helper functions
+
+function isLoop(node: ts.Node): node is ts.IterationStatement {
+  return ts.isIterationStatement(node, false);
+}
+
+function loopCollection(node: ts.IterationStatement): string | undefined {
+  if (ts.isForOfStatement(node) || ts.isForInStatement(node)) {
+    return node.expression.getText();
+  }
+
+  // for (let i = 0; i < items.length; i++)
+  if (ts.isForStatement(node) && node.condition && ts.isBinaryExpression(node.condition)) {
+    const bound = node.condition.right;
+    if (ts.isPropertyAccessExpression(bound) && bound.name.text === "length") {
+      return bound.expression.getText();
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the receiver text when the function is the callback of an array
+ * iteration method (items.forEach(cb)), or undefined otherwise.
+ */
+function iterationCallbackCollection(node: ts.Node): string | undefined {
+  const call = node.parent;
+  if (!call || !ts.isCallExpression(call) || call.arguments[0] !== node) return undefined;
+  if (!ts.isPropertyAccessExpression(call.expression)) return undefined;
+  if (!ITERATION_METHODS.has(call.expression.name.text)) return undefined;
+
+  return call.expression.expression.getText();
+}
+
+function hasAsyncModifier(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node)
+    && (ts.getModifiers(node) || []).some(modifier => modifier.kind === ts.SyntaxKind.AsyncKeyword);
+}
+
+function estimateComplexity(loopDepth: number): string {
+  if (loopDepth === 0) return "O(1)";
+  if (loopDepth === 1) return "O(n)";
+  if (loopDepth === 2) return "O(n²)";
+  if (loopDepth === 3) return "O(n³)";
+  return `O(n^${loopDepth})`;
+}
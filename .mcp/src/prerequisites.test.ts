@@ -0,0 +1,98 @@
+// prerequisites.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { detectPackageManager } from "./package-manager.js";
+import {
+  BUILTIN_PREREQUISITES,
+  nodeVersionManagerSpec,
+  nodeVersionRange,
+  prerequisiteInstallCommand,
+  resolvePrerequisites,
+  validatePrerequisiteConfig
+} from "./prerequisites.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+describe("nodeVersionRange", () => {
+  test("reads engines.node before .nvmrc and .node-version", () => {
+    const root = tempProject({ "package.json": { engines: { node: ">=18.17 <21" } }, ".nvmrc": "22\n" });
+    assert.deepEqual(nodeVersionRange(root), { range: ">=18.17 <21", rangeSource: "engines.node" });
+  });
+
+  test("turns an lts/ codename into its major", () => {
+    const root = tempProject({ ".nvmrc": "lts/iron # the current LTS\n" });
+    assert.deepEqual(nodeVersionRange(root), { range: "^20", rangeSource: ".nvmrc" });
+  });
+
+  test("falls back to .node-version and skips aliases it cannot check", () => {
+    assert.deepEqual(nodeVersionRange(tempProject({ ".node-version": "v20.11.1" })), { range: "v20.11.1", rangeSource: ".node-version" });
+    assert.equal(nodeVersionRange(tempProject({ ".nvmrc": "lts/*" })), undefined);
+  });
+});
+
+describe("resolvePrerequisites", () => {
+  test("adds the project's package manager with its pinned version", () => {
+    const root = tempProject({ "package.json": { packageManager: "pnpm@9.1.0", engines: { pnpm: ">=9" } } });
+    const pnpm = resolvePrerequisites(root).find(prerequisite => prerequisite.name === "pnpm");
+
+    assert.equal(pnpm?.range, ">=9");
+    assert.equal(pnpm?.rangeSource, "engines.pnpm");
+    assert.equal(pnpm?.install?.pnpm, "corepack enable");
+  });
+
+  test("merges configured entries over the built-ins and appends new ones", () => {
+    const root = tempProject({ "package.json": { engines: { node: "^20" } } });
+    const resolved = resolvePrerequisites(root, [
+      { name: "Vercel CLI", command: "vercel --version", required: true, range: ">=37" },
+      { name: "Docker", command: "docker --version", install: { brew: "brew install --cask docker" } }
+    ]);
+
+    const vercel = resolved.find(prerequisite => prerequisite.name === "Vercel CLI")!;
+    assert.equal(vercel.required, true);
+    assert.equal(vercel.npmPackage, "vercel");
+    assert.equal(vercel.rangeSource, "config");
+    assert.equal(resolved.find(prerequisite => prerequisite.name === "Node.js")?.rangeSource, "engines.node");
+    assert.equal(resolved.at(-1)?.name, "Docker");
+  });
+});
+
+describe("prerequisiteInstallCommand", () => {
+  const vercel = BUILTIN_PREREQUISITES.find(prerequisite => prerequisite.name === "Vercel CLI")!;
+  const git = BUILTIN_PREREQUISITES.find(prerequisite => prerequisite.name === "Git")!;
+  const ssh = BUILTIN_PREREQUISITES.find(prerequisite => prerequisite.name === "SSH")!;
+
+  test("installs npm packages globally with the project's package manager", () => {
+    const pnpm = detectPackageManager(tempProject({ "pnpm-lock.yaml": "" }));
+    assert.equal(prerequisiteInstallCommand(vercel, pnpm, "apt"), "pnpm add -g vercel");
+  });
+
+  test("uses the system installer's entry and nothing when there is none", () => {
+    const npm = detectPackageManager(tempProject({ "package.json": {} }));
+    assert.equal(prerequisiteInstallCommand(git, npm, "apt"), "sudo apt-get install -y git");
+    assert.equal(prerequisiteInstallCommand(ssh, npm, "brew"), undefined);
+  });
+});
+
+describe("nodeVersionManagerSpec", () => {
+  test("picks what nvm and fnm should install for a range", () => {
+    assert.equal(nodeVersionManagerSpec("v20.11.1"), "20.11.1");
+    assert.equal(nodeVersionManagerSpec("^20 || ^22"), "22");
+    assert.equal(nodeVersionManagerSpec(">=18.17 <21"), "20");
+    assert.equal(nodeVersionManagerSpec(">=16.0.0"), "--lts");
+  });
+});
+
+describe("validatePrerequisiteConfig", () => {
+  test("accepts a partial override of a built-in", () => {
+    assert.deepEqual(validatePrerequisiteConfig({ name: "SSH", required: false }, 0), { name: "SSH", required: false });
+  });
+
+  test("rejects entries it cannot check or install", () => {
+    assert.throws(() => validatePrerequisiteConfig("docker", 0), /prerequisites\[0\] must be an object/);
+    assert.throws(() => validatePrerequisiteConfig({ name: "Docker" }, 1), /prerequisites\[1\] needs a "command"/);
+    assert.throws(() => validatePrerequisiteConfig({ name: "Git", range: "newest" }, 2), /not a valid version range: newest/);
+    assert.throws(
+      () => validatePrerequisiteConfig({ name: "Git", install: { chocolatey: "choco install git" } }, 3),
+      /install\.chocolatey is not one of/
+    );
+  });
+});
@@ -0,0 +1,336 @@
+// prerequisites.ts
+import { execSync } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { platform } from "node:os";
+import {
+  detectPackageManager,
+  globalInstallCommand,
+  readPackageJson,
+  type PackageManager,
+  type PackageManagerName
+} from "./package-manager.js";
+import { coerceVersion, isValidRange, satisfies } from "./version-range.js";
+
+export type SystemInstaller = "apt" | "dnf" | "pacman" | "apk" | "zypper" | "brew" | "winget";
+
+export type Installer = PackageManagerName | SystemInstaller;
+
+export interface Prerequisite {
+  name: string;
+  // Prints the version, e.g. "git --version"
+  command: string;
+  // semver range such as ">=2.25" or "^20 || ^22"
+  range?: string;
+  required?: boolean;
+  // Installed globally with the project's package manager, e.g. "vercel"
+  npmPackage?: string;
+  // Install commands by package manager or system installer; these win over npmPackage
+  install?: Partial<Record<Installer, string>>;
+  // Manual installation instructions
+  docs?: string;
+}
+
+// A prerequisite with the range that applies to this project and where it came from
+export interface ResolvedPrerequisite extends Prerequisite {
+  rangeSource?: string;
+}
+
+export interface PrerequisiteStatus {
+  name: string;
+  required: boolean;
+  installed: boolean;
+  version?: string;
+  range?: string;
+  rangeSource?: string;
+  // Installed and within the range
+  satisfied: boolean;
+}
+
+const INSTALLERS: Installer[] = ["npm", "pnpm", "yarn", "bun", "apt", "dnf", "pacman", "apk", "zypper", "brew", "winget"];
+
+export const BUILTIN_PREREQUISITES: Prerequisite[] = [
+  {
+    name: "Git",
+    command: "git --version",
+    range: ">=2.25.0",
+    required: true,
+    install: {
+      apt: "sudo apt-get install -y git",
+      dnf: "sudo dnf install -y git",
+      pacman: "sudo pacman -S --noconfirm git",
+      apk: "sudo apk add git",
+      zypper: "sudo zypper install -y git",
+      brew: "brew install git",
+      winget: "winget install --id Git.Git -e"
+    },
+    docs: "https://git-scm.com/downloads"
+  },
+  {
+    name: "Node.js",
+    command: "node --version",
+    range: ">=16.0.0",
+    required: true,
+    install: {
+      apt: "sudo apt-get install -y nodejs",
+      dnf: "sudo dnf install -y nodejs",
+      pacman: "sudo pacman -S --noconfirm nodejs",
+      apk: "sudo apk add nodejs",
+      zypper: "sudo zypper install -y nodejs",
+      brew: "brew install node",
+      winget: "winget install --id OpenJS.NodeJS.LTS -e"
+    },
+    // Distribution packages often lag behind; a version manager installs exactly the version the project needs
+    docs: "https://nodejs.org/en/download (or a version manager such as nvm or fnm)"
+  },
+  {
+    name: "npm",
+    command: "npm --version",
+    range: ">=7.0.0",
+    required: true,
+    install: {
+      npm: "npm install -g npm@latest",
+      apt: "sudo apt-get install -y npm",
+      dnf: "sudo dnf install -y npm",
+      pacman: "sudo pacman -S --noconfirm npm",
+      apk: "sudo apk add npm",
+      zypper: "sudo zypper install -y npm"
+    },
+    docs: "https://docs.npmjs.com/downloading-and-installing-node-js-and-npm"
+  },
+  {
+    name: "Vercel CLI",
+    command: "vercel --version",
+    required: false,
+    npmPackage: "vercel",
+    docs: "https://vercel.com/docs/cli"
+  },
+  {
+    name: "SSH",
+    command: "ssh -V",
+    required: true,
+    install: {
+      apt: "sudo apt-get install -y openssh-client",
+      dnf: "sudo dnf install -y openssh-clients",
+      pacman: "sudo pacman -S --noconfirm openssh",
+      apk: "sudo apk add openssh-client",
+      zypper: "sudo zypper install -y openssh-clients",
+      winget: "winget install --id Microsoft.OpenSSH.Beta -e"
+    },
+    docs: "https://www.openssh.com/portable.html"
+  }
+];
+
+// Codenames .nvmrc accepts as lts/<name>
+const NODE_LTS_CODENAMES: Record<string, number> = {
+  argon: 4, boron: 6, carbon: 8, dubnium: 10, erbium: 12, fermium: 14,
+  gallium: 16, hydrogen: 18, iron: 20, jod: 22, krypton: 24
+};
+
+/**
+ * The prerequisites for a project: the built-ins, the project's package
+ * manager when it is not npm, and the configured ones ("prerequisites" in
+ * .mcp/config.json). A configured entry is merged over the built-in with the
+ * same name, so { "name": "Vercel CLI", "required": true } only changes what
+ * it sets. Node's range comes from the config, then engines.node, .nvmrc and
+ * .node-version.
+ */
+export function resolvePrerequisites(projectRoot = process.cwd(), configuredPrerequisites: Prerequisite[] = []): ResolvedPrerequisite[] {
+  const prerequisites: ResolvedPrerequisite[] = BUILTIN_PREREQUISITES.map(prerequisite => ({ ...prerequisite }));
+  const manager = detectPackageManager(projectRoot);
+  const engines = readEngines(projectRoot);
+
+  // The project's own package manager is needed too when it is not npm
+  if (manager.name !== "npm") {
+    prerequisites.splice(3, 0, packageManagerPrerequisite(manager));
+  }
+
+  // engines is the project's own statement, so it replaces the built-in minimums
+  const node = prerequisites.find(prerequisite => prerequisite.name === "Node.js")!;
+  const nodeRange = nodeVersionRange(projectRoot);
+  if (nodeRange) Object.assign(node, nodeRange);
+  const managerRange = engines[manager.name];
+  const managerPrerequisite = prerequisites.find(prerequisite => prerequisite.name === manager.name);
+  if (managerRange && managerPrerequisite && isValidRange(managerRange)) {
+    Object.assign(managerPrerequisite, { range: managerRange, rangeSource: `engines.${manager.name}` });
+  }
+
+  for (const configured of configuredPrerequisites) {
+    const existing = prerequisites.find(prerequisite => prerequisite.name === configured.name);
+    if (existing) {
+      Object.assign(existing, configured, {
+        install: { ...existing.install, ...configured.install },
+        rangeSource: configured.range ? "config" : existing.rangeSource
+      });
+    } else {
+      prerequisites.push({ ...configured, rangeSource: configured.range ? "config" : undefined });
+    }
+  }
+
+  return prerequisites;
+}
+
+// Node's version range from engines.node, .nvmrc or .node-version, in that order
+export function nodeVersionRange(projectRoot = process.cwd()): { range: string; rangeSource: string } | undefined {
+  const engine = readEngines(projectRoot).node;
+  if (engine && isValidRange(engine)) return { range: engine, rangeSource: "engines.node" };
+
+  for (const file of [".nvmrc", ".node-version"]) {
+    const path = join(projectRoot, file);
+    if (!existsSync(path)) continue;
+    const range = versionFileRange(readFileSync(path, "utf-8"));
+    if (range) return { range, rangeSource: file };
+  }
+  return undefined;
+}
+
+export function checkPrerequisite(prerequisite: ResolvedPrerequisite): PrerequisiteStatus {
+  const status = {
+    name: prerequisite.name,
+    required: prerequisite.required ?? true,
+    range: prerequisite.range,
+    rangeSource: prerequisite.rangeSource
+  };
+  let output: string;
+  try {
+    // Some tools (ssh -V) print their version on stderr
+    output = execSync(`${prerequisite.command} 2>&1`, { encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] });
+  } catch {
+    return { ...status, installed: false, satisfied: false };
+  }
+
+  const version = coerceVersion(output);
+  const satisfied = !prerequisite.range || !version || satisfies(version, prerequisite.range);
+  return { ...status, installed: true, version, satisfied };
+}
+
+/**
+ * The command that installs a prerequisite here: its entry for the project's
+ * package manager, a global install of its npm package, or its entry for the
+ * system installer.
+ */
+export function prerequisiteInstallCommand(
+  prerequisite: Prerequisite,
+  manager: PackageManager = detectPackageManager(),
+  installer: SystemInstaller | undefined = detectSystemInstaller()
+): string | undefined {
+  return prerequisite.install?.[manager.name]
+    ?? (prerequisite.npmPackage ? globalInstallCommand(manager, prerequisite.npmPackage) : undefined)
+    ?? (installer ? prerequisite.install?.[installer] : undefined);
+}
+
+/**
+ * What to pass to `nvm install` or `fnm install` for a Node.js range: the
+ * version itself when it is one, --lts when the range is open-ended, or the
+ * newest major the range allows.
+ */
+export function nodeVersionManagerSpec(range: string): string {
+  const trimmed = range.trim();
+  if (/^v?\d+(\.\d+){0,2}$/.test(trimmed)) return trimmed.replace(/^v/, "");
+  if (satisfies("999.0.0", range)) return "--lts";
+  for (let major = 99; major >= 0; major--) {
+    if (satisfies(`${major}.999.999`, range) || satisfies(`${major}.0.0`, range)) return String(major);
+  }
+  return "--lts";
+}
+
+// The system package manager, from the platform and /etc/os-release on Linux
+export function detectSystemInstaller(): SystemInstaller | undefined {
+  if (platform() === "darwin") return "brew";
+  if (platform() === "win32") return "winget";
+  if (platform() !== "linux") return undefined;
+
+  let osRelease = "";
+  try {
+    osRelease = readFileSync("/etc/os-release", "utf-8");
+  } catch {
+    return undefined;
+  }
+  const field = (name: string) => osRelease.match(new RegExp(`^${name}="?([^"\\n]*)"?`, "m"))?.[1] ?? "";
+  const ids = `${field("ID")} ${field("ID_LIKE")}`.toLowerCase().split(/\s+/);
+
+  if (ids.some(id => ["debian", "ubuntu"].includes(id))) return "apt";
+  if (ids.some(id => ["fedora", "rhel", "centos"].includes(id))) return "dnf";
+  if (ids.some(id => ["arch", "manjaro"].includes(id))) return "pacman";
+  if (ids.includes("alpine")) return "apk";
+  if (ids.some(id => id.startsWith("suse") || id.startsWith("opensuse"))) return "zypper";
+  return undefined;
+}
+
+export function validatePrerequisiteConfig(value: unknown, index: number): Prerequisite {
+  const prerequisite = value as Partial<Prerequisite> | null;
+  const prefix = `prerequisites[${index}]`;
+
+  if (!prerequisite || typeof prerequisite !== "object") {
+    throw new Error(`${prefix} must be an object`);
+  }
+  if (typeof prerequisite.name !== "string") {
+    throw new Error(`${prefix} needs a "name"`);
+  }
+  const builtin = BUILTIN_PREREQUISITES.some(existing => existing.name === prerequisite.name);
+  if (!builtin && typeof prerequisite.command !== "string") {
+    throw new Error(`${prefix} needs a "command" that prints the version, e.g. "docker --version"`);
+  }
+  if (prerequisite.range !== undefined && (typeof prerequisite.range !== "string" || !isValidRange(prerequisite.range))) {
+    throw new Error(`${prefix}.range is not a valid version range: ${prerequisite.range}`);
+  }
+  if (prerequisite.required !== undefined && typeof prerequisite.required !== "boolean") {
+    throw new Error(`${prefix}.required must be true or false`);
+  }
+  for (const key of ["command", "npmPackage", "docs"] as const) {
+    if (prerequisite[key] !== undefined && typeof prerequisite[key] !== "string") {
+      throw new Error(`${prefix}.${key} must be a string`);
+    }
+  }
+  if (prerequisite.install !== undefined) {
+    if (!prerequisite.install || typeof prerequisite.install !== "object" || Array.isArray(prerequisite.install)) {
+      throw new Error(`${prefix}.install must map installers to commands`);
+    }
+    for (const [installer, command] of Object.entries(prerequisite.install)) {
+      if (!INSTALLERS.includes(installer as Installer)) {
+        throw new Error(`${prefix}.install.${installer} is not one of ${INSTALLERS.join(", ")}`);
+      }
+      if (typeof command !== "string") {
+        throw new Error(`${prefix}.install.${installer} must be a command`);
+      }
+    }
+  }
+
+  return prerequisite as Prerequisite;
+}
+
+// Helper functions
+
+function packageManagerPrerequisite(manager: PackageManager): ResolvedPrerequisite {
+  // Corepack ships with Node and provides the pinned pnpm/yarn
+  const install: Partial<Record<Installer, string>> = manager.name === "bun"
+    ? { npm: "npm install -g bun", bun: "npm install -g bun", brew: "brew install oven-sh/bun/bun" }
+    : { [manager.name]: "corepack enable" };
+  return {
+    name: manager.name,
+    command: `${manager.bin} --version`,
+    range: manager.version ? `>=${manager.version}` : undefined,
+    rangeSource: manager.version ? "packageManager" : undefined,
+    required: true,
+    install
+  };
+}
+
+function readEngines(projectRoot: string): Record<string, string> {
+  const engines = readPackageJson(projectRoot)?.engines;
+  return engines && typeof engines === "object" ? engines : {};
+}
+
+// .nvmrc and .node-version hold a version ("20", "v20.11.1"), a range or an nvm alias
+function versionFileRange(content: string): string | undefined {
+  const value = content.split("\n").map(line => line.replace(/#.*/, "").trim()).find(Boolean);
+  if (!value) return undefined;
+
+  const lts = value.match(/^lts\/(\w+)$/i);
+  if (lts) {
+    const major = NODE_LTS_CODENAMES[lts[1].toLowerCase()];
+    // lts/*, node and stable name whatever is newest, which cannot be checked offline
+    return major ? `^${major}` : undefined;
+  }
+  return isValidRange(value) ? value : undefined;
+}
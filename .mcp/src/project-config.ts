@@ -0,0 +1,107 @@
+// project-config.ts
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { validateQualityGateConfig, type QualityGateConfig } from "./quality-gates.js";
+import { validateDetectorConfig, type DetectorConfig } from "./framework-detectors.js";
+import { validateNetworkConfig, type NetworkConfig } from "./network-probes.js";
+import { validatePrerequisiteConfig, type Prerequisite } from "./prerequisites.js";
+
+// Per-project settings, next to the deployment history and logs
+export const PROJECT_CONFIG_FILE = join(".mcp", "config.json");
+
+// Answers used instead of prompts in non-interactive mode
+export interface DeployDefaults {
+  target?: string;
+  projectType?: "frontend" | "backend" | "fullstack";
+  packages?: string[];
+  commitMessage?: string;
+}
+
+export interface ProjectConfig {
+  qualityGates?: QualityGateConfig;
+  // Extra framework detectors; one with a built-in id replaces the built-in
+  detectors?: DetectorConfig[];
+  deploy?: DeployDefaults;
+  // Endpoints and offline mode for the connectivity check
+  network?: NetworkConfig;
+  // Extra tools to check; one with a built-in name is merged over the built-in
+  prerequisites?: Prerequisite[];
+}
+
+const PROJECT_TYPES = ["frontend", "backend", "fullstack"];
+
+export function loadProjectConfig(projectRoot = process.cwd()): ProjectConfig {
+  const configPath = join(projectRoot, PROJECT_CONFIG_FILE);
+  if (!existsSync(configPath)) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    // A config that silently stops applying is worse than a clear failure
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: expected a JSON object`);
+  }
+
+  const config = parsed as ProjectConfig;
+  if (config.qualityGates !== undefined) {
+    try {
+      config.qualityGates = validateQualityGateConfig(config.qualityGates);
+    } catch (error) {
+      throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  if (config.detectors !== undefined) {
+    if (!Array.isArray(config.detectors)) {
+      throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: "detectors" must be a list`);
+    }
+    try {
+      config.detectors = config.detectors.map(validateDetectorConfig);
+    } catch (error) {
+      throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  if (config.deploy !== undefined) {
+    validateDeployDefaults(config.deploy);
+  }
+  if (config.prerequisites !== undefined) {
+    if (!Array.isArray(config.prerequisites)) {
+      throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: "prerequisites" must be a list`);
+    }
+    try {
+      config.prerequisites = config.prerequisites.map(validatePrerequisiteConfig);
+    } catch (error) {
+      throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  if (config.network !== undefined) {
+    try {
+      config.network = validateNetworkConfig(config.network);
+    } catch (error) {
+      throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return config;
+}
+
+// Helper functions
+
+function validateDeployDefaults(deploy: unknown): void {
+  const fail = (message: string) => {
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${message}`);
+  };
+  if (!deploy || typeof deploy !== "object" || Array.isArray(deploy)) fail(`"deploy" must be an object`);
+
+  const { target, projectType, packages, commitMessage } = deploy as Record<string, unknown>;
+  if (target !== undefined && typeof target !== "string") fail(`"deploy.target" must be a string`);
+  if (commitMessage !== undefined && typeof commitMessage !== "string") fail(`"deploy.commitMessage" must be a string`);
+  if (projectType !== undefined && !PROJECT_TYPES.includes(projectType as string)) {
+    fail(`"deploy.projectType" must be one of ${PROJECT_TYPES.join(", ")}`);
+  }
+  if (packages !== undefined && (!Array.isArray(packages) || packages.some(name => typeof name !== "string"))) {
+    fail(`"deploy.packages" must be a list of package names or paths`);
+  }
+}
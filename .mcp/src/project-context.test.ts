@@ -0,0 +1,17 @@
+// project-context.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDeploymentGuide, projectContextScan } from "./project-context.js";
+import { git, tempProject } from "./test-fixtures/projects.js";
+
+describe("generateDeploymentGuide", () => {
+  test("deploys to the target the branch or the caller picks", async () => {
+    const root = tempProject({ "package.json": { name: "app", scripts: { build: "tsc" } } }, { git: "feature" });
+    git(root, "commit", "--quiet", "--allow-empty", "-m", "init");
+    const context = await projectContextScan(root);
+
+    assert.match(generateDeploymentGuide(context, root), /# Deploy to Vercel \(preview\)\nvercel\n/);
+    assert.match(generateDeploymentGuide(context, root, "production"), /\nvercel --prod\n/);
+    assert.match(generateDeploymentGuide(context, root, "staging"), /\nvercel --target=staging\n/);
+  });
+});
@@ -1,9 +1,29 @@
 // project-context.ts
-import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
-import { join, relative } from "node:path";
-import { parse as parseDotenv } from "dotenv";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  detectPackageManager,
+  installCommand,
+  runScriptCommand,
+  type PackageManagerName
+} from "./package-manager.js";
+import { discoverWorkspace, type WorkspaceTool } from "./workspaces.js";
+import {
+  detectFrameworks,
+  formatDetection,
+  MIN_CONFIDENCE,
+  resolveProjectType,
+  type DetectorConfig,
+  type FrameworkDetection
+} from "./framework-detectors.js";
+import { loadProjectConfig } from "./project-config.js";
+import { scanProjectTree } from "./project-scanner.js";
+import { loadEnvironment, type EnvironmentMode } from "./env-loader.js";
+import { auditEnvironment, envAuditWarnings, type EnvAudit } from "./env-audit.js";
+import { deployInputs } from "./interaction.js";
+import { resolveDeploymentTarget, vercelDeployArgs, type DeploymentTarget } from "./vercel-helper.js";
 
-interface ProjectContext {
+export interface ProjectContext {
   projectType?: string;
   technologies: string[];
   fileCount: number;
@@ -12,20 +32,45 @@ interface ProjectContext {
   hasPackageJson: boolean;
   hasEnvFile: boolean;
   framework?: string;
+  // Every framework with supporting evidence, most confident first
+  detections: FrameworkDetection[];
+  packageManager?: PackageManagerName;
   dependencies?: Record<string, string>;
   structure: FileStructure[];
+  // Set when the file limit cut the structure short
+  truncated?: boolean;
+  // Set for monorepos; each package is scanned as its own project
+  workspace?: WorkspaceContext;
 }
 
-interface FileStructure {
+export interface WorkspaceContext {
+  tools: WorkspaceTool[];
+  packages: WorkspacePackageContext[];
+}
+
+export interface WorkspacePackageContext {
+  name: string;
+  // Relative to the workspace root
+  path: string;
+  context: ProjectContext;
+}
+
+export interface FileStructure {
   path: string;
   type: "file" | "directory";
   size?: number;
 }
 
-interface ScanOptions {
+export interface ScanOptions {
   includeNodeModules?: boolean;
   maxDepth?: number;
   includeContent?: boolean;
+  // Scan the packages of a monorepo as well (default true)
+  includeWorkspaces?: boolean;
+  // Stop listing files beyond this many (default 20000)
+  maxFiles?: number;
+  // Extra framework detectors (default: the ones in .mcp/config.json)
+  detectors?: DetectorConfig[];
 }
 
 export async function projectContextScan(
@@ -35,11 +80,15 @@ export async function projectContextScan(
   const {
     includeNodeModules = false,
     maxDepth = 5,
-    includeContent = false
+    includeContent = false,
+    includeWorkspaces = true,
+    maxFiles,
+    detectors = loadProjectConfig(rootPath).detectors ?? []
   } = options;
 
   const context: ProjectContext = {
     technologies: [],
+    detections: [],
     fileCount: 0,
     directoryCount: 0,
     hasGit: false,
@@ -52,6 +101,9 @@ export async function projectContextScan(
   context.hasGit = existsSync(join(rootPath, ".git"));
   context.hasPackageJson = existsSync(join(rootPath, "package.json"));
   context.hasEnvFile = existsSync(join(rootPath, ".env"));
+  if (context.hasPackageJson) {
+    context.packageManager = detectPackageManager(rootPath).name;
+  }
 
   // Parse package.json if exists
   if (context.hasPackageJson) {
@@ -66,67 +118,48 @@ export async function projectContextScan(
 
       // Detect technologies from dependencies
       context.technologies = detectTechnologies(context.dependencies || {});
-      context.framework = detectFramework(context.dependencies || {});
-      
-      if (context.framework) {
-        context.projectType = detectProjectType(context.framework);
-      }
     } catch (error) {
       console.warn("Failed to parse package.json:", error);
     }
   }
 
-  // Scan directory structure
-  scanDirectory(rootPath, context, rootPath, 0, maxDepth, includeNodeModules);
-
-  return context;
-}
+  // Static sites and plain api/ functions have no package.json, so detect regardless
+  context.detections = detectFrameworks(rootPath, context.dependencies, detectors);
+  const [framework] = context.detections;
+  if (framework && framework.confidence >= MIN_CONFIDENCE) {
+    context.framework = framework.name;
+  }
+  context.projectType = resolveProjectType(context.detections);
 
-function scanDirectory(
-  dirPath: string,
-  context: ProjectContext,
-  rootPath: string,
-  currentDepth: number,
-  maxDepth: number,
-  includeNodeModules: boolean
-): void {
-  if (currentDepth > maxDepth) return;
+  // Scan directory structure
+  const tree = await scanProjectTree(rootPath, { maxDepth, includeNodeModules, maxFiles });
+  context.structure = tree.entries;
+  context.fileCount = tree.fileCount;
+  context.directoryCount = tree.directoryCount;
+  context.truncated = tree.truncated;
 
-  try {
-    const entries = readdirSync(dirPath);
-    
-    for (const entry of entries) {
-      // Skip node_modules unless explicitly included
-      if (!includeNodeModules && entry === "node_modules") continue;
-      
-      // Skip hidden files/directories
-      if (entry.startsWith(".") && entry !== ".env") continue;
-      
-      const fullPath = join(dirPath, entry);
-      const stats = statSync(fullPath);
-      const relativePath = relative(rootPath, fullPath);
-      
-      if (stats.isDirectory()) {
-        context.directoryCount++;
-        context.structure.push({
-          path: relativePath,
-          type: "directory"
-        });
-        
-        // Recursively scan subdirectories
-        scanDirectory(fullPath, context, rootPath, currentDepth + 1, maxDepth, includeNodeModules);
-      } else {
-        context.fileCount++;
-        context.structure.push({
-          path: relativePath,
-          type: "file",
-          size: stats.size
+  if (includeWorkspaces) {
+    const workspace = discoverWorkspace(rootPath);
+    if (workspace) {
+      const packages: WorkspacePackageContext[] = [];
+      for (const pkg of workspace.packages) {
+        packages.push({
+          name: pkg.name,
+          path: pkg.path,
+          // Detectors configured at the repository root apply to every package
+          context: await projectContextScan(pkg.root, { ...options, includeWorkspaces: false, detectors })
         });
       }
+      context.workspace = { tools: workspace.tools, packages };
+
+      // The root of a monorepo rarely has a framework of its own
+      if (!context.framework) {
+        context.projectType = "monorepo";
+      }
     }
-  } catch (error) {
-    console.warn(`Failed to scan directory ${dirPath}:`, error);
   }
+
+  return context;
 }
 
 function detectTechnologies(dependencies: Record<string, string>): string[] {
@@ -138,9 +171,17 @@ function detectTechnologies(dependencies: Record<string, string>): string[] {
     "Vue": ["vue"],
     "Angular": ["@angular/core"],
     "Next.js": ["next"],
+    "Svelte": ["svelte"],
+    "SvelteKit": ["@sveltejs/kit"],
+    "Nuxt": ["nuxt"],
+    "Remix": ["@remix-run/react"],
+    "Astro": ["astro"],
+    "Vite": ["vite"],
     "Express": ["express"],
     "Fastify": ["fastify"],
     "NestJS": ["@nestjs/core"],
+    "Koa": ["koa"],
+    "Hono": ["hono"],
     "TypeScript": ["typescript"],
     "Tailwind CSS": ["tailwindcss"],
     "Prisma": ["prisma", "@prisma/client"],
@@ -163,70 +204,31 @@ function detectTechnologies(dependencies: Record<string, string>): string[] {
   return technologies;
 }
 
-function detectFramework(dependencies: Record<string, string>): string | undefined {
-  const depKeys = Object.keys(dependencies || {});
-  
-  if (depKeys.includes("next")) return "Next.js";
-  if (depKeys.includes("gatsby")) return "Gatsby";
-  if (depKeys.includes("@angular/core")) return "Angular";
-  if (depKeys.includes("vue")) return "Vue";
-  if (depKeys.includes("react")) return "React";
-  if (depKeys.includes("express")) return "Express";
-  if (depKeys.includes("fastify")) return "Fastify";
-  if (depKeys.includes("@nestjs/core")) return "NestJS";
-  
-  return undefined;
-}
-
-function detectProjectType(framework: string): string {
-  const frontendFrameworks = ["React", "Vue", "Angular", "Next.js", "Gatsby"];
-  const backendFrameworks = ["Express", "Fastify", "NestJS"];
-  
-  if (frontendFrameworks.includes(framework)) return "frontend";
-  if (backendFrameworks.includes(framework)) return "backend";
-  
-  return "unknown";
-}
-
 // Additional helper functions for deployment preparation
 
-export async function loadProjectEnvironment(rootPath: string): Promise<Record<string, string>> {
-  const envPath = join(rootPath, ".env");
-  const env: Record<string, string> = {};
-  
-  if (existsSync(envPath)) {
-    try {
-      const envContent = readFileSync(envPath, "utf-8");
-      Object.assign(env, parseDotenv(envContent));
-    } catch (error) {
-      console.warn("Failed to load .env file:", error);
-    }
-  }
-  
-  // Also check for .env.local, .env.production, etc.
-  const envFiles = [".env.local", ".env.production", ".env.development"];
-  for (const envFile of envFiles) {
-    const path = join(rootPath, envFile);
-    if (existsSync(path)) {
-      try {
-        const content = readFileSync(path, "utf-8");
-        Object.assign(env, parseDotenv(content));
-      } catch (error) {
-        console.warn(`Failed to load ${envFile}:`, error);
-      }
-    }
-  }
-  
-  return env;
+// The values a build in the given mode would see; see env-loader.ts for precedence and sources
+export async function loadProjectEnvironment(
+  rootPath: string,
+  mode: EnvironmentMode = "development"
+): Promise<Record<string, string>> {
+  return loadEnvironment(rootPath, { mode }).values;
 }
 
-export async function analyzeDeploymentReadiness(rootPath: string): Promise<{
+export interface DeploymentReadiness {
   ready: boolean;
   issues: string[];
   warnings: string[];
-}> {
+  configFiles: string[];
+  envAudit: EnvAudit;
+}
+
+export async function analyzeDeploymentReadiness(
+  rootPath: string,
+  target: DeploymentTarget = "production"
+): Promise<DeploymentReadiness> {
   const issues: string[] = [];
   const warnings: string[] = [];
+  const configFiles: string[] = [];
   
   // Check for package.json
   if (!existsSync(join(rootPath, "package.json"))) {
@@ -260,16 +262,16 @@ export async function analyzeDeploymentReadiness(rootPath: string): Promise<{
   }
   
   // Check for common configuration files
-  const configFiles = {
+  const knownConfigFiles = {
     "Next.js": "next.config.js",
     "Vite": "vite.config.js",
     "Webpack": "webpack.config.js",
     "TypeScript": "tsconfig.json"
   };
   
-  for (const [tech, file] of Object.entries(configFiles)) {
+  for (const [tech, file] of Object.entries(knownConfigFiles)) {
     if (existsSync(join(rootPath, file))) {
-      console.log(`Found ${tech} configuration`);
+      configFiles.push(`${tech} (${file})`);
     }
   }
   
@@ -282,15 +284,24 @@ export async function analyzeDeploymentReadiness(rootPath: string): Promise<{
   if (!existsSync(join(rootPath, "README.md"))) {
     warnings.push("No README.md file found");
   }
+
+  // Compare the variables the code reads with the .env files
+  const envAudit = await auditEnvironment(rootPath, { target });
+  warnings.push(...envAuditWarnings(envAudit));
   
   return {
     ready: issues.length === 0,
     issues,
-    warnings
+    warnings,
+    configFiles,
+    envAudit
   };
 }
 
-export function generateDeploymentGuide(context: ProjectContext): string {
+// The deploy command is for the target an `aigs deploy` there would pick, unless one is given
+export function generateDeploymentGuide(context: ProjectContext, projectRoot = process.cwd(), target?: string): string {
+  const packageManager = detectPackageManager(projectRoot);
+  const deployTarget = resolveDeploymentTarget(target ?? deployInputs(projectRoot).target, projectRoot);
   let guide = "# Deployment Guide\n\n";
   
   if (context.framework) {
@@ -320,30 +331,70 @@ export function generateDeploymentGuide(context: ProjectContext): string {
   guide += "\n## Deployment Commands:\n";
   guide += "```bash\n";
   guide += "# Install dependencies\n";
-  guide += "npm install\n\n";
+  guide += `${installCommand(packageManager, { frozen: true })}\n\n`;
   guide += "# Build the project\n";
-  guide += "npm run build\n\n";
-  guide += "# Deploy to Vercel\n";
-  guide += "vercel --prod\n";
+  guide += `${runScriptCommand(packageManager, "build")}\n\n`;
+  guide += `# Deploy to Vercel (${deployTarget})\n`;
+  guide += `${["vercel", ...vercelDeployArgs(deployTarget)].join(" ")}\n`;
   guide += "```\n";
   
   return guide;
 }
 
+export function formatProjectContext(context: ProjectContext): string {
+  return [
+    `Framework: ${context.framework || "Not detected"}`,
+    `Project Type: ${context.projectType || "Unknown"}`,
+    ...(context.detections.length ? [
+      "Detected:",
+      ...context.detections.map(detection => `  - ${formatDetection(detection)}`)
+    ] : []),
+    `Technologies: ${context.technologies.join(", ") || "None detected"}`,
+    `Package Manager: ${context.packageManager || "None"}`,
+    `Files: ${context.fileCount}${context.truncated ? " (limit reached, more not listed)" : ""}`,
+    `Directories: ${context.directoryCount}`,
+    `Has Git: ${context.hasGit ? "Yes" : "No"}`,
+    `Has .env: ${context.hasEnvFile ? "Yes" : "No"}`,
+    ...(context.workspace ? [
+      `Workspace (${context.workspace.tools.join(", ")}): ${context.workspace.packages.length} packages`,
+      ...context.workspace.packages.map(pkg =>
+        `  - ${pkg.name} (${pkg.path}): ${pkg.context.framework || "no framework"}, ${pkg.context.projectType || "unknown"}`
+      )
+    ] : [])
+  ].join("\n");
+}
+
+export function formatDeploymentReadiness(readiness: DeploymentReadiness): string {
+  let text = readiness.ready ? "✅ Project is ready for deployment!\n" : "❌ Project is not ready for deployment\n";
+
+  if (readiness.issues.length > 0) {
+    text += "\nIssues:\n" + readiness.issues.map(issue => `- ${issue}`).join("\n") + "\n";
+  }
+  if (readiness.warnings.length > 0) {
+    text += "\nWarnings:\n" + readiness.warnings.map(warning => `- ${warning}`).join("\n") + "\n";
+  }
+  if (readiness.configFiles.length > 0) {
+    text += "\nConfiguration found:\n" + readiness.configFiles.map(config => `- ${config}`).join("\n") + "\n";
+  }
+
+  return text;
+}
+
+export interface ProjectAnalysis {
+  context: ProjectContext;
+  readiness: DeploymentReadiness;
+}
+
 // Export main function for CLI usage
-export async function discoverProjectContext(): Promise<void> {
-  const context = await projectContextScan(process.cwd());
+export async function discoverProjectContext(rootPath = process.cwd()): Promise<ProjectAnalysis> {
+  const context = await projectContextScan(rootPath);
   
   console.log("\n📊 Project Context Summary:");
-  console.log(`Framework: ${context.framework || "Not detected"}`);
-  console.log(`Project Type: ${context.projectType || "Unknown"}`);
-  console.log(`Technologies: ${context.technologies.join(", ") || "None detected"}`);
-  console.log(`Files: ${context.fileCount}`);
-  console.log(`Directories: ${context.directoryCount}`);
-  console.log(`Has Git: ${context.hasGit ? "Yes" : "No"}`);
-  console.log(`Has .env: ${context.hasEnvFile ? "Yes" : "No"}`);
+  console.log(formatProjectContext(context));
   
-  const readiness = await analyzeDeploymentReadiness(process.cwd());
+  const readiness = await analyzeDeploymentReadiness(rootPath);
+  
+  readiness.configFiles.forEach(config => console.log(`Found ${config} configuration`));
   
   if (!readiness.ready) {
     console.log("\n❌ Deployment Issues:");
@@ -358,6 +409,8 @@ export async function discoverProjectContext(): Promise<void> {
   if (readiness.ready) {
     console.log("\n✅ Project is ready for deployment!");
   }
+
+  return { context, readiness };
 }
 
 // Function for deployment validation
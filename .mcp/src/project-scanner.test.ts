@@ -0,0 +1,79 @@
+// project-scanner.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, symlinkSync } from "node:fs";
+import { join } from "node:path";
+import { scanCachePath, scanProjectTree } from "./project-scanner.js";
+import { tempProject, writeProjectFiles } from "./test-fixtures/projects.js";
+
+const paths = async (root: string, options: Parameters<typeof scanProjectTree>[1] = {}) =>
+  (await scanProjectTree(root, { cache: false, ...options })).entries.map(entry => entry.type === "directory" ? `${entry.path}/` : entry.path);
+
+describe("scanProjectTree", () => {
+  test("leaves out ignored, hidden and dependency files but keeps .env", async () => {
+    const root = tempProject({
+      ".gitignore": "dist/\n*.log\n",
+      ".vercelignore": "fixtures\n",
+      ".env": "A=1\n",
+      ".secret": "x",
+      "app.log": "",
+      "dist/index.js": "",
+      "fixtures/a.json": "{}",
+      "node_modules/pkg/index.js": "",
+      "src/index.ts": "",
+      "src/generated/.gitignore": "*.js\n",
+      "src/generated/types.js": "",
+      "src/generated/types.d.ts": ""
+    });
+
+    assert.deepEqual(await paths(root, { ignorePatterns: ["*.d.ts"] }), [".env", "src/", "src/generated/", "src/index.ts"]);
+    assert.deepEqual(await paths(root, { includeHidden: true, respectIgnoreFiles: false, includeNodeModules: true }), [
+      ".env", ".gitignore", ".secret", ".vercelignore", "app.log", "dist/", "dist/index.js", "fixtures/", "fixtures/a.json",
+      "node_modules/", "node_modules/pkg/", "node_modules/pkg/index.js",
+      "src/", "src/generated/", "src/generated/.gitignore", "src/generated/types.d.ts", "src/generated/types.js", "src/index.ts"
+    ]);
+  });
+
+  test("stops at the depth and file limits", async () => {
+    const root = tempProject({ "a.txt": "", "b.txt": "", "one/two/three.txt": "" });
+
+    assert.deepEqual(await paths(root, { maxDepth: 0 }), ["a.txt", "b.txt", "one/"]);
+    assert.deepEqual(await paths(root, { maxDepth: -1 }), []);
+
+    const limited = await scanProjectTree(root, { cache: false, maxFiles: 2 });
+    assert.equal(limited.truncated, true);
+    assert.equal(limited.fileCount, 2);
+  });
+
+  test("reports symlinks that point back up the tree instead of following them", async () => {
+    const root = tempProject({ "src/index.ts": "" });
+    symlinkSync(root, join(root, "src", "loop"));
+
+    const result = await scanProjectTree(root, { cache: false });
+    assert.deepEqual(result.symlinkLoops, ["src/loop"]);
+  });
+
+  test("reuses directory listings until a directory's mtime changes", async () => {
+    const root = tempProject({ "src/a.ts": "", "docs/guide.md": "" });
+
+    const first = await scanProjectTree(root);
+    assert.equal(first.cachedDirectories, 0);
+    assert.equal(existsSync(scanCachePath(root)), true);
+
+    const second = await scanProjectTree(root);
+    assert.equal(second.cachedDirectories, 3);
+    assert.deepEqual(second.entries, first.entries);
+
+    writeProjectFiles(root, { "src/b.ts": "export {};" });
+    const third = await scanProjectTree(root);
+    assert.equal(third.cachedDirectories, 2);
+    assert.deepEqual(third.entries.find(entry => entry.path === "src/b.ts"), { path: "src/b.ts", type: "file", size: 10 });
+  });
+
+  test("writes no cache when asked not to", async () => {
+    const root = tempProject({ "index.js": "" });
+    await scanProjectTree(root, { cache: false });
+
+    assert.equal(existsSync(scanCachePath(root)), false);
+  });
+});
@@ -0,0 +1,290 @@
+// project-scanner.ts
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, realpath, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { isIgnored, parseIgnoreRules, type IgnoreRule } from "./ignore-rules.js";
+
+export interface ScanEntry {
+  path: string;
+  type: "file" | "directory";
+  size?: number;
+}
+
+export interface TreeScanOptions {
+  // 0 lists the root only; -1 lists nothing (default 5)
+  maxDepth?: number;
+  includeNodeModules?: boolean;
+  // The scan stops adding files beyond this many (default 20000)
+  maxFiles?: number;
+  // File system calls in flight at once (default 16)
+  concurrency?: number;
+  // Skip what the ignore files exclude (default true)
+  respectIgnoreFiles?: boolean;
+  // Ignore files read from the root (default .gitignore and .vercelignore); nested ones apply for .gitignore
+  ignoreFiles?: string[];
+  // Extra patterns in .gitignore syntax
+  ignorePatterns?: string[];
+  // List dotfiles too; .git is always skipped (default false, which still lists .env)
+  includeHidden?: boolean;
+  // Reuse directory listings whose mtime has not changed since the last scan (default true)
+  cache?: boolean;
+}
+
+export interface TreeScanResult {
+  entries: ScanEntry[];
+  fileCount: number;
+  directoryCount: number;
+  // Set when maxFiles cut the scan short
+  truncated: boolean;
+  // Symlinked directories that were not followed because they point back up the tree
+  symlinkLoops: string[];
+  // Directories listed from the cache instead of the disk
+  cachedDirectories: number;
+}
+
+const DEFAULT_MAX_DEPTH = 5;
+const DEFAULT_MAX_FILES = 20000;
+const DEFAULT_CONCURRENCY = 16;
+const CACHE_VERSION = 1;
+
+// Read as ignore rules rather than listed; .gitignore files also apply to their subdirectories
+const DEFAULT_IGNORE_FILES = [".gitignore", ".vercelignore"];
+
+interface CachedEntry {
+  name: string;
+  kind: "file" | "directory" | "symlink" | "other";
+  size?: number;
+}
+
+interface CachedDirectory {
+  mtimeMs: number;
+  entries: CachedEntry[];
+}
+
+interface ScanCache {
+  version: number;
+  root: string;
+  directories: Record<string, CachedDirectory>;
+}
+
+interface ScanState {
+  root: string;
+  maxDepth: number;
+  maxFiles: number;
+  includeNodeModules: boolean;
+  includeHidden: boolean;
+  respectIgnoreFiles: boolean;
+  nestedGitignore: boolean;
+  limit: <T>(task: () => Promise<T>) => Promise<T>;
+  previous: Record<string, CachedDirectory>;
+  listed: Record<string, CachedDirectory>;
+  result: TreeScanResult;
+}
+
+/**
+ * Walks a project asynchronously with a bounded number of concurrent file
+ * system calls. The cache lives outside the project so it never ends up in a
+ * commit or a deployment. Sizes of files edited in place refresh once their
+ * directory changes.
+ */
+export async function scanProjectTree(projectRoot: string, options: TreeScanOptions = {}): Promise<TreeScanResult> {
+  const root = resolve(projectRoot);
+  const useCache = options.cache ?? true;
+  const state: ScanState = {
+    root,
+    maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    maxFiles: options.maxFiles ?? DEFAULT_MAX_FILES,
+    includeNodeModules: options.includeNodeModules ?? false,
+    includeHidden: options.includeHidden ?? false,
+    respectIgnoreFiles: options.respectIgnoreFiles ?? true,
+    nestedGitignore: (options.ignoreFiles ?? DEFAULT_IGNORE_FILES).includes(".gitignore"),
+    limit: createLimiter(options.concurrency ?? DEFAULT_CONCURRENCY),
+    previous: useCache ? await readScanCache(root) : {},
+    listed: {},
+    result: { entries: [], fileCount: 0, directoryCount: 0, truncated: false, symlinkLoops: [], cachedDirectories: 0 }
+  };
+
+  if (state.maxDepth < 0) return state.result;
+
+  const rootRules = state.respectIgnoreFiles
+    ? (await Promise.all((options.ignoreFiles ?? DEFAULT_IGNORE_FILES).map(file => readIgnoreFile(join(root, file), "")))).flat()
+    : [];
+  rootRules.push(...parseIgnoreRules((options.ignorePatterns ?? []).join("\n")));
+  const rootRealPath = await realpath(root).catch(() => root);
+  await walk(state, root, "", rootRealPath, 0, rootRules, new Set([rootRealPath]));
+
+  state.result.entries.sort((a, b) => a.path.localeCompare(b.path));
+  if (useCache) {
+    await writeScanCache(root, { ...state.previous, ...state.listed });
+  }
+  return state.result;
+}
+
+export function scanCachePath(projectRoot: string): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  const key = createHash("sha1").update(resolve(projectRoot)).digest("hex").slice(0, 16);
+  return join(process.env.MCP_SCAN_CACHE_DIR || join(cacheHome, "mcp-project-scan"), `${key}.json`);
+}
+
+// Helper functions
+
+async function walk(
+  state: ScanState,
+  dir: string,
+  relativeDir: string,
+  realDir: string,
+  depth: number,
+  rules: IgnoreRule[],
+  ancestors: Set<string>
+): Promise<void> {
+  if (depth > state.maxDepth || state.result.truncated) return;
+
+  const entries = await listDirectory(state, dir, relativeDir);
+  if (!entries) return;
+
+  if (state.respectIgnoreFiles && state.nestedGitignore && relativeDir && entries.some(entry => entry.name === ".gitignore")) {
+    rules = [...rules, ...await readIgnoreFile(join(dir, ".gitignore"), relativeDir)];
+  }
+
+  const subdirectories: Array<{ path: string; relativePath: string; realPath: string; rules: IgnoreRule[] }> = [];
+
+  for (const entry of entries) {
+    // Hidden files stay out of the structure, except the .env that deployments care about
+    if (entry.name === ".git") continue;
+    if (!state.includeHidden && entry.name.startsWith(".") && entry.name !== ".env") continue;
+    if (entry.name === "node_modules" && !state.includeNodeModules) continue;
+
+    const fullPath = join(dir, entry.name);
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+    let kind = entry.kind;
+    let size = entry.size;
+    let realPath = join(realDir, entry.name);
+    if (kind === "symlink") {
+      // Symlinks are resolved on every scan; their targets can change without touching the directory
+      const target = await state.limit(() => stat(fullPath)).catch(() => undefined);
+      if (!target) continue;
+      kind = target.isDirectory() ? "directory" : target.isFile() ? "file" : "other";
+      size = target.isFile() ? target.size : undefined;
+      if (kind === "directory") {
+        realPath = await state.limit(() => realpath(fullPath));
+        if (ancestors.has(realPath)) {
+          state.result.symlinkLoops.push(relativePath);
+          continue;
+        }
+      }
+    }
+    if (kind === "other") continue;
+
+    const isDirectory = kind === "directory";
+    const exempt = entry.name === "node_modules" && state.includeNodeModules;
+    if (!exempt && rules.length > 0 && isIgnored(rules, relativePath, isDirectory)) continue;
+
+    if (isDirectory) {
+      state.result.directoryCount++;
+      state.result.entries.push({ path: relativePath, type: "directory" });
+      // Asking for node_modules overrides the ignore files for everything inside it
+      subdirectories.push({ path: fullPath, relativePath, realPath, rules: exempt ? [] : rules });
+    } else {
+      if (state.result.fileCount >= state.maxFiles) {
+        state.result.truncated = true;
+        return;
+      }
+      state.result.fileCount++;
+      state.result.entries.push({ path: relativePath, type: "file", size });
+    }
+  }
+
+  await Promise.all(subdirectories.map(subdirectory =>
+    walk(
+      state,
+      subdirectory.path,
+      subdirectory.relativePath,
+      subdirectory.realPath,
+      depth + 1,
+      subdirectory.rules,
+      new Set([...ancestors, subdirectory.realPath])
+    )
+  ));
+}
+
+async function listDirectory(state: ScanState, dir: string, relativeDir: string): Promise<CachedEntry[] | undefined> {
+  const key = relativeDir || ".";
+  try {
+    const { mtimeMs } = await state.limit(() => stat(dir));
+    const cached = state.previous[key];
+    if (cached && cached.mtimeMs === mtimeMs) {
+      state.result.cachedDirectories++;
+      state.listed[key] = cached;
+      return cached.entries;
+    }
+
+    const dirents = await state.limit(() => readdir(dir, { withFileTypes: true }));
+    const entries = await Promise.all(dirents.map(async (dirent): Promise<CachedEntry> => {
+      if (dirent.isSymbolicLink()) return { name: dirent.name, kind: "symlink" };
+      if (dirent.isDirectory()) return { name: dirent.name, kind: "directory" };
+      if (!dirent.isFile()) return { name: dirent.name, kind: "other" };
+      const info = await state.limit(() => stat(join(dir, dirent.name))).catch(() => undefined);
+      return { name: dirent.name, kind: "file", size: info?.size };
+    }));
+
+    state.listed[key] = { mtimeMs, entries };
+    return entries;
+  } catch (error) {
+    console.warn(`Failed to scan directory ${dir}:`, error);
+    return undefined;
+  }
+}
+
+async function readIgnoreFile(filePath: string, base: string): Promise<IgnoreRule[]> {
+  try {
+    return parseIgnoreRules(await readFile(filePath, "utf-8"), base);
+  } catch {
+    return [];
+  }
+}
+
+function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      // The finishing task hands its slot straight to the next one in line
+      await new Promise<void>(resolveSlot => waiting.push(resolveSlot));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+async function readScanCache(root: string): Promise<Record<string, CachedDirectory>> {
+  try {
+    const cache = JSON.parse(await readFile(scanCachePath(root), "utf-8")) as ScanCache;
+    return cache.version === CACHE_VERSION && cache.root === root ? cache.directories : {};
+  } catch {
+    return {};
+  }
+}
+
+async function writeScanCache(root: string, directories: Record<string, CachedDirectory>): Promise<void> {
+  const cachePath = scanCachePath(root);
+  const cache: ScanCache = { version: CACHE_VERSION, root, directories };
+  try {
+    await mkdir(dirname(cachePath), { recursive: true });
+    await writeFile(cachePath, JSON.stringify(cache));
+  } catch {
+    // The cache only saves time; a read-only home directory must not fail the scan
+  }
+}
@@ -0,0 +1,78 @@
+// quality-gates.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { loadProjectConfig, PROJECT_CONFIG_FILE } from "./project-config.js";
+import { detectQualityGates, formatQualityGateReport, runQualityGates, validateQualityGateConfig, type QualityGate } from "./quality-gates.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+const nodeCommand = (code: string) => `"${process.execPath}" -e "${code}"`;
+
+describe("detectQualityGates", () => {
+  test("takes gates from package.json scripts and skips the npm init test placeholder", async () => {
+    const root = tempProject({
+      "package.json": { scripts: { lint: "eslint .", test: "echo \"Error: no test specified\" && exit 1", build: "next build" } }
+    });
+
+    const { gates, skipped } = await detectQualityGates(root);
+
+    assert.deepEqual(gates.map(gate => `${gate.name} ${gate.command} ${gate.required}`), ["lint npm run lint false", "build npm run build true"]);
+    assert.deepEqual(skipped, ["typecheck", "test"]);
+  });
+
+  test("applies configured modes, commands and timeouts", async () => {
+    const root = tempProject({ "package.json": { scripts: { lint: "eslint .", build: "vite build" } } });
+
+    const { gates, skipped } = await detectQualityGates(root, {
+      lint: "required",
+      build: "off",
+      test: { command: "node --test", mode: "optional", timeoutMs: 5000 }
+    });
+
+    assert.deepEqual(gates.map(gate => [gate.name, gate.command, gate.required, gate.timeoutMs]), [
+      ["lint", "npm run lint", true, 10 * 60 * 1000],
+      ["test", "node --test", false, 5000]
+    ]);
+    assert.deepEqual(skipped, ["typecheck", "build"]);
+  });
+});
+
+describe("runQualityGates", () => {
+  test("runs every gate and only fails on required ones", async (t) => {
+    // Node 20's test runner intermittently fails to parse progress lines written next to its own messages
+    t.mock.method(console, "log", () => undefined);
+    const root = tempProject();
+    const gate = (name: QualityGate["name"], code: string, required: boolean): QualityGate =>
+      ({ name, command: nodeCommand(code), required, timeoutMs: 30000 });
+
+    const optionalFailure = await runQualityGates(root, [gate("lint", "process.exit(1)", false), gate("test", "console.log('ok')", true)]);
+    assert.equal(optionalFailure.passed, true);
+    assert.deepEqual(optionalFailure.results.map(result => result.passed), [false, true]);
+    assert.equal(optionalFailure.results[1].output, "ok");
+
+    const requiredFailure = await runQualityGates(root, [gate("build", "console.error('broken'); process.exit(2)", true)], ["lint"]);
+    assert.equal(requiredFailure.passed, false);
+    assert.equal(requiredFailure.results[0].output, "broken");
+    assert.match(formatQualityGateReport(requiredFailure), /^Quality gates failed:\n {2}build {6}❌ failed .*\n {2}Skipped: lint$/);
+  });
+});
+
+describe("validateQualityGateConfig", () => {
+  test("accepts modes and settings objects", () => {
+    const config = { lint: "off", test: { mode: "optional", command: "vitest run", cwd: "web", timeoutMs: 1000 } };
+    assert.deepEqual(validateQualityGateConfig(config), config);
+  });
+
+  test("rejects unknown gates, misspelt modes and malformed settings", () => {
+    assert.throws(() => validateQualityGateConfig([]), /"qualityGates" must be an object/);
+    assert.throws(() => validateQualityGateConfig({ tests: "off" }), /"qualityGates.tests" is not a quality gate/);
+    assert.throws(() => validateQualityGateConfig({ lint: "requried" }), /"qualityGates.lint" must be one of required, optional, off/);
+    assert.throws(() => validateQualityGateConfig({ build: { command: ["npm", "run", "build"] } }), /"qualityGates.build".command/);
+    assert.throws(() => validateQualityGateConfig({ test: { timeoutMs: "60s" } }), /"qualityGates.test".timeoutMs/);
+  });
+
+  test("makes loadProjectConfig fail on an invalid section", () => {
+    const root = tempProject({ [PROJECT_CONFIG_FILE]: { qualityGates: { lint: "requried" } } });
+
+    assert.throws(() => loadProjectConfig(root), /Invalid \.mcp\/config\.json: "qualityGates.lint"/);
+  });
+});
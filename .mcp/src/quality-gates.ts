@@ -0,0 +1,252 @@
+// quality-gates.ts
+import { exec as execCallback } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import chalk from "chalk";
+import { projectContextScan } from "./project-context.js";
+import { deploymentLogger } from "./deployment-events.js";
+import { detectPackageManager, execCommand, runScriptCommand } from "./package-manager.js";
+
+const exec = promisify(execCallback);
+const log = deploymentLogger("orchestrator");
+
+export type QualityGateName = "typecheck" | "lint" | "test" | "build";
+
+/**
+ * required - a failure stops the deployment
+ * optional - a failure is reported as a warning
+ * off      - the gate is not run
+ */
+export type QualityGateMode = "required" | "optional" | "off";
+
+export interface QualityGateSettings {
+  mode?: QualityGateMode;
+  // Overrides the detected command
+  command?: string;
+  // Directory to run the command in, when not the project root
+  cwd?: string;
+  timeoutMs?: number;
+}
+
+export type QualityGateConfig = Partial<Record<QualityGateName, QualityGateMode | QualityGateSettings>>;
+
+export interface QualityGate {
+  name: QualityGateName;
+  command: string;
+  cwd?: string;
+  required: boolean;
+  timeoutMs: number;
+}
+
+export interface QualityGateResult {
+  name: QualityGateName;
+  command: string;
+  required: boolean;
+  passed: boolean;
+  durationMs: number;
+  output: string;
+}
+
+export interface QualityGateReport {
+  passed: boolean;
+  results: QualityGateResult[];
+  // Gates that were not run because nothing was detected for them or they are turned off
+  skipped: QualityGateName[];
+}
+
+export const GATE_ORDER: QualityGateName[] = ["typecheck", "lint", "test", "build"];
+
+const GATE_MODES: QualityGateMode[] = ["required", "optional", "off"];
+
+const DEFAULT_MODES: Record<QualityGateName, QualityGateMode> = {
+  typecheck: "required",
+  lint: "optional",
+  test: "required",
+  build: "required"
+};
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const FAILURE_OUTPUT_LINES = 20;
+
+// The script npm init writes, which always fails
+const PLACEHOLDER_TEST_SCRIPT = /no test specified/;
+
+/**
+ * Works out which gates apply to a project from its package.json scripts and
+ * the tooling projectContextScan detects, then applies the configured modes.
+ */
+export async function detectQualityGates(
+  projectRoot: string,
+  config: QualityGateConfig = {}
+): Promise<{ gates: QualityGate[]; skipped: QualityGateName[] }> {
+  const context = await projectContextScan(projectRoot, { maxDepth: -1, includeWorkspaces: false });
+  const technologies = context.technologies;
+  const scripts = readScripts(projectRoot);
+
+  const manager = detectPackageManager(projectRoot);
+  const run = (script: string) => runScriptCommand(manager, script);
+
+  const detected: Record<QualityGateName, string | undefined> = {
+    typecheck: scripts.typecheck ? run("typecheck")
+      : scripts["type-check"] ? run("type-check")
+      : technologies.includes("TypeScript") && existsSync(join(projectRoot, "tsconfig.json")) ? execCommand(manager, "tsc --noEmit")
+      : undefined,
+    lint: scripts.lint ? run("lint")
+      : technologies.includes("ESLint") ? execCommand(manager, "eslint .")
+      : undefined,
+    test: scripts.test && !PLACEHOLDER_TEST_SCRIPT.test(scripts.test) ? run("test")
+      : technologies.includes("Vitest") ? execCommand(manager, "vitest run")
+      : technologies.includes("Jest") ? execCommand(manager, "jest")
+      : undefined,
+    build: scripts.build ? run("build") : undefined
+  };
+
+  const gates: QualityGate[] = [];
+  const skipped: QualityGateName[] = [];
+
+  for (const name of GATE_ORDER) {
+    const setting = config[name];
+    const settings: QualityGateSettings = typeof setting === "string" ? { mode: setting } : setting ?? {};
+    const mode = settings.mode ?? DEFAULT_MODES[name];
+    const command = settings.command ?? detected[name];
+
+    if (mode === "off" || !command) {
+      skipped.push(name);
+      continue;
+    }
+
+    gates.push({
+      name,
+      command,
+      cwd: settings.cwd,
+      required: mode === "required",
+      timeoutMs: settings.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    });
+  }
+
+  return { gates, skipped };
+}
+
+// Runs every gate, even after a failure, so the summary covers the whole project
+export async function runQualityGates(
+  projectRoot: string,
+  gates: QualityGate[],
+  skipped: QualityGateName[] = []
+): Promise<QualityGateReport> {
+  const results: QualityGateResult[] = [];
+
+  for (const gate of gates) {
+    log.stepStarted(`gate:${gate.name}`, `🚦 ${gate.name}: ${gate.command}${gate.required ? "" : chalk.gray(" (optional)")}`);
+    const startedAt = Date.now();
+
+    let passed = true;
+    let output = "";
+    let exitCode = 0;
+    try {
+      const { stdout, stderr } = await exec(gate.command, {
+        cwd: gate.cwd ?? projectRoot,
+        timeout: gate.timeoutMs,
+        maxBuffer: 20 * 1024 * 1024,
+        // CI=true keeps test runners out of watch mode
+        env: { ...process.env, CI: "true", FORCE_COLOR: "0" }
+      });
+      output = (stdout + stderr).trim();
+    } catch (error) {
+      const failure = error as { code?: number; killed?: boolean; stdout?: string; stderr?: string; message: string };
+      passed = false;
+      exitCode = typeof failure.code === "number" ? failure.code : 1;
+      output = `${failure.stdout ?? ""}${failure.stderr ?? ""}`.trim() || failure.message;
+      if (failure.killed) {
+        output += `\nTimed out after ${Math.round(gate.timeoutMs / 1000)}s`;
+      }
+    }
+
+    const durationMs = Date.now() - startedAt;
+    // Failing output is shown once, next to the gate; the full text stays in the result
+    log.commandRun(gate.command, gate.cwd ?? projectRoot, exitCode, passed ? undefined : tail(output));
+    if (passed) {
+      log.stepFinished(`gate:${gate.name}`, `✅ ${gate.name} passed (${formatDuration(durationMs)})`);
+    } else if (gate.required) {
+      log.stepFinished(`gate:${gate.name}`, `❌ ${gate.name} failed (${formatDuration(durationMs)})`, false);
+    } else {
+      log.stepFinished(`gate:${gate.name}`, undefined, false);
+      log.warning(`⚠️  ${gate.name} failed (${formatDuration(durationMs)}), continuing because it is optional`);
+    }
+
+    results.push({ ...gate, passed, durationMs, output });
+  }
+
+  return {
+    passed: results.every(result => result.passed || !result.required),
+    results,
+    skipped
+  };
+}
+
+export function formatQualityGateReport(report: QualityGateReport): string {
+  const lines = [report.passed ? "Quality gates passed:" : "Quality gates failed:"];
+
+  for (const result of report.results) {
+    const status = result.passed ? "✅ passed" : result.required ? "❌ failed" : "⚠️  failed (optional)";
+    lines.push(`  ${result.name.padEnd(10)} ${status}  ${formatDuration(result.durationMs)}  $ ${result.command}`);
+  }
+  if (report.skipped.length) {
+    lines.push(`  Skipped: ${report.skipped.join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
+
+// Checks the "qualityGates" section of .mcp/config.json, where a misspelt gate or mode would be ignored
+export function validateQualityGateConfig(value: unknown): QualityGateConfig {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`"qualityGates" must be an object`);
+  }
+
+  for (const [name, setting] of Object.entries(value)) {
+    const key = `"qualityGates.${name}"`;
+    if (!GATE_ORDER.includes(name as QualityGateName)) {
+      throw new Error(`${key} is not a quality gate; use ${GATE_ORDER.join(", ")}`);
+    }
+    if (typeof setting === "string") {
+      if (!GATE_MODES.includes(setting as QualityGateMode)) throw new Error(`${key} must be one of ${GATE_MODES.join(", ")}`);
+      continue;
+    }
+    if (!setting || typeof setting !== "object" || Array.isArray(setting)) {
+      throw new Error(`${key} must be a mode (${GATE_MODES.join(", ")}) or an object`);
+    }
+
+    const { mode, command, cwd, timeoutMs } = setting as Record<string, unknown>;
+    if (mode !== undefined && !GATE_MODES.includes(mode as QualityGateMode)) {
+      throw new Error(`${key}.mode must be one of ${GATE_MODES.join(", ")}`);
+    }
+    if (command !== undefined && (typeof command !== "string" || !command.trim())) {
+      throw new Error(`${key}.command must be a command line`);
+    }
+    if (cwd !== undefined && typeof cwd !== "string") throw new Error(`${key}.cwd must be a directory path`);
+    if (timeoutMs !== undefined && (typeof timeoutMs !== "number" || timeoutMs <= 0)) {
+      throw new Error(`${key}.timeoutMs must be a positive number`);
+    }
+  }
+  return value as QualityGateConfig;
+}
+
+// Helper functions
+
+function readScripts(projectRoot: string): Record<string, string> {
+  try {
+    const packageJson = JSON.parse(readFileSync(join(projectRoot, "package.json"), "utf-8"));
+    return packageJson.scripts ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function tail(output: string): string {
+  return output.split("\n").slice(-FAILURE_OUTPUT_LINES).join("\n");
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,116 @@
+// secret-scanner.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  assertNoSecrets,
+  scanContentForSecrets,
+  scanDeployPayload,
+  scanFilesForSecrets,
+  SECRET_ALLOWLIST_FILE
+} from "./secret-scanner.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+// Fake credentials are assembled at runtime so this file does not trip the scanner itself
+const RANDOM = "q8Zr2LmX4vN7pK1sT9wB3yH6dF0gJ5cA";
+const GITHUB_TOKEN = "ghp" + "_" + RANDOM + "Ab12";
+const STRIPE_KEY = "sk" + "_live_" + RANDOM;
+const AWS_KEY_ID = "AK" + "IA" + "Q3EGRTX7NW4PLM2Z";
+const PEM_HEADER = "-----BEGIN RSA " + "PRIVATE KEY-----";
+
+describe("scanContentForSecrets", () => {
+  test("recognises provider tokens and private keys by rule", () => {
+    const content = [
+      `const token = "${GITHUB_TOKEN}";`,
+      `STRIPE_SECRET_KEY=${STRIPE_KEY}`,
+      `aws_access_key_id = ${AWS_KEY_ID}`,
+      PEM_HEADER
+    ].join("\n");
+
+    const findings = scanContentForSecrets("config.ts", content);
+
+    assert.deepEqual(findings.map(finding => [finding.line, finding.rule]), [
+      [1, "github-token"],
+      [2, "stripe-key"],
+      [3, "aws-access-key-id"],
+      [4, "private-key"]
+    ]);
+    assert.equal(findings[0].column, 16);
+  });
+
+  test("masks the value it reports and fingerprints it stably", () => {
+    const [finding] = scanContentForSecrets("a.ts", `token: "${GITHUB_TOKEN}"`);
+    const [again] = scanContentForSecrets("b.ts", `other = ${GITHUB_TOKEN}`);
+
+    assert.equal(finding.preview.includes(RANDOM), false);
+    assert.match(finding.fingerprint, /^[0-9a-f]{16}$/);
+    assert.equal(again.fingerprint, finding.fingerprint);
+  });
+
+  test("only reports secret-looking names whose values look random", () => {
+    assert.equal(scanContentForSecrets(".env", `API_KEY=${RANDOM}`)[0]?.rule, "high-entropy-secret");
+    assert.deepEqual(scanContentForSecrets(".env", "API_KEY=your-api-key-goes-here-please"), []);
+    assert.deepEqual(scanContentForSecrets(".env", `DATABASE_NAME=${RANDOM}`), []);
+  });
+
+  test("skips lines marked secret-scan:allow and allowlisted fingerprints", () => {
+    const [finding] = scanContentForSecrets("a.ts", GITHUB_TOKEN);
+
+    assert.deepEqual(scanContentForSecrets("a.ts", `${GITHUB_TOKEN} // secret-scan:allow`), []);
+    assert.deepEqual(scanContentForSecrets("a.ts", GITHUB_TOKEN, { fingerprints: new Set([finding.fingerprint]), paths: [] }), []);
+  });
+});
+
+describe("scanFilesForSecrets", () => {
+  test("skips lockfiles, binary files and allowlisted paths", async () => {
+    const root = tempProject({
+      "src/config.ts": `export const key = "${STRIPE_KEY}";\n`,
+      "package-lock.json": `{"token": "${GITHUB_TOKEN}"}\n`,
+      "fixtures/keys.txt": `${GITHUB_TOKEN}\n`,
+      "image.png": `\0${GITHUB_TOKEN}`,
+      [SECRET_ALLOWLIST_FILE]: "fixtures/\n"
+    });
+
+    const findings = await scanFilesForSecrets(root, ["src/config.ts", "package-lock.json", "fixtures/keys.txt", "image.png"]);
+
+    assert.deepEqual(findings.map(finding => finding.file), ["src/config.ts"]);
+  });
+
+  test("scans content from a custom reader, such as the staged version", async () => {
+    const root = tempProject({ "a.ts": "clean\n" });
+    const findings = await scanFilesForSecrets(root, ["a.ts"], async () => `staged ${GITHUB_TOKEN}`);
+
+    assert.equal(findings[0]?.rule, "github-token");
+  });
+});
+
+describe("scanDeployPayload", () => {
+  test("includes .env but not what Vercel leaves out of an upload", async () => {
+    const root = tempProject({
+      ".env": `STRIPE_SECRET_KEY=${STRIPE_KEY}\n`,
+      ".env.local": `STRIPE_SECRET_KEY=${STRIPE_KEY}\n`,
+      "node_modules/pkg/index.js": `module.exports = "${GITHUB_TOKEN}";\n`,
+      "secrets/dev.txt": `${GITHUB_TOKEN}\n`,
+      ".vercelignore": "secrets/\n"
+    });
+
+    const findings = await scanDeployPayload(root);
+
+    assert.deepEqual(findings.map(finding => finding.file), [".env"]);
+  });
+
+  test("reads files deeper than a project scan goes", async () => {
+    const deep = `${Array.from({ length: 25 }, (_, index) => `d${index}`).join("/")}/config.js`;
+    const findings = await scanDeployPayload(tempProject({ [deep]: `export const key = "${STRIPE_KEY}";\n` }));
+
+    assert.deepEqual(findings.map(finding => finding.file), [deep]);
+  });
+});
+
+describe("assertNoSecrets", () => {
+  test("throws with every finding listed and passes when there are none", () => {
+    const findings = scanContentForSecrets("a.ts", GITHUB_TOKEN);
+
+    assert.doesNotThrow(() => assertNoSecrets([], "push"));
+    assert.throws(() => assertNoSecrets(findings, "push"), /Refusing to push: found 1 possible secret:\n {2}a\.ts:1:1 {2}GitHub token/);
+  });
+});
@@ -0,0 +1,245 @@
+// secret-scanner.ts
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { isIgnored, loadIgnoreRules, parseIgnoreRules, type IgnoreRule } from "./ignore-rules.js";
+import { scanProjectTree } from "./project-scanner.js";
+
+export interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  // Index of the capture group holding the secret; the whole match when unset
+  group?: number;
+  // Generic matches must also look random enough to be a credential
+  minEntropy?: number;
+}
+
+export interface SecretFinding {
+  file: string;
+  line: number;
+  column: number;
+  rule: string;
+  description: string;
+  // Enough to recognise the value without leaking it
+  preview: string;
+  // Add to the allowlist to accept this value as a false positive
+  fingerprint: string;
+}
+
+export interface SecretAllowlist {
+  fingerprints: Set<string>;
+  paths: IgnoreRule[];
+}
+
+// One fingerprint (from a finding) or one path pattern in .gitignore syntax per line
+export const SECRET_ALLOWLIST_FILE = join(".mcp", "secret-allowlist");
+
+// Put on a line to skip it, e.g. in a test fixture
+const INLINE_ALLOW = "secret-scan:allow";
+
+const MAX_FILE_BYTES = 1024 * 1024;
+const FINGERPRINT = /^[0-9a-f]{16}$/;
+
+// Lockfiles are full of integrity hashes, and source maps repeat the sources
+const SKIPPED_FILES = /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?)$|\.map$/;
+
+// What the Vercel CLI leaves out of an upload even without a .vercelignore
+const VERCEL_DEFAULT_IGNORES = [
+  ".git", ".vercel", ".next", ".cache", "node_modules", ".env.local", ".env.*.local",
+  ".DS_Store", "npm-debug.log", "__pycache__", ".venv", "venv"
+];
+
+const SECRET_KEY_NAME = "[A-Za-z0-9_.-]*(?:secret|token|passwd|password|pwd|api[_-]?key|apikey|private[_-]?key|access[_-]?key|credential)[A-Za-z0-9_.-]*";
+
+export const SECRET_RULES: SecretRule[] = [
+  {
+    id: "private-key",
+    description: "Private key (PEM)",
+    pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----/
+  },
+  {
+    id: "github-token",
+    description: "GitHub token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/
+  },
+  {
+    id: "vercel-token",
+    description: "Vercel token",
+    pattern: /\bvercel[_-]?(?:api[_-]?)?token["']?\s*[:=]\s*["'`]?([A-Za-z0-9]{24,})/i,
+    group: 1
+  },
+  {
+    id: "stripe-key",
+    description: "Stripe secret key",
+    pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{20,}\b|\bwhsec_[A-Za-z0-9]{32,}\b/
+  },
+  {
+    id: "aws-access-key-id",
+    description: "AWS access key ID",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/
+  },
+  {
+    id: "aws-secret-access-key",
+    description: "AWS secret access key",
+    pattern: /\baws_?secret_?access_?key["']?\s*[:=]\s*["'`]?([A-Za-z0-9/+=]{40})\b/i,
+    group: 1
+  },
+  {
+    id: "openai-key",
+    description: "OpenAI API key",
+    pattern: /\bsk-(?:(?:proj|svcacct|admin)-[A-Za-z0-9_-]{40,}|[A-Za-z0-9]{20}T3BlbkFJ[A-Za-z0-9]{20})/
+  },
+  {
+    id: "high-entropy-secret",
+    description: "High-entropy value assigned to a secret-looking name",
+    pattern: new RegExp(`${SECRET_KEY_NAME}["']?\\s*(?:[:=]|=>|:=)\\s*["'\`]?([A-Za-z0-9+/=_\\-.~]{20,})`, "i"),
+    group: 1,
+    minEntropy: 3.5
+  }
+];
+
+export function loadSecretAllowlist(projectRoot: string): SecretAllowlist {
+  const fingerprints = new Set<string>();
+  const patterns: string[] = [];
+
+  for (const rule of loadIgnoreRules(join(projectRoot, SECRET_ALLOWLIST_FILE))) {
+    if (FINGERPRINT.test(rule.pattern)) {
+      fingerprints.add(rule.pattern);
+    } else {
+      patterns.push(rule.pattern);
+    }
+  }
+
+  return { fingerprints, paths: parseIgnoreRules(patterns.join("\n")) };
+}
+
+export function scanContentForSecrets(file: string, content: string, allowlist?: SecretAllowlist): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const lines = content.split("\n");
+
+  lines.forEach((text, index) => {
+    if (text.includes(INLINE_ALLOW)) return;
+
+    for (const rule of SECRET_RULES) {
+      const match = text.match(rule.pattern);
+      if (!match) continue;
+
+      const secret = match[rule.group ?? 0];
+      if (!secret) continue;
+      if (rule.minEntropy !== undefined && !looksRandom(secret, rule.minEntropy)) continue;
+
+      const fingerprint = createHash("sha256").update(`${rule.id}:${secret}`).digest("hex").slice(0, 16);
+      if (allowlist?.fingerprints.has(fingerprint)) continue;
+
+      findings.push({
+        file,
+        line: index + 1,
+        column: (match.index ?? 0) + match[0].indexOf(secret) + 1,
+        rule: rule.id,
+        description: rule.description,
+        preview: maskSecret(secret),
+        fingerprint
+      });
+      // One finding per line is enough to block it
+      break;
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Scans files relative to the project root. `readContent` lets callers scan
+ * something other than the working tree, such as the staged version of a file.
+ */
+export async function scanFilesForSecrets(
+  projectRoot: string,
+  files: string[],
+  readContent: (file: string) => Promise<string | undefined> = file => readWorkingTreeFile(projectRoot, file)
+): Promise<SecretFinding[]> {
+  const allowlist = loadSecretAllowlist(projectRoot);
+  const findings: SecretFinding[] = [];
+
+  for (const file of files) {
+    const normalized = file.replace(/\\/g, "/");
+    if (SKIPPED_FILES.test(normalized) || isIgnored(allowlist.paths, normalized, false)) continue;
+
+    const content = await readContent(normalized);
+    // Binary files cannot hold the text patterns above
+    if (content === undefined || content.includes("\0")) continue;
+
+    findings.push(...scanContentForSecrets(normalized, content, allowlist));
+  }
+
+  return findings;
+}
+
+// Everything `vercel` would upload from this directory, which includes .env files.
+// `cache: false` leaves the project scan cache untouched, as a dry run must.
+export async function scanDeployPayload(projectRoot: string, options: { cache?: boolean } = {}): Promise<SecretFinding[]> {
+  // A gate that skipped part of the tree would pass files it never read, so the walk has no limits
+  const tree = await scanProjectTree(projectRoot, {
+    maxDepth: Infinity,
+    maxFiles: Infinity,
+    cache: options.cache,
+    includeHidden: true,
+    ignoreFiles: [".vercelignore"],
+    ignorePatterns: VERCEL_DEFAULT_IGNORES
+  });
+  const files = tree.entries
+    .filter(entry => entry.type === "file" && (entry.size ?? 0) <= MAX_FILE_BYTES)
+    .map(entry => entry.path);
+
+  return scanFilesForSecrets(projectRoot, files);
+}
+
+export function formatSecretFindings(findings: SecretFinding[]): string {
+  const lines = findings.map(finding =>
+    `  ${finding.file}:${finding.line}:${finding.column}  ${finding.description}  ${finding.preview}  [${finding.fingerprint}]`
+  );
+  lines.push(
+    `If a finding is a false positive, add its fingerprint or the file path to ${SECRET_ALLOWLIST_FILE}, ` +
+    `or put "${INLINE_ALLOW}" on the line.`
+  );
+  return lines.join("\n");
+}
+
+// Throws with every finding listed, so the caller stops before the secret leaves the machine
+export function assertNoSecrets(findings: SecretFinding[], action: string): void {
+  if (findings.length === 0) return;
+
+  throw new Error(
+    `Refusing to ${action}: found ${findings.length} possible secret${findings.length === 1 ? "" : "s"}:\n` +
+    formatSecretFindings(findings)
+  );
+}
+
+// Helper functions
+
+async function readWorkingTreeFile(projectRoot: string, file: string): Promise<string | undefined> {
+  try {
+    return await readFile(join(projectRoot, file), "utf-8");
+  } catch {
+    return undefined;
+  }
+}
+
+// Shannon entropy per character, plus a mix of letters and digits so identifiers do not match
+function looksRandom(value: string, minEntropy: number): boolean {
+  if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value)) return false;
+
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy >= minEntropy;
+}
+
+function maskSecret(secret: string): string {
+  return `${secret.slice(0, 4)}…(${secret.length} chars)`;
+}
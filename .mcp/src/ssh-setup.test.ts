@@ -0,0 +1,26 @@
+// ssh-setup.test.ts
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { configureInteraction, MissingInputError } from "./interaction.js";
+import { sshSetupWizard } from "./ssh-setup.js";
+import { tempDir } from "./test-fixtures/projects.js";
+
+const home = process.env.HOME;
+
+after(() => {
+  process.env.HOME = home;
+  configureInteraction({});
+});
+
+describe("sshSetupWizard", () => {
+  test("never creates a key without a person to add it to GitHub", async () => {
+    process.env.HOME = tempDir("ssh-home-");
+    configureInteraction({ nonInteractive: true });
+
+    await assert.rejects(sshSetupWizard(), MissingInputError);
+    assert.equal(existsSync(join(process.env.HOME, ".ssh")), false);
+    assert.equal(existsSync(join(process.env.HOME, ".gitconfig")), false);
+  });
+});
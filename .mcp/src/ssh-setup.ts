@@ -5,6 +5,7 @@ import { existsSync, readFileSync, mkdirSync } from "fs";
 import { join } from "path";
 import { homedir } from "os";
 import chalk from "chalk";
+import { isNonInteractive, MissingInputError } from "./interaction.js";
 
 export async function checkSSHAgent(): Promise<boolean> {
   try {
@@ -48,6 +49,11 @@ This wizard will help you set up SSH authentication with GitHub.
   }
 
   if (!existingKey) {
+    // A new key is useless until a person adds it to GitHub, so it is never created unattended
+    if (isNonInteractive()) {
+      throw new MissingInputError("confirmation to create an SSH key", "an existing key in ~/.ssh, or run 'aigs ssh setup' in a terminal");
+    }
+
     console.log(chalk.yellow("⚠️  No SSH key found. Let's create one.\n"));
     
     const { email } = await inquirer.prompt([
@@ -134,7 +140,8 @@ This wizard will help you set up SSH authentication with GitHub.
     console.log("4. Paste the key above");
     console.log("5. Click 'Add SSH key'");
     
-    const { added } = await inquirer.prompt([
+    // Only a person can add the key, so the connection test waits for the next interactive run
+    const { added } = isNonInteractive() ? { added: false } : await inquirer.prompt([
       {
         type: "confirm",
         name: "added",
@@ -157,8 +164,8 @@ This wizard will help you set up SSH authentication with GitHub.
     }
   }
 
-  // Configure Git to use SSH
-  const { configureGit } = await inquirer.prompt([
+  // Configure Git to use SSH; the global config is only rewritten when a person agrees
+  const { configureGit } = isNonInteractive() ? { configureGit: false } : await inquirer.prompt([
     {
       type: "confirm",
       name: "configureGit",
@@ -202,6 +209,9 @@ This wizard will help you set up SSH authentication with GitHub.
     } catch (error) {
       console.error(chalk.red("❌ Failed to configure Git:"), error);
     }
+  } else if (isNonInteractive()) {
+    console.log(chalk.yellow("\n⚠️  Git was not switched to SSH for GitHub. To do it yourself, run:"));
+    console.log(chalk.cyan('git config --global url."git@github.com:".insteadOf "https://github.com/"'));
   }
 
   console.log(chalk.green("\n✨ SSH setup complete!"));
@@ -209,23 +219,33 @@ This wizard will help you set up SSH authentication with GitHub.
   console.log(chalk.white('eval "$(ssh-agent -s)" && ssh-add'));
 }
 
+export interface SSHDiagnostics {
+  // Default key files found in ~/.ssh
+  keys: string[];
+  agentRunning: boolean;
+  githubConnected: boolean;
+  remoteUrl?: string;
+  recommendations: string[];
+}
+
 // Helper function to diagnose SSH issues
-export async function diagnoseSSHIssues(): Promise<void> {
+export async function diagnoseSSHIssues(): Promise<SSHDiagnostics> {
   console.log(chalk.cyan("\n🔍 Diagnosing SSH Issues...\n"));
 
   // Check for SSH keys
   const sshDir = join(homedir(), ".ssh");
   const keyTypes = ["id_rsa", "id_ed25519", "id_ecdsa"];
-  let foundKeys = false;
+  const keys: string[] = [];
 
   console.log("1. Checking for SSH keys:");
   for (const keyType of keyTypes) {
     const keyPath = join(sshDir, keyType);
     if (existsSync(keyPath)) {
       console.log(chalk.green(`   ✅ Found ${keyType}`));
-      foundKeys = true;
+      keys.push(keyType);
     }
   }
+  const foundKeys = keys.length > 0;
   
   if (!foundKeys) {
     console.log(chalk.red("   ❌ No SSH keys found"));
@@ -251,8 +271,9 @@ export async function diagnoseSSHIssues(): Promise<void> {
 
   // Check Git remote
   console.log("\n4. Checking Git remote:");
+  let remoteUrl: string | undefined;
   try {
-    const remoteUrl = execSync("git remote get-url origin", { encoding: "utf-8" }).trim();
+    remoteUrl = execSync("git remote get-url origin", { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim();
     console.log(`   Remote URL: ${remoteUrl}`);
     
     if (remoteUrl.startsWith("https://")) {
@@ -267,17 +288,23 @@ export async function diagnoseSSHIssues(): Promise<void> {
   }
 
   // Provide recommendations
-  console.log(chalk.cyan("\n📋 Recommendations:"));
+  const recommendations: string[] = [];
   if (!foundKeys) {
-    console.log("- Run the SSH setup wizard to create SSH keys");
+    recommendations.push("Run the SSH setup wizard to create SSH keys");
   }
   if (!agentRunning) {
-    console.log("- Start SSH agent: eval \"$(ssh-agent -s)\"");
+    recommendations.push("Start SSH agent: eval \"$(ssh-agent -s)\"");
     if (foundKeys) {
-      console.log("- Add your key: ssh-add ~/.ssh/id_rsa (or id_ed25519)");
+      recommendations.push("Add your key: ssh-add ~/.ssh/id_rsa (or id_ed25519)");
     }
   }
   if (!githubConnected && foundKeys && agentRunning) {
-    console.log("- Add your SSH public key to GitHub: https://github.com/settings/keys");
+    recommendations.push("Add your SSH public key to GitHub: https://github.com/settings/keys");
   }
-}
\ No newline at end of file
+
+  console.log(chalk.cyan("\n📋 Recommendations:"));
+  recommendations.forEach(recommendation => console.log(`- ${recommendation}`));
+
+  return { keys, agentRunning, githubConnected, remoteUrl, recommendations };
+}
+
@@ -5,22 +5,36 @@ import { join } from "path";
 import { homedir, platform } from "os";
 import chalk from "chalk";
 import inquirer from "inquirer";
+import { isNonInteractive, isSet } from "./interaction.js";
+import { loadProjectConfig, type ProjectConfig } from "./project-config.js";
+import { DEFAULT_ENDPOINTS, formatProbes, probeEndpoints, type EndpointProbe, type NetworkConfig } from "./network-probes.js";
+import { LOCKFILES, checkLockfileDrift, detectPackageManager, installCommand } from "./package-manager.js";
+import {
+  checkPrerequisite,
+  detectSystemInstaller,
+  nodeVersionManagerSpec,
+  prerequisiteInstallCommand,
+  resolvePrerequisites,
+  type PrerequisiteStatus
+} from "./prerequisites.js";
 
-interface SystemCheckResult {
+export interface SystemCheckResult {
   passed: boolean;
   warnings: string[];
   errors: string[];
   info: Record<string, string>;
+  // Every tool that was checked, with its version and required range
+  prerequisites?: PrerequisiteStatus[];
+  // Every connectivity probe with its latency
+  network?: EndpointProbe[];
 }
 
-interface Prerequisite {
-  name: string;
-  command: string;
-  minVersion?: string;
-  required: boolean;
+export interface SystemCheckOptions {
+  // Network failures become warnings; also set by MCP_OFFLINE=1 or "network.offline" in .mcp/config.json
+  offline?: boolean;
 }
 
-export async function runSystemCheck(): Promise<SystemCheckResult> {
+export async function runSystemCheck(options: SystemCheckOptions = {}): Promise<SystemCheckResult> {
   const result: SystemCheckResult = {
     passed: true,
     warnings: [],
@@ -30,17 +44,19 @@ export async function runSystemCheck(): Promise<SystemCheckResult> {
 
   console.log(chalk.cyan("🔍 Running System Diagnostics...\n"));
 
+  const config = loadConfig(result);
+
   // Check OS and environment
   checkOperatingSystem(result);
   
   // Check prerequisites
-  await checkPrerequisites(result);
+  await checkPrerequisites(result, config);
   
   // Check environment variables
   checkEnvironmentVariables(result);
   
   // Check network connectivity
-  await checkNetworkConnectivity(result);
+  await checkNetworkConnectivity(result, options, config.network ?? {});
   
   // Check disk space
   checkDiskSpace(result);
@@ -96,38 +112,17 @@ function checkOperatingSystem(result: SystemCheckResult): void {
   console.log("");
 }
 
-async function checkPrerequisites(result: SystemCheckResult): Promise<void> {
+async function checkPrerequisites(result: SystemCheckResult, config: ProjectConfig): Promise<void> {
   console.log(chalk.blue("📦 Checking Prerequisites:"));
-  
-  const prerequisites: Prerequisite[] = [
-    { name: "Git", command: "git --version", minVersion: "2.25.0", required: true },
-    { name: "Node.js", command: "node --version", minVersion: "16.0.0", required: true },
-    { name: "npm", command: "npm --version", minVersion: "7.0.0", required: true },
-    { name: "Vercel CLI", command: "vercel --version", required: false },
-    { name: "SSH", command: "ssh -V", required: true }
-  ];
-  
-  for (const prereq of prerequisites) {
-    try {
-      const output = execSync(prereq.command, { encoding: "utf-8" }).trim();
-      const version = extractVersion(output);
-      
-      if (prereq.minVersion && version) {
-        if (compareVersions(version, prereq.minVersion) < 0) {
-          result.warnings.push(
-            `${prereq.name} version ${version} is below recommended ${prereq.minVersion}`
-          );
-          console.log(chalk.yellow(`  ⚠️  ${prereq.name}: ${version} (min: ${prereq.minVersion})`));
-        } else {
-          console.log(chalk.green(`  ✅ ${prereq.name}: ${version}`));
-        }
-      } else {
-        console.log(chalk.green(`  ✅ ${prereq.name}: Installed`));
-      }
-      
-      result.info[prereq.name] = version || "Installed";
-    } catch (error) {
-      if (prereq.required) {
+
+  result.prerequisites = [];
+  for (const prereq of resolvePrerequisites(process.cwd(), config.prerequisites)) {
+    const status = checkPrerequisite(prereq);
+    result.prerequisites.push(status);
+    const wanted = status.range ? `${status.range}${status.rangeSource ? ` from ${status.rangeSource}` : ""}` : "";
+
+    if (!status.installed) {
+      if (status.required) {
         result.errors.push(`${prereq.name} is not installed`);
         result.passed = false;
         console.log(chalk.red(`  ❌ ${prereq.name}: Not found`));
@@ -135,7 +130,19 @@ async function checkPrerequisites(result: SystemCheckResult): Promise<void> {
         result.warnings.push(`${prereq.name} is not installed (optional)`);
         console.log(chalk.yellow(`  ⚠️  ${prereq.name}: Not found (optional)`));
       }
+      continue;
     }
+
+    if (!status.satisfied) {
+      result.warnings.push(`${prereq.name} version ${status.version} does not satisfy ${wanted}`);
+      console.log(chalk.yellow(`  ⚠️  ${prereq.name}: ${status.version} (wanted: ${wanted})`));
+    } else if (status.version) {
+      console.log(chalk.green(`  ✅ ${prereq.name}: ${status.version}`) + (wanted ? chalk.gray(` (${wanted})`) : ""));
+    } else {
+      console.log(chalk.green(`  ✅ ${prereq.name}: Installed`));
+    }
+
+    result.info[prereq.name] = status.version || "Installed";
   }
   
   console.log("");
@@ -176,29 +183,40 @@ function checkEnvironmentVariables(result: SystemCheckResult): void {
   console.log("");
 }
 
-async function checkNetworkConnectivity(result: SystemCheckResult): Promise<void> {
+async function checkNetworkConnectivity(
+  result: SystemCheckResult,
+  options: SystemCheckOptions,
+  network: NetworkConfig
+): Promise<void> {
   console.log(chalk.blue("🌐 Network Connectivity:"));
-  
-  const endpoints = [
-    { name: "GitHub", host: "github.com", required: true },
-    { name: "npm Registry", host: "registry.npmjs.org", required: true },
-    { name: "Vercel", host: "vercel.com", required: false }
-  ];
-  
-  for (const endpoint of endpoints) {
-    try {
-      execSync(`ping -c 1 -W 2 ${endpoint.host}`, { stdio: "ignore" });
-      console.log(chalk.green(`  ✅ ${endpoint.name}: Reachable`));
-      result.info[`${endpoint.name} Connection`] = "OK";
-    } catch {
-      if (endpoint.required) {
-        result.errors.push(`Cannot reach ${endpoint.name} (${endpoint.host})`);
-        result.passed = false;
-        console.log(chalk.red(`  ❌ ${endpoint.name}: Unreachable`));
-      } else {
-        result.warnings.push(`Cannot reach ${endpoint.name} (${endpoint.host})`);
-        console.log(chalk.yellow(`  ⚠️  ${endpoint.name}: Unreachable`));
+
+  const offline = options.offline ?? (isSet(process.env.MCP_OFFLINE) || network.offline === true);
+  if (offline) {
+    console.log(chalk.gray("  Offline mode: network failures are reported as warnings"));
+    result.info["Network Mode"] = "Offline";
+  }
+
+  // DNS, TCP and HTTPS instead of ICMP ping, which firewalls and containers often drop
+  result.network = await probeEndpoints(network.endpoints ?? DEFAULT_ENDPOINTS, { timeoutMs: network.timeoutMs });
+
+  for (const { endpoint, reachable, probes } of result.network) {
+    const details = formatProbes({ endpoint, reachable, probes });
+    const failed = probes.filter(probe => !probe.ok);
+    if (reachable) {
+      const https = probes.find(probe => probe.kind === "https");
+      console.log(chalk.green(`  ✅ ${endpoint.name}: Reachable`) + chalk.gray(` (${details})`));
+      result.info[`${endpoint.name} Connection`] = https ? `OK (${https.latencyMs} ms)` : "OK";
+      // e.g. port 22 blocked while HTTPS works, which breaks git over SSH
+      for (const probe of failed) {
+        result.warnings.push(`${endpoint.name}: ${probe.kind} ${probe.target} failed (${probe.error})`);
       }
+    } else if (endpoint.required && !offline) {
+      result.errors.push(`Cannot reach ${endpoint.name} (${endpoint.host}): ${details}`);
+      result.passed = false;
+      console.log(chalk.red(`  ❌ ${endpoint.name}: Unreachable`) + chalk.gray(` (${details})`));
+    } else {
+      result.warnings.push(`Cannot reach ${endpoint.name} (${endpoint.host}): ${details}`);
+      console.log(chalk.yellow(`  ⚠️  ${endpoint.name}: Unreachable`) + chalk.gray(` (${details})`));
     }
   }
   
@@ -263,24 +281,16 @@ function displayResults(result: SystemCheckResult): void {
 }
 
 // Helper functions
-function extractVersion(versionString: string): string | null {
-  const match = versionString.match(/(\d+\.\d+\.\d+)/);
-  return match ? match[1] : null;
-}
 
-function compareVersions(version1: string, version2: string): number {
-  const v1Parts = version1.split(".").map(Number);
-  const v2Parts = version2.split(".").map(Number);
-  
-  for (let i = 0; i < Math.max(v1Parts.length, v2Parts.length); i++) {
-    const v1Part = v1Parts[i] || 0;
-    const v2Part = v2Parts[i] || 0;
-    
-    if (v1Part > v2Part) return 1;
-    if (v1Part < v2Part) return -1;
+// An invalid .mcp/config.json is reported instead of stopping the whole check
+function loadConfig(result?: SystemCheckResult): ProjectConfig {
+  try {
+    return loadProjectConfig();
+  } catch (error) {
+    result?.errors.push(error instanceof Error ? error.message : String(error));
+    if (result) result.passed = false;
+    return {};
   }
-  
-  return 0;
 }
 
 // Export additional diagnostic functions
@@ -318,69 +328,99 @@ export async function checkProjectHealth(projectPath: string): Promise<void> {
     console.log(chalk.red("❌ No package.json found"));
   }
   
+  const manager = detectPackageManager(projectPath);
+  console.log(chalk.green(`✅ Package manager: ${manager.name}${manager.version ? ` ${manager.version}` : ""} (from ${manager.source === "default" ? "default" : manager.source === "lockfile" ? manager.lockfile : "packageManager field"})`));
+  if (manager.corepack && manager.bin.startsWith("corepack")) {
+    console.log(chalk.yellow(`  ⚠️  ${manager.name} is not on PATH; run 'corepack enable' to install the pinned version`));
+  }
+
   // Check node_modules
   const nodeModulesPath = join(projectPath, "node_modules");
   if (existsSync(nodeModulesPath)) {
     console.log(chalk.green("✅ Dependencies installed"));
   } else {
-    console.log(chalk.yellow("⚠️  No node_modules found - run 'npm install'"));
+    console.log(chalk.yellow(`⚠️  No node_modules found - run '${installCommand(manager)}'`));
   }
   
   // Check for lock files
-  const lockFiles = ["package-lock.json", "yarn.lock", "pnpm-lock.yaml"];
-  let foundLock = false;
+  const lockFiles = LOCKFILES.map(lockfile => lockfile.file).filter(file => existsSync(join(projectPath, file)));
   for (const lockFile of lockFiles) {
-    if (existsSync(join(projectPath, lockFile))) {
-      console.log(chalk.green(`✅ Found ${lockFile}`));
-      foundLock = true;
-      break;
-    }
+    console.log(chalk.green(`✅ Found ${lockFile}`));
   }
   
-  if (!foundLock) {
-    console.log(chalk.yellow("⚠️  No lock file found"));
+  if (lockFiles.length === 0) {
+    console.log(chalk.yellow(`⚠️  No lock file found - run '${installCommand(manager)}' to create one`));
+  }
+
+  for (const issue of checkLockfileDrift(projectPath)) {
+    console.log(chalk.yellow(`⚠️  ${issue}`));
   }
   
   console.log("");
 }
 
+export interface SetupOptions {
+  // Run the install commands without asking; set by `aigs check --install`.
+  // Without it, non-interactive runs only print the commands
+  install?: boolean;
+}
+
 // Interactive setup for missing prerequisites
-export async function setupMissingPrerequisites(): Promise<void> {
-  const result = await runSystemCheck();
+export async function setupMissingPrerequisites(checked?: SystemCheckResult, options: SetupOptions = {}): Promise<void> {
+  const result = checked ?? await runSystemCheck();
+  const missing = (result.prerequisites ?? []).filter(status => !status.satisfied);
   
-  if (result.errors.length === 0) {
+  if (missing.length === 0) {
     console.log(chalk.green("\n✨ No missing prerequisites!"));
     return;
   }
   
   console.log(chalk.cyan("\n🔧 Setting up missing prerequisites...\n"));
   
-  for (const error of result.errors) {
-    if (error.includes("Git")) {
-      console.log(chalk.yellow("📦 Git is required. Please install it:"));
-      console.log(chalk.white("  Ubuntu/Debian: sudo apt-get install git"));
-      console.log(chalk.white("  macOS: brew install git"));
+  const manager = detectPackageManager();
+  const installer = detectSystemInstaller();
+  const prerequisites = resolvePrerequisites(process.cwd(), loadConfig().prerequisites);
+  
+  for (const status of missing) {
+    const prereq = prerequisites.find(candidate => candidate.name === status.name);
+    if (!prereq) continue;
+    const problem = status.installed ? `${status.version} does not satisfy ${status.range}` : "is not installed";
+
+    // System packages carry whatever Node.js the distribution ships, which rarely matches a project's range
+    if (prereq.name === "Node.js" && prereq.range && (status.installed || prereq.rangeSource)) {
+      const spec = nodeVersionManagerSpec(prereq.range);
+      console.log(chalk.yellow(`📦 Node.js ${problem}. Install a matching version with 'nvm install ${spec}' or 'fnm install ${spec}'`));
+      continue;
     }
-    
-    if (error.includes("Vercel CLI")) {
-      const { installVercel } = await inquirer.prompt([
-        {
-          type: "confirm",
-          name: "installVercel",
-          message: "Would you like to install Vercel CLI?",
-          default: true
-        }
-      ]);
-      
-      if (installVercel) {
-        try {
-          console.log(chalk.cyan("📦 Installing Vercel CLI..."));
-          execSync("npm install -g vercel", { stdio: "inherit" });
-          console.log(chalk.green("✅ Vercel CLI installed successfully"));
-        } catch (error) {
-          console.log(chalk.red("❌ Failed to install Vercel CLI"));
-        }
+
+    const command = prerequisiteInstallCommand(prereq, manager, installer);
+    if (!command) {
+      console.log(chalk.yellow(`📦 ${prereq.name} ${problem}. Please install it${prereq.docs ? `: ${prereq.docs}` : " manually"}`));
+      continue;
+    }
+
+    // Global installs change the machine, so CI only runs them when asked to
+    const needsRoot = command.startsWith("sudo ");
+    const { install } = isNonInteractive() ? { install: options.install === true } : await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "install",
+        message: `${prereq.name} ${problem}. Run '${command}'?`,
+        default: !needsRoot
       }
+    ]);
+    
+    if (!install) {
+      console.log(chalk.white(`  To install it yourself: ${command}${prereq.docs ? ` (see ${prereq.docs})` : ""}`));
+      continue;
+    }
+
+    try {
+      console.log(chalk.cyan(`📦 Installing ${prereq.name}...`));
+      execSync(command, { stdio: "inherit" });
+      console.log(chalk.green(`✅ ${prereq.name} installed successfully`));
+    } catch (error) {
+      console.log(chalk.red(`❌ Failed to install ${prereq.name}`));
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,54 @@
+// test-fixtures/projects.ts
+// Temporary projects for tests. Every directory created here, and the project scan
+// cache, is removed once the importing test file has finished.
+import { after } from "node:test";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+// Relative path to contents; objects are written as formatted JSON
+export type ProjectFiles = Record<string, string | object>;
+
+export interface TempProjectOptions {
+  // Initialise a git repository, on this branch when a name is given (default main)
+  git?: boolean | string;
+}
+
+const created: string[] = [];
+
+// Outside every project, so scans and `git add -A` never pick the cache up
+process.env.MCP_SCAN_CACHE_DIR = tempDir("mcp-scan-cache-");
+
+after(() => {
+  for (const dir of created) rmSync(dir, { recursive: true, force: true });
+});
+
+export function tempProject(files: ProjectFiles = {}, options: TempProjectOptions = {}): string {
+  const root = tempDir("mcp-project-");
+  if (options.git) {
+    git(root, "init", "--quiet", `--initial-branch=${options.git === true ? "main" : options.git}`);
+    git(root, "config", "user.name", "Test");
+    git(root, "config", "user.email", "test@example.com");
+  }
+  writeProjectFiles(root, files);
+  return root;
+}
+
+export function writeProjectFiles(root: string, files: ProjectFiles): void {
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, name)), { recursive: true });
+    writeFileSync(join(root, name), typeof content === "string" ? content : `${JSON.stringify(content, null, 2)}\n`);
+  }
+}
+
+// Resolved, so paths compare equal to what the code under test resolves
+export function tempDir(prefix = "mcp-"): string {
+  const dir = realpathSync(mkdtempSync(join(tmpdir(), prefix)));
+  created.push(dir);
+  return dir;
+}
+
+export function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8" }).trim();
+}
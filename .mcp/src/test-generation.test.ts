@@ -0,0 +1,48 @@
+// test-generation.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { join } from "node:path";
+import { generateTests } from "./test-generation.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+describe("generateTests", () => {
+  test("builds arguments from object and literal parameter types", () => {
+    const { code } = generateTests(
+      "export function connect({ host, port }: { host: string; port?: number; mode: 'fast' | 'safe' }): string { return host; }",
+      { framework: "vitest" }
+    );
+
+    assert.match(code, /connect\(\{ host: 'test', mode: 'fast' \}\)/);
+    assert.doesNotMatch(code, /TODO|as unknown as/);
+  });
+
+  test("leaves calls it cannot build arguments for as todos", () => {
+    const { code } = generateTests([
+      "export function parse(input: Buffer): string { return input.toString(); }",
+      "export class Client { constructor(private url: URL) {} get(path: string): string { return path; } }"
+    ].join("\n"), { framework: "jest" });
+
+    assert.match(code, /it\.todo\('returns a result for typical input \(needs sample values for input\)'\);/);
+    assert.match(code, /it\.todo\('can be constructed \(needs sample values for url\)'\);/);
+    assert.doesNotMatch(code, /parse\(|new Client\(/);
+  });
+
+  test("writes a suite that passes against the module it was generated from", () => {
+    const source = [
+      "export function shout({ text }) { return text.toUpperCase(); }",
+      "export function configure({ retries = 3, verbose = false } = {}) { return { retries, verbose }; }",
+      "export function repeat(value = 'a', times = 2) { return value.repeat(Math.max(times, 0) % 5); }",
+      "export async function load(ids = []) { return ids.length; }"
+    ].join("\n");
+    const generated = generateTests(source, { framework: "node:test", language: "javascript", modulePath: "./module.mjs" });
+    const root = tempProject({ "module.mjs": source, "module.test.mjs": generated.code });
+
+    // Without NODE_TEST_CONTEXT the child reports to its own stdout instead of this runner
+    const { NODE_TEST_CONTEXT: _, ...env } = process.env;
+    const run = spawnSync(process.execPath, ["--test", join(root, "module.test.mjs")], { encoding: "utf-8", env });
+
+    assert.equal(run.status, 0, run.stdout);
+    assert.match(run.stdout, /# todo 1/);
+  });
+});
@@ -0,0 +1,558 @@
+// test-generation.ts
+import ts from "typescript";
+import { parseSource, resolveScriptKind } from "./code-analysis.js";
+
+export type TestFramework = "jest" | "vitest" | "mocha" | "node:test";
+
+type ValueKind = "string" | "number" | "boolean" | "array" | "literal" | "object" | "void" | "unknown" | "other";
+
+interface TypeInfo {
+  kind: ValueKind;
+  text: string;
+  nullable: boolean;
+  optional: boolean;
+  element?: TypeInfo;
+  // Source text of a literal type, used as its sample value
+  literal?: string;
+  // Properties of an object type; only required ones get sample values
+  members?: PropertyInfo[];
+}
+
+interface PropertyInfo {
+  name: string;
+  type: TypeInfo;
+}
+
+interface ParameterInfo {
+  name: string;
+  type: TypeInfo;
+  rest: boolean;
+}
+
+interface CallableInfo {
+  name: string;
+  params: ParameterInfo[];
+  returns: TypeInfo;
+  async: boolean;
+  isStatic?: boolean;
+}
+
+export interface ExportedUnit {
+  kind: "function" | "class";
+  name: string;
+  // Local binding used in the generated import
+  importName: string;
+  isDefault: boolean;
+  functions: CallableInfo[];
+  constructorParams: ParameterInfo[];
+}
+
+export interface TestGenerationOptions {
+  framework?: string;
+  language?: string;
+  modulePath?: string;
+}
+
+export interface GeneratedTestFile {
+  framework: TestFramework;
+  fileName: string;
+  exports: ExportedUnit[];
+  code: string;
+}
+
+const FRAMEWORKS: TestFramework[] = ["jest", "vitest", "mocha", "node:test"];
+
+const NUMERIC_BOUNDARIES = ["0", "-1", "Number.MAX_SAFE_INTEGER"];
+
+export function resolveTestFramework(framework: string = "jest"): TestFramework {
+  const normalized = framework.trim().toLowerCase().replace(/^node$/, "node:test");
+  if (!FRAMEWORKS.includes(normalized as TestFramework)) {
+    throw new Error(`Unsupported test framework: ${framework}. Use one of: ${FRAMEWORKS.join(", ")}`);
+  }
+  return normalized as TestFramework;
+}
+
+export function generateTests(code: string, options: TestGenerationOptions = {}): GeneratedTestFile {
+  const framework = resolveTestFramework(options.framework);
+  const language = options.language || "typescript";
+  const modulePath = options.modulePath || "./module";
+
+  const sourceFile = parseSource(code, language);
+  if (!sourceFile) {
+    throw new Error(`Cannot generate tests for '${language}'. Supported languages: typescript, javascript, tsx, jsx`);
+  }
+
+  const typed = resolveScriptKind(language) === ts.ScriptKind.TS || resolveScriptKind(language) === ts.ScriptKind.TSX;
+  const units = collectExports(sourceFile);
+  const extension = typed ? "ts" : "js";
+  const baseName = modulePath.split("/").pop()?.replace(/\.[cm]?[jt]sx?$/, "") || "module";
+
+  return {
+    framework,
+    fileName: `${baseName}.test.${extension}`,
+    exports: units,
+    code: renderTestFile(units, framework, modulePath, typed)
+  };
+}
+
+// Export discovery
+
+function collectExports(sourceFile: ts.SourceFile): ExportedUnit[] {
+  const units: ExportedUnit[] = [];
+  const localFunctions = new Map<string, ts.SignatureDeclaration>();
+  const localClasses = new Map<string, ts.ClassDeclaration>();
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name && statement.body) {
+      localFunctions.set(statement.name.text, statement);
+    } else if (ts.isClassDeclaration(statement) && statement.name) {
+      localClasses.set(statement.name.text, statement);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const fn = declaration.initializer && unwrapFunction(declaration.initializer);
+        if (fn && ts.isIdentifier(declaration.name)) {
+          localFunctions.set(declaration.name.text, fn);
+        }
+      }
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    if (exported && ts.isFunctionDeclaration(statement) && statement.body) {
+      const name = statement.name?.text || "subject";
+      units.push(functionUnit(name, name, isDefault, statement));
+    } else if (exported && ts.isClassDeclaration(statement)) {
+      const name = statement.name?.text || "Subject";
+      units.push(classUnit(name, name, isDefault, statement));
+    } else if (exported && ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const fn = declaration.initializer && unwrapFunction(declaration.initializer);
+        if (fn && ts.isIdentifier(declaration.name)) {
+          units.push(functionUnit(declaration.name.text, declaration.name.text, false, fn));
+        }
+      }
+    } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause
+      && ts.isNamedExports(statement.exportClause) && !statement.isTypeOnly) {
+      for (const specifier of statement.exportClause.elements) {
+        const localName = (specifier.propertyName || specifier.name).text;
+        const exportedName = specifier.name.text;
+        const isDefaultExport = exportedName === "default";
+        const importName = isDefaultExport ? localName : exportedName;
+        const fn = localFunctions.get(localName);
+        const cls = localClasses.get(localName);
+        if (fn) units.push(functionUnit(importName, importName, isDefaultExport, fn));
+        if (cls) units.push(classUnit(importName, importName, isDefaultExport, cls));
+      }
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const expression = statement.expression;
+      const fn = unwrapFunction(expression);
+      if (fn) {
+        units.push(functionUnit("default", "subject", true, fn));
+      } else if (ts.isIdentifier(expression)) {
+        const local = localFunctions.get(expression.text);
+        const cls = localClasses.get(expression.text);
+        if (local) units.push(functionUnit(expression.text, expression.text, true, local));
+        if (cls) units.push(classUnit(expression.text, expression.text, true, cls));
+      }
+    }
+  }
+
+  return units;
+}
+
+function functionUnit(
+  name: string,
+  importName: string,
+  isDefault: boolean,
+  declaration: ts.SignatureDeclaration
+): ExportedUnit {
+  return {
+    kind: "function",
+    name,
+    importName,
+    isDefault,
+    functions: [describeCallable(name, declaration)],
+    constructorParams: []
+  };
+}
+
+function classUnit(name: string, importName: string, isDefault: boolean, declaration: ts.ClassDeclaration): ExportedUnit {
+  const functions: CallableInfo[] = [];
+  let constructorParams: ParameterInfo[] = [];
+
+  for (const member of declaration.members) {
+    if (ts.isConstructorDeclaration(member) && member.body) {
+      constructorParams = member.parameters.map(describeParameter);
+    }
+
+    if (!ts.isMethodDeclaration(member) || !member.body || !ts.isIdentifier(member.name)) continue;
+    if (hasModifier(member, ts.SyntaxKind.PrivateKeyword) || hasModifier(member, ts.SyntaxKind.ProtectedKeyword)) continue;
+
+    functions.push({
+      ...describeCallable(member.name.text, member),
+      isStatic: hasModifier(member, ts.SyntaxKind.StaticKeyword)
+    });
+  }
+
+  return { kind: "class", name, importName, isDefault, functions, constructorParams };
+}
+
+function describeCallable(name: string, declaration: ts.SignatureDeclaration): CallableInfo {
+  const isAsync = hasModifier(declaration, ts.SyntaxKind.AsyncKeyword);
+  let returns = describeType(declaration.type);
+  let promised = isAsync;
+
+  // Unwrap Promise<T> so assertions run against the awaited value
+  if (declaration.type && ts.isTypeReferenceNode(declaration.type)
+    && declaration.type.typeName.getText() === "Promise") {
+    promised = true;
+    returns = describeType(declaration.type.typeArguments?.[0]);
+  }
+
+  return {
+    name,
+    params: declaration.parameters.map(describeParameter),
+    returns,
+    async: promised
+  };
+}
+
+function describeParameter(parameter: ts.ParameterDeclaration, index: number): ParameterInfo {
+  let type: TypeInfo;
+  if (parameter.type) {
+    type = describeType(parameter.type);
+  } else if (ts.isObjectBindingPattern(parameter.name)
+    && parameter.name.elements.every(element => element.initializer || element.dotDotDotToken)) {
+    // An untyped { a = 1, b = 2 } works with an empty object
+    type = { kind: "object", text: "object", nullable: false, optional: false, members: [] };
+  } else {
+    type = describeInitializer(parameter.initializer);
+  }
+
+  if (parameter.questionToken || parameter.initializer) {
+    type.optional = true;
+  }
+
+  return {
+    name: ts.isIdentifier(parameter.name) ? parameter.name.text : `argument ${index + 1}`,
+    type,
+    rest: parameter.dotDotDotToken !== undefined
+  };
+}
+
+function describeType(node: ts.TypeNode | undefined): TypeInfo {
+  if (!node) return { kind: "unknown", text: "unknown", nullable: false, optional: false };
+
+  const text = node.getText();
+  const info = (kind: ValueKind): TypeInfo => ({ kind, text, nullable: false, optional: false });
+
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword: return info("string");
+    case ts.SyntaxKind.NumberKeyword: return info("number");
+    case ts.SyntaxKind.BooleanKeyword: return info("boolean");
+    case ts.SyntaxKind.VoidKeyword: return info("void");
+    case ts.SyntaxKind.AnyKeyword:
+    case ts.SyntaxKind.UnknownKeyword: return info("unknown");
+  }
+
+  if (ts.isParenthesizedTypeNode(node)) return describeType(node.type);
+
+  if (ts.isArrayTypeNode(node)) {
+    return { ...info("array"), element: describeType(node.elementType) };
+  }
+
+  if (ts.isTypeOperatorNode(node) && node.operator === ts.SyntaxKind.ReadonlyKeyword) {
+    return { ...describeType(node.type), text };
+  }
+
+  if (ts.isTypeReferenceNode(node) && ["Array", "ReadonlyArray"].includes(node.typeName.getText())) {
+    return { ...info("array"), element: describeType(node.typeArguments?.[0]) };
+  }
+
+  if (ts.isLiteralTypeNode(node)) {
+    if (node.literal.kind === ts.SyntaxKind.NullKeyword) return { ...info("void"), nullable: true };
+    return { ...info("literal"), literal: node.literal.getText() };
+  }
+
+  if (ts.isTypeLiteralNode(node)) {
+    const members = node.members.filter(ts.isPropertySignature).map(member => ({
+      name: member.name.getText(),
+      type: { ...describeType(member.type), optional: member.questionToken !== undefined }
+    }));
+    return { ...info("object"), members };
+  }
+
+  if (ts.isUnionTypeNode(node)) {
+    const members = node.types.filter(member => !isNullish(member));
+    const nullable = members.length !== node.types.length;
+    const described = members.map(describeType);
+    // "a" | "b" samples as its first member
+    const base = described.length === 1 || (described.length > 0 && described.every(member => member.kind === "literal"))
+      ? described[0]
+      : info("other");
+    return { ...base, text, nullable: nullable || base.nullable };
+  }
+
+  return info("other");
+}
+
+function describeInitializer(initializer: ts.Expression | undefined): TypeInfo {
+  const info = (kind: ValueKind, text: string): TypeInfo => ({ kind, text, nullable: false, optional: false });
+
+  if (!initializer) return info("unknown", "unknown");
+  if (ts.isNumericLiteral(initializer)) return info("number", "number");
+  if (ts.isStringLiteral(initializer) || ts.isNoSubstitutionTemplateLiteral(initializer)) return info("string", "string");
+  if (initializer.kind === ts.SyntaxKind.TrueKeyword || initializer.kind === ts.SyntaxKind.FalseKeyword) {
+    return info("boolean", "boolean");
+  }
+  if (ts.isArrayLiteralExpression(initializer)) {
+    return { ...info("array", "unknown[]"), element: info("unknown", "unknown") };
+  }
+
+  return info("unknown", "unknown");
+}
+
+function isNullish(node: ts.TypeNode): boolean {
+  return node.kind === ts.SyntaxKind.UndefinedKeyword
+    || (ts.isLiteralTypeNode(node) && node.literal.kind === ts.SyntaxKind.NullKeyword);
+}
+
+function unwrapFunction(expression: ts.Expression): ts.ArrowFunction | ts.FunctionExpression | undefined {
+  let current = expression;
+  while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) || ts.isSatisfiesExpression(current)) {
+    current = current.expression;
+  }
+  return ts.isArrowFunction(current) || ts.isFunctionExpression(current) ? current : undefined;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind);
+}
+
+// Rendering
+
+interface TestCase {
+  title: string;
+  args: string[];
+}
+
+interface Dialect {
+  imports: string[];
+  assertType(value: string, kind: ValueKind): string | undefined;
+  assertRuns(call: string): string;
+  // A pending test, for calls the generator cannot build arguments for
+  todo(title: string): string;
+}
+
+function dialectFor(framework: TestFramework): Dialect {
+  const expectStyle: Dialect = {
+    imports: framework === "vitest"
+      ? ["import { describe, it, expect } from 'vitest';"]
+      : ["import { describe, it, expect } from '@jest/globals';"],
+    assertType: (value, kind) => {
+      if (kind === "array") return `expect(Array.isArray(${value})).toBe(true);`;
+      if (kind === "string" || kind === "number" || kind === "boolean") return `expect(typeof ${value}).toBe('${kind}');`;
+      if (kind === "void") return `expect(${value}).toBeUndefined();`;
+      return undefined;
+    },
+    assertRuns: (call) => `expect(() => ${call}).not.toThrow();`,
+    todo: (title) => `it.todo('${title}');`
+  };
+
+  const assertStyle: Dialect = {
+    imports: framework === "node:test"
+      ? ["import { describe, it } from 'node:test';", "import assert from 'node:assert/strict';"]
+      : ["import { describe, it } from 'mocha';", "import assert from 'node:assert/strict';"],
+    assertType: (value, kind) => {
+      if (kind === "array") return `assert.ok(Array.isArray(${value}));`;
+      if (kind === "string" || kind === "number" || kind === "boolean") return `assert.strictEqual(typeof ${value}, '${kind}');`;
+      if (kind === "void") return `assert.strictEqual(${value}, undefined);`;
+      return undefined;
+    },
+    assertRuns: (call) => `assert.doesNotThrow(() => ${call});`,
+    // Mocha reports an it() without a callback as pending
+    todo: (title) => framework === "mocha" ? `it('${title}');` : `it.todo('${title}');`
+  };
+
+  return framework === "jest" || framework === "vitest" ? expectStyle : assertStyle;
+}
+
+function renderTestFile(units: ExportedUnit[], framework: TestFramework, modulePath: string, typed: boolean): string {
+  const dialect = dialectFor(framework);
+  const lines: string[] = [...dialect.imports];
+
+  const defaultUnit = units.find(unit => unit.isDefault);
+  const named = units.filter(unit => !unit.isDefault).map(unit => unit.importName);
+  const specifiers = [
+    defaultUnit ? defaultUnit.importName : "",
+    named.length > 0 ? `{ ${named.join(", ")} }` : ""
+  ].filter(Boolean).join(", ");
+
+  if (specifiers) {
+    lines.push(`import ${specifiers} from '${modulePath}';`);
+  }
+  lines.push("");
+
+  if (units.length === 0) {
+    lines.push("// No exported functions or classes were found in the provided code.");
+    return lines.join("\n") + "\n";
+  }
+
+  for (const unit of units) {
+    lines.push(`describe('${unit.name}', () => {`);
+
+    if (unit.kind === "class") {
+      const ctor = sampleArguments(unit.constructorParams, typed, `ConstructorParameters<typeof ${unit.importName}>`);
+      const factory = `new ${unit.importName}(${ctor.args.join(", ")})`;
+
+      if (ctor.missing.length > 0) {
+        lines.push(`  ${dialect.todo(needsValues("can be constructed", ctor.missing))}`);
+      } else {
+        lines.push(`  it('can be constructed', () => {`);
+        lines.push(`    ${dialect.assertRuns(factory)}`);
+        lines.push("  });");
+      }
+
+      for (const method of unit.functions) {
+        const target = method.isStatic ? unit.importName : factory;
+        const paramsType = method.isStatic
+          ? `Parameters<typeof ${unit.importName}.${method.name}>`
+          : `Parameters<${unit.importName}['${method.name}']>`;
+        lines.push("");
+        lines.push(`  describe('${method.isStatic ? "static " : ""}${method.name}', () => {`);
+        const blocked = method.isStatic ? [] : ctor.missing;
+        lines.push(...renderCases(method, `${target}.${method.name}`, paramsType, dialect, typed, "    ", blocked));
+        lines.push("  });");
+      }
+    } else {
+      const fn = unit.functions[0];
+      lines.push(...renderCases(fn, unit.importName, `Parameters<typeof ${unit.importName}>`, dialect, typed, "  ", []));
+    }
+
+    lines.push("});");
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+function renderCases(
+  callable: CallableInfo,
+  callee: string,
+  paramsType: string,
+  dialect: Dialect,
+  typed: boolean,
+  indent: string,
+  // Constructor parameters the instance for a method call is missing
+  blocked: string[]
+): string[] {
+  const lines: string[] = [];
+  const params = callable.params.filter(param => !param.rest);
+  const { args: samples, missing } = sampleArguments(params, typed, paramsType);
+  // A sync void call is only checked for not throwing; nullable results have no single type to check
+  const assertion = callable.returns.nullable || (callable.returns.kind === "void" && !callable.async)
+    ? undefined
+    : dialect.assertType("result", callable.returns.kind);
+  const typicalTitle = assertion ? "returns a result for typical input" : "runs with typical input";
+
+  if (blocked.length > 0 || missing.length > 0) {
+    return [`${indent}${dialect.todo(needsValues(typicalTitle, [...blocked, ...missing]))}`];
+  }
+
+  const cases: TestCase[] = [{ title: typicalTitle, args: samples }];
+
+  params.forEach((param, index) => {
+    const withArg = (value: string): string[] => samples.map((sample, i) => (i === index ? value : sample));
+    const type = param.type;
+
+    if (type.nullable && type.text.includes("null")) {
+      cases.push({ title: `handles null ${param.name}`, args: withArg("null") });
+    }
+    if (type.optional || (type.nullable && type.text.includes("undefined"))) {
+      cases.push({ title: `handles undefined ${param.name}`, args: withArg("undefined") });
+    }
+    if (type.kind === "array") {
+      cases.push({ title: `handles an empty ${param.name} array`, args: withArg("[]") });
+    }
+    if (type.kind === "number") {
+      for (const boundary of NUMERIC_BOUNDARIES) {
+        cases.push({ title: `handles ${param.name} = ${boundary}`, args: withArg(boundary) });
+      }
+    }
+  });
+
+  cases.forEach((testCase, index) => {
+    const call = `${callee}(${testCase.args.join(", ")})`;
+    if (index > 0) lines.push("");
+    lines.push(`${indent}it('${testCase.title}', ${callable.async ? "async " : ""}() => {`);
+
+    if (assertion) {
+      lines.push(`${indent}  const result = ${callable.async ? "await " : ""}${call};`);
+      lines.push(`${indent}  ${assertion}`);
+    } else {
+      lines.push(`${indent}  ${callable.async ? `await ${call};` : dialect.assertRuns(call)}`);
+    }
+    lines.push(`${indent}});`);
+  });
+
+  return lines;
+}
+
+// Sample arguments for the parameters, and the names of required ones no value could be built for
+function sampleArguments(params: ParameterInfo[], typed: boolean, paramsType: string): { args: string[]; missing: string[] } {
+  const args: string[] = [];
+  const missing: string[] = [];
+  params.filter(param => !param.rest).forEach((param, index) => {
+    const sample = sampleValue(param.type, typed, `${paramsType}[${index}]`);
+    if (sample === undefined && !param.type.optional) missing.push(param.name);
+    args.push(sample ?? "undefined");
+  });
+  return { args, missing };
+}
+
+function needsValues(title: string, names: string[]): string {
+  return `${title} (needs sample values for ${names.join(", ")})`;
+}
+
+// Undefined when the type says too little to build a value that the code under test accepts
+function sampleValue(type: TypeInfo, typed: boolean, typeQuery: string): string | undefined {
+  switch (type.kind) {
+    case "string": return "'test'";
+    case "number": return "1";
+    case "boolean": return "true";
+    case "literal": return type.literal;
+    case "array": {
+      const element = type.element && sampleValue(type.element, typed, `${typeQuery}[number]`);
+      if (element) return `[${element}]`;
+      return typed ? `[] as ${typeQuery}` : "[]";
+    }
+    case "object": {
+      const properties: string[] = [];
+      for (const member of (type.members ?? []).filter(member => !member.type.optional)) {
+        const value = sampleValue(member.type, typed, `${typeQuery}[${quoteKey(member.name)}]`);
+        if (value === undefined) return undefined;
+        properties.push(`${member.name}: ${value}`);
+      }
+      return properties.length > 0 ? `{ ${properties.join(", ")} }` : "{}";
+    }
+    case "void": return "undefined";
+    default: return undefined;
+  }
+}
+
+// Indexed access types need string keys quoted
+function quoteKey(name: string): string {
+  return /^['"]/.test(name) ? name : `'${name}'`;
+}
+
+export function formatGeneratedTests(file: GeneratedTestFile): string {
+  const summary = file.exports.length === 0
+    ? "No exported functions or classes found."
+    : file.exports.map(unit => `- ${unit.kind} ${unit.name} (${unit.functions.length} callable${unit.functions.length === 1 ? "" : "s"})`).join("\n");
+
+  const fence = file.fileName.endsWith(".ts") ? "typescript" : "javascript";
+  return `Generated ${file.framework} tests (${file.fileName}):\n${summary}\n\n\`\`\`${fence}\n${file.code}\`\`\``;
+}
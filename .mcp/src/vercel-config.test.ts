@@ -0,0 +1,112 @@
+// vercel-config.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { tempProject } from "./test-fixtures/projects.js";
+import { migrateVercelConfig, proposeVercelConfig, validateVercelConfig, writeVercelConfig } from "./vercel-config.js";
+
+describe("migrateVercelConfig", () => {
+  test("moves legacy builds to outputDirectory and functions", () => {
+    const { config, changes } = migrateVercelConfig({
+      version: 2,
+      builds: [
+        { src: "package.json", use: "@vercel/static-build", config: { distDir: "build" } },
+        { src: "api/*.js", use: "@vercel/node", config: { maxDuration: 30, includeFiles: ["data/**", "templates/**"] } }
+      ]
+    }, tempProject({ "index.html": "<h1>hi</h1>" }));
+
+    assert.deepEqual(config, {
+      version: 2,
+      outputDirectory: "build",
+      functions: { "api/*.js": { maxDuration: 30, includeFiles: "data/**,templates/**" } },
+      framework: null
+    });
+    assert.equal(changes[0], "Removed legacy builds");
+    assert.ok(changes.includes("Moved @vercel/static-build distDir to outputDirectory (build)"));
+  });
+
+  test("converts routes to rewrites, redirects and headers", () => {
+    const { config, unmigrated } = migrateVercelConfig({
+      routes: [
+        { handle: "filesystem" },
+        { src: "^/api/(.*)$", dest: "/api/handler?path=$1" },
+        { src: "/docs/([^/]+)", status: 308, headers: { Location: "/guides/$1" } },
+        { src: "/old\\.html", status: 302, dest: "/new" },
+        { src: "/assets/(.+)", headers: { "Cache-Control": "max-age=31536000" }, continue: true }
+      ]
+    }, tempProject({}));
+
+    assert.deepEqual(unmigrated, []);
+    assert.deepEqual(config, {
+      rewrites: [{ source: "/api/:path*", destination: "/api/handler?path=:path*" }],
+      redirects: [
+        { source: "/docs/:path", destination: "/guides/:path", permanent: true },
+        { source: "/old.html", destination: "/new", permanent: false }
+      ],
+      headers: [{ source: "/assets/:path+", headers: [{ key: "Cache-Control", value: "max-age=31536000" }] }]
+    });
+  });
+
+  test("leaves every route in place when one needs regex features rewrites lack", () => {
+    const routes = [
+      { src: "/blog/(.*)", dest: "/posts/$1" },
+      { src: "/(en|de)/about", dest: "/about" },
+      { src: "/upload", methods: ["POST"], dest: "/api/upload" }
+    ];
+    const { config, changes, unmigrated } = migrateVercelConfig({ routes }, tempProject({}));
+
+    assert.deepEqual(config, { routes });
+    assert.deepEqual(changes, []);
+    assert.deepEqual(unmigrated, [`route ${JSON.stringify(routes[1])}`, `route ${JSON.stringify(routes[2])}`]);
+  });
+});
+
+describe("validateVercelConfig", () => {
+  test("reports wrong types and routes mixed with rewrites as errors", () => {
+    const root = tempProject({
+      "vercel.json": JSON.stringify({ cleanUrls: "yes", routez: [], routes: [], rewrites: [] })
+    });
+    const errors = validateVercelConfig(root).issues
+      .filter(issue => issue.severity === "error")
+      .map(issue => `${issue.path}: ${issue.message}`);
+
+    assert.deepEqual(errors, [
+      "cleanUrls: expected boolean, found string",
+      "routes: cannot be used together with rewrites, cleanUrls"
+    ]);
+  });
+
+  test("only warns about keys outside the bundled schema and never removes them", () => {
+    const config = { functions: { "api/*.js": { maxDuration: 10, supportsCancellation: true } }, fluid: true };
+    const root = tempProject({ "vercel.json": config });
+    const issues = validateVercelConfig(root).issues.map(issue => `${issue.severity} ${issue.path}`);
+
+    assert.deepEqual(issues, ["warning functions.api/*.js.supportsCancellation", "warning fluid"]);
+    assert.equal(proposeVercelConfig(root), undefined);
+  });
+
+  test("reports JSON syntax errors without a config", () => {
+    const validation = validateVercelConfig(tempProject({ "vercel.json": "{ nope" }));
+
+    assert.equal(validation.config, undefined);
+    assert.match(validation.issues[0].message, /^Invalid JSON/);
+  });
+});
+
+describe("writeVercelConfig", () => {
+  test("writes the proposal, or only shows it on a dry run", async () => {
+    const root = tempProject({ "vercel.json": JSON.stringify({ routes: [{ src: "/a", dest: "/b" }] }) });
+    const proposal = proposeVercelConfig(root)!;
+
+    assert.equal(await writeVercelConfig(root, proposal, { dryRun: true }), false);
+    assert.match(readFileSync(join(root, "vercel.json"), "utf-8"), /"routes"/);
+
+    assert.equal(await writeVercelConfig(root, proposal), true);
+    assert.deepEqual(JSON.parse(readFileSync(join(root, "vercel.json"), "utf-8")), {
+      $schema: "https://openapi.vercel.sh/vercel.json",
+      rewrites: [{ source: "/a", destination: "/b" }]
+    });
+    assert.equal(proposeVercelConfig(root), undefined);
+  });
+});
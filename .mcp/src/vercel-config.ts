@@ -0,0 +1,593 @@
+// vercel-config.ts
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import chalk from "chalk";
+import inquirer from "inquirer";
+import { deploymentLogger } from "./deployment-events.js";
+import { detectFrameworks, MIN_CONFIDENCE } from "./framework-detectors.js";
+import { readPackageJson } from "./package-manager.js";
+import { writeSafeFile } from "./path-helper.js";
+import { loadProjectConfig } from "./project-config.js";
+
+const log = deploymentLogger("vercel");
+
+export const VERCEL_CONFIG_FILE = "vercel.json";
+export const VERCEL_CONFIG_SCHEMA_URL = "https://openapi.vercel.sh/vercel.json";
+
+export type VercelConfig = Record<string, unknown>;
+
+type SchemaType = "string" | "number" | "boolean" | "array" | "object" | "null";
+
+interface SchemaNode {
+  type: SchemaType | SchemaType[];
+  enum?: unknown[];
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  // Schema for keys not listed in properties; unknown keys are rejected when unset
+  additionalProperties?: SchemaNode | boolean;
+  // Still accepted by Vercel, but replaced by newer settings
+  legacy?: string;
+}
+
+export interface VercelConfigIssue {
+  path: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface VercelConfigValidation {
+  exists: boolean;
+  config?: VercelConfig;
+  issues: VercelConfigIssue[];
+}
+
+export interface VercelConfigProposal {
+  exists: boolean;
+  before?: VercelConfig;
+  after: VercelConfig;
+  // One line per change, for plans and logs
+  changes: string[];
+  // Legacy settings that could not be converted and need a manual look
+  unmigrated: string[];
+  diff: string;
+}
+
+const conditions: SchemaNode = { type: "array", items: { type: "object", additionalProperties: true } };
+const nullableString: SchemaNode = { type: ["string", "null"] };
+
+// The subset of https://openapi.vercel.sh/vercel.json that deployments from this tool use
+export const VERCEL_CONFIG_SCHEMA: SchemaNode = {
+  type: "object",
+  properties: {
+    $schema: { type: "string" },
+    version: { type: "number", enum: [2] },
+    framework: nullableString,
+    buildCommand: nullableString,
+    installCommand: nullableString,
+    devCommand: nullableString,
+    ignoreCommand: nullableString,
+    outputDirectory: nullableString,
+    public: { type: "boolean" },
+    cleanUrls: { type: "boolean" },
+    trailingSlash: { type: "boolean" },
+    regions: { type: "array", items: { type: "string" } },
+    bunVersion: { type: "string" },
+    functions: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        properties: {
+          runtime: { type: "string" },
+          memory: { type: "number" },
+          maxDuration: { type: "number" },
+          includeFiles: { type: "string" },
+          excludeFiles: { type: "string" },
+          regions: { type: "array", items: { type: "string" } }
+        }
+      }
+    },
+    rewrites: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["source", "destination"],
+        properties: { source: { type: "string" }, destination: { type: "string" }, has: conditions, missing: conditions }
+      }
+    },
+    redirects: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["source", "destination"],
+        properties: {
+          source: { type: "string" },
+          destination: { type: "string" },
+          permanent: { type: "boolean" },
+          statusCode: { type: "number", enum: [301, 302, 303, 307, 308] },
+          has: conditions,
+          missing: conditions
+        }
+      }
+    },
+    headers: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["source", "headers"],
+        properties: {
+          source: { type: "string" },
+          headers: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["key", "value"],
+              properties: { key: { type: "string" }, value: { type: "string" } }
+            }
+          },
+          has: conditions,
+          missing: conditions
+        }
+      }
+    },
+    crons: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["path", "schedule"],
+        properties: { path: { type: "string" }, schedule: { type: "string" } }
+      }
+    },
+    images: { type: "object", additionalProperties: true },
+    github: { type: "object", additionalProperties: true },
+    git: { type: "object", additionalProperties: true },
+    env: { type: "object", additionalProperties: { type: "string" }, legacy: "set environment variables in the Vercel project instead" },
+    build: { type: "object", additionalProperties: true, legacy: "set build environment variables in the Vercel project instead" },
+    builds: {
+      type: "array",
+      items: { type: "object", additionalProperties: true },
+      legacy: "replaced by framework detection, buildCommand, outputDirectory and functions"
+    },
+    routes: {
+      type: "array",
+      items: { type: "object", additionalProperties: true },
+      legacy: "replaced by rewrites, redirects and headers"
+    },
+    name: { type: "string", legacy: "the project name comes from the linked Vercel project" },
+    alias: { type: ["string", "array"], legacy: "assign domains in the Vercel project instead" },
+    scope: { type: "string", legacy: "use `vercel --scope` instead" }
+  }
+};
+
+// Vercel framework preset slugs for the detectors in framework-detectors.ts
+const FRAMEWORK_PRESETS: Record<string, string> = {
+  next: "nextjs",
+  gatsby: "gatsby",
+  remix: "remix",
+  sveltekit: "sveltekit-1",
+  nuxt: "nuxtjs",
+  astro: "astro",
+  angular: "angular",
+  vite: "vite",
+  vue: "vue",
+  svelte: "svelte"
+};
+
+// Where projects without a framework preset usually build to
+const OUTPUT_DIRECTORY_CANDIDATES = ["dist", "build", "out", "public"];
+
+// Settings that cannot be combined with the legacy routes
+const MODERN_ROUTING_KEYS = ["rewrites", "redirects", "headers", "cleanUrls", "trailingSlash"];
+
+export function validateVercelConfig(projectRoot: string): VercelConfigValidation {
+  const configPath = join(projectRoot, VERCEL_CONFIG_FILE);
+  if (!existsSync(configPath)) return { exists: false, issues: [] };
+
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    return {
+      exists: true,
+      issues: [{ path: "", severity: "error", message: `Invalid JSON: ${error instanceof Error ? error.message : error}` }]
+    };
+  }
+
+  const issues = validateNode(config, VERCEL_CONFIG_SCHEMA, "");
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    return { exists: true, issues };
+  }
+
+  const vercelConfig = config as VercelConfig;
+  if (vercelConfig.routes) {
+    const combined = MODERN_ROUTING_KEYS.filter(key => key in vercelConfig);
+    if (combined.length > 0) {
+      issues.push({ path: "routes", severity: "error", message: `cannot be used together with ${combined.join(", ")}` });
+    }
+  }
+
+  // Legacy builds skip the framework preset, so a detected framework would not be built the way it expects
+  if (vercelConfig.builds) {
+    const framework = detectFrameworkPreset(projectRoot);
+    if (framework) {
+      issues.push({ path: "builds", severity: "error", message: `overrides the ${framework.name} preset; migrate to framework settings` });
+    }
+  }
+
+  issues.push(...checkScriptCommands(projectRoot, vercelConfig));
+  return { exists: true, config: vercelConfig, issues };
+}
+
+/**
+ * A vercel.json for the detected framework. Framework presets need little
+ * more than their name; other projects get the directory their build writes to.
+ */
+export function generateVercelConfig(projectRoot: string): VercelConfig {
+  const config: VercelConfig = { $schema: VERCEL_CONFIG_SCHEMA_URL };
+
+  const framework = detectFrameworkPreset(projectRoot);
+  if (framework) {
+    config.framework = framework.slug;
+    return config;
+  }
+
+  // A plain static site is served as it is
+  if (existsSync(join(projectRoot, "index.html"))) {
+    config.framework = null;
+    return config;
+  }
+
+  const outputDirectory = detectOutputDirectory(projectRoot);
+  if (outputDirectory) {
+    config.framework = null;
+    config.outputDirectory = outputDirectory;
+  }
+  return config;
+}
+
+/**
+ * Converts legacy builds and routes to their current equivalents. Routes that
+ * need regular-expression features rewrites do not support are left in place.
+ */
+export function migrateVercelConfig(
+  config: VercelConfig,
+  projectRoot: string
+): { config: VercelConfig; changes: string[]; unmigrated: string[] } {
+  const migrated: VercelConfig = { ...config };
+  const changes: string[] = [];
+  const unmigrated: string[] = [];
+
+  if (Array.isArray(config.builds)) {
+    delete migrated.builds;
+    changes.push("Removed legacy builds");
+
+    for (const entry of config.builds as unknown[]) {
+      const build = asObject(entry);
+      const buildConfig = asObject(build.config);
+      const use = String(build.use ?? "");
+      const src = String(build.src ?? "");
+      if (use.startsWith("@vercel/static-build") && buildConfig.distDir && !migrated.outputDirectory) {
+        migrated.outputDirectory = buildConfig.distDir;
+        changes.push(`Moved ${use} distDir to outputDirectory (${buildConfig.distDir})`);
+      } else if (/^@vercel\/(node|python|go|ruby)/.test(use) && src !== "package.json") {
+        const settings: VercelConfig = {};
+        if (buildConfig.maxDuration) settings.maxDuration = buildConfig.maxDuration;
+        if (buildConfig.memory) settings.memory = buildConfig.memory;
+        if (buildConfig.includeFiles) settings.includeFiles = [buildConfig.includeFiles].flat().join(",");
+        migrated.functions = { ...asObject(migrated.functions), [src]: settings };
+        changes.push(`Moved ${src} (${use}) to functions`);
+      }
+    }
+
+    // Without builds the framework preset applies again
+    const generated = generateVercelConfig(projectRoot);
+    for (const key of ["framework", "outputDirectory"]) {
+      if (key in generated && !(key in migrated)) {
+        migrated[key] = generated[key];
+        changes.push(`Set ${key} to ${JSON.stringify(generated[key])}`);
+      }
+    }
+  }
+
+  if (Array.isArray(config.routes)) {
+    const converted = config.routes.map(route => convertRoute(asObject(route)));
+    const failed = config.routes.filter((_route: unknown, index: number) => converted[index] === undefined);
+
+    if (failed.length > 0) {
+      unmigrated.push(...failed.map((route: unknown) => `route ${JSON.stringify(route)}`));
+    } else {
+      delete migrated.routes;
+      for (const route of converted) {
+        if (!route || route.kind === "skip") continue;
+        const existing = migrated[route.kind];
+        migrated[route.kind] = [...Array.isArray(existing) ? existing : [], route.value];
+      }
+      changes.push(`Converted ${config.routes.length} legacy route(s) to rewrites, redirects and headers`);
+    }
+  }
+
+  return { config: migrated, changes, unmigrated };
+}
+
+// Works out what, if anything, vercel.json should change to; undefined when it is fine as it is
+export function proposeVercelConfig(projectRoot: string): VercelConfigProposal | undefined {
+  const validation = validateVercelConfig(projectRoot);
+
+  // Hand-written JSON with a syntax error is not rewritten blindly
+  if (validation.exists && !validation.config) return undefined;
+
+  let after: VercelConfig;
+  const changes: string[] = [];
+  let unmigrated: string[] = [];
+
+  if (!validation.config) {
+    after = generateVercelConfig(projectRoot);
+    // Framework presets deploy fine without a vercel.json
+    if (Object.keys(after).length === 1) return undefined;
+    changes.push("Created vercel.json for the detected framework");
+  } else {
+    const migration = migrateVercelConfig(validation.config, projectRoot);
+    after = migration.config;
+    changes.push(...migration.changes);
+    unmigrated = migration.unmigrated;
+
+    // Warnings alone, such as a missing script or an unknown key, are not something to rewrite the file over
+    if (changes.length === 0) return undefined;
+    if (!after.$schema) {
+      after = { $schema: VERCEL_CONFIG_SCHEMA_URL, ...after };
+    }
+  }
+
+  const before = readConfigText(projectRoot);
+  const text = formatConfig(after);
+  if (before === text) return undefined;
+
+  return {
+    exists: validation.exists,
+    before: validation.config,
+    after,
+    changes,
+    unmigrated,
+    diff: formatConfigDiff(before ?? "", text)
+  };
+}
+
+/**
+ * Shows the change as a diff and writes it, after asking when `confirm` is set.
+ * A `dryRun` only shows it. Returns whether the file was written.
+ */
+export async function writeVercelConfig(
+  projectRoot: string,
+  proposal: VercelConfigProposal,
+  options: { confirm?: boolean; dryRun?: boolean } = {}
+): Promise<boolean> {
+  log.info(`\n${proposal.diff}`, { changes: proposal.changes });
+  for (const note of proposal.unmigrated) {
+    log.warning(`⚠️  Could not migrate ${note}; convert it by hand`);
+  }
+  if (options.dryRun) return false;
+
+  if (options.confirm) {
+    const { write } = await inquirer.prompt([{
+      type: "confirm",
+      name: "write",
+      message: `Write these changes to ${VERCEL_CONFIG_FILE}?`,
+      default: true
+    }]);
+    if (!write) return false;
+  }
+
+  writeSafeFile(VERCEL_CONFIG_FILE, formatConfig(proposal.after), projectRoot);
+  return true;
+}
+
+// tsconfig's outDir when the build runs tsc, otherwise the first usual output directory that exists
+export function detectOutputDirectory(projectRoot: string): string | undefined {
+  const build = readPackageJson(projectRoot)?.scripts?.build;
+
+  if (build && /\btsc\b/.test(build)) {
+    try {
+      // Comments are allowed in tsconfig.json
+      const tsconfig = JSON.parse(
+        readFileSync(join(projectRoot, "tsconfig.json"), "utf-8").replace(/^\s*\/\/.*$/gm, "")
+      );
+      const outDir = tsconfig.compilerOptions?.outDir;
+      if (typeof outDir === "string") return outDir.replace(/^\.\//, "").replace(/\/$/, "");
+    } catch {
+      // No usable tsconfig.json
+    }
+  }
+
+  return OUTPUT_DIRECTORY_CANDIDATES.find(dir => existsSync(join(projectRoot, dir)));
+}
+
+export function formatConfig(config: VercelConfig): string {
+  return `${JSON.stringify(config, null, 2)}\n`;
+}
+
+// Line diff with unchanged lines for context; vercel.json files are small enough for a full LCS
+export function formatConfigDiff(before: string, after: string): string {
+  const a = before ? before.replace(/\n$/, "").split("\n") : [];
+  const b = after.replace(/\n$/, "").split("\n");
+
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines = [chalk.gray(`--- ${VERCEL_CONFIG_FILE}`), chalk.gray(`+++ ${VERCEL_CONFIG_FILE} (proposed)`)];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      lines.push(chalk.green(`+ ${b[j++]}`));
+    } else {
+      lines.push(chalk.red(`- ${a[i++]}`));
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatVercelConfigIssues(issues: VercelConfigIssue[]): string[] {
+  return issues.map(issue => `${VERCEL_CONFIG_FILE}${issue.path ? ` ${issue.path}` : ""}: ${issue.message}`);
+}
+
+// Helper functions
+
+function validateNode(value: unknown, schema: SchemaNode, path: string): VercelConfigIssue[] {
+  const types = [schema.type].flat();
+  const actual = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+  if (!types.includes(actual as SchemaType)) {
+    return [{ path, severity: "error", message: `expected ${types.join(" or ")}, found ${actual}` }];
+  }
+
+  const issues: VercelConfigIssue[] = [];
+  if (schema.legacy) {
+    issues.push({ path, severity: "warning", message: `legacy setting, ${schema.legacy}` });
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, severity: "error", message: `must be one of ${schema.enum.join(", ")}` });
+  }
+
+  if (actual === "array" && schema.items) {
+    (value as unknown[]).forEach((item, index) => issues.push(...validateNode(item, schema.items!, `${path}[${index}]`)));
+  }
+
+  if (actual === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) issues.push({ path: keyPath(path, key), severity: "error", message: "is required" });
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const childPath = keyPath(path, key);
+      const childSchema = schema.properties?.[key]
+        ?? (typeof schema.additionalProperties === "object" ? schema.additionalProperties : undefined);
+      if (childSchema) {
+        issues.push(...validateNode(child, childSchema, childPath));
+      } else if (schema.additionalProperties !== true) {
+        // Only a subset of Vercel's schema is bundled, so a key missing from it may still be valid
+        issues.push({ path: childPath, severity: "warning", message: "unknown property, check the spelling" });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function keyPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function detectFrameworkPreset(projectRoot: string): { name: string; slug: string } | undefined {
+  const packageJson = readPackageJson(projectRoot);
+  const dependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+  const detections = detectFrameworks(projectRoot, dependencies, loadProjectConfig(projectRoot).detectors ?? []);
+
+  for (const detection of detections) {
+    if (detection.confidence < MIN_CONFIDENCE) continue;
+    if (detection.id === "react" && "react-scripts" in dependencies) {
+      return { name: "Create React App", slug: "create-react-app" };
+    }
+    const slug = FRAMEWORK_PRESETS[detection.id];
+    if (slug) return { name: detection.name, slug };
+  }
+  return undefined;
+}
+
+// Commands such as "npm run dev" fail on Vercel when the script does not exist
+function checkScriptCommands(projectRoot: string, config: VercelConfig): VercelConfigIssue[] {
+  const scripts = readPackageJson(projectRoot)?.scripts ?? {};
+  const issues: VercelConfigIssue[] = [];
+
+  for (const key of ["buildCommand", "devCommand", "installCommand"]) {
+    const command = config[key];
+    if (typeof command !== "string") continue;
+    const script = command.match(/^(?:npm|pnpm|bun)\s+run\s+([\w:.-]+)|^yarn\s+(?:run\s+)?([\w:.-]+)$/);
+    const name = script?.[1] ?? script?.[2];
+    if (name && !["install", "add"].includes(name) && !(name in scripts)) {
+      issues.push({ path: key, severity: "warning", message: `runs the "${name}" script, which package.json does not define` });
+    }
+  }
+
+  return issues;
+}
+
+type ConvertedRoute =
+  | { kind: "rewrites" | "redirects" | "headers"; value: VercelConfig }
+  | { kind: "skip" };
+
+function convertRoute(route: VercelConfig): ConvertedRoute | undefined {
+  // { handle: "filesystem" } is the default behaviour of rewrites
+  if (route.handle) return { kind: "skip" };
+  if (typeof route.src !== "string" || route.methods) return undefined;
+
+  const source = convertSourcePattern(route.src);
+  if (!source) return undefined;
+
+  const headers = asObject(route.headers);
+  const location = headers.Location ?? headers.location;
+  if (typeof route.status === "number" && [301, 302, 303, 307, 308].includes(route.status) && (route.dest || location)) {
+    const destination = convertDestination(String(route.dest ?? location), source.params);
+    return {
+      kind: "redirects",
+      value: { source: source.pattern, destination, permanent: route.status === 301 || route.status === 308 }
+    };
+  }
+
+  if (route.dest) {
+    return { kind: "rewrites", value: { source: source.pattern, destination: convertDestination(String(route.dest), source.params) } };
+  }
+
+  if (route.headers && route.continue) {
+    return {
+      kind: "headers",
+      value: {
+        source: source.pattern,
+        headers: Object.entries(headers).map(([key, value]) => ({ key, value: String(value) }))
+      }
+    };
+  }
+
+  return undefined;
+}
+
+// Turns the route regex into path-to-regexp syntax; only catch-all and single-segment groups convert cleanly
+function convertSourcePattern(src: string): { pattern: string; params: string[] } | undefined {
+  const params: string[] = [];
+  let pattern = src.replace(/^\^/, "").replace(/\$$/, "");
+
+  pattern = pattern.replace(/\((\.\*|\.\+|\[\^\/\]\+|\[\^\/\]\*)\)/g, (_match, group: string) => {
+    const name = params.length === 0 ? "path" : `path${params.length + 1}`;
+    const param = group.startsWith("[") ? `:${name}` : group === ".+" ? `:${name}+` : `:${name}*`;
+    params.push(param);
+    return param;
+  });
+  pattern = pattern.replace(/\\\./g, ".");
+
+  // Anything still regex-like would change meaning
+  if (/[()[\]|?*+\\^$]/.test(pattern.replace(/:\w+[*+]?/g, ""))) return undefined;
+  return { pattern: pattern.startsWith("/") ? pattern : `/${pattern}`, params };
+}
+
+function convertDestination(dest: string, params: string[]): string {
+  return dest.replace(/\$(\d+)/g, (match, index: string) => {
+    return params[Number(index) - 1] ?? match;
+  });
+}
+
+// Config values are untyped JSON; anything but a plain object reads as empty
+function asObject(value: unknown): VercelConfig {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as VercelConfig : {};
+}
+
+function readConfigText(projectRoot: string): string | undefined {
+  const configPath = join(projectRoot, VERCEL_CONFIG_FILE);
+  return existsSync(configPath) ? readFileSync(configPath, "utf-8") : undefined;
+}
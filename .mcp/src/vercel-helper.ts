@@ -1,37 +1,116 @@
 // vercel-helper.ts
 import { promisify } from "node:util";
 import { exec as execCallback, spawn } from "node:child_process";
-import { existsSync, readFileSync, writeFileSync, rmSync } from "node:fs";
-import { join } from "node:path";
-import chalk from "chalk";
+import { childStdio, deploymentLogger } from "./deployment-events.js";
+import { getCurrentBranch } from "./git-helper.js";
+import { recordDeployment } from "./deployment-history.js";
+import { assertNoSecrets, scanDeployPayload } from "./secret-scanner.js";
+import { applyDeployFixes, proposeDeployFixes } from "./deploy-fixes.js";
+import { EXIT_CODES, isNonInteractive } from "./interaction.js";
 
 const exec = promisify(execCallback);
+const log = deploymentLogger("vercel");
+
+/**
+ * preview and production are built into Vercel; any other name is a custom
+ * environment configured in the Vercel project.
+ */
+export type DeploymentTarget = "preview" | "production" | (string & {});
+
+export interface VercelDeployOptions {
+  target?: DeploymentTarget;
+  cwd?: string;
+}
+
+// Carries what the CLI printed, so fixes can be matched against the actual failure
+export class VercelDeployError extends Error {
+  readonly exitCode = EXIT_CODES.deploy;
+
+  constructor(message: string, readonly output: string) {
+    super(message);
+    this.name = "VercelDeployError";
+  }
+}
+
+const PRODUCTION_BRANCHES = ["main", "master"];
+
+/**
+ * Picks the target when none is given: production for main/master, preview
+ * for every other branch (and when the branch cannot be determined).
+ */
+export function resolveDeploymentTarget(target?: string, cwd = process.cwd()): DeploymentTarget {
+  if (target) {
+    // Custom environment names end up on the command line
+    if (!/^[A-Za-z0-9][\w.-]*$/.test(target)) {
+      throw new Error(`Invalid deployment target: ${target}`);
+    }
+    return target;
+  }
+
+  const branch = getCurrentBranch(cwd);
+  return branch && PRODUCTION_BRANCHES.includes(branch) ? "production" : "preview";
+}
+
+export function vercelDeployArgs(target: DeploymentTarget): string[] {
+  if (target === "production") return ["--prod"];
+  if (target === "preview") return [];
+  return [`--target=${target}`];
+}
+
+export function extractDeploymentUrl(output: string): string | undefined {
+  const match = output.match(/https:\/\/[^\s]+\.vercel\.app/);
+  return match?.[0];
+}
+
+export async function vercelDeploy(options: VercelDeployOptions = {}): Promise<string | undefined> {
+  const cwd = options.cwd || process.cwd();
+  const target = resolveDeploymentTarget(options.target, cwd);
+  const args = vercelDeployArgs(target);
+  const command = ["vercel", ...args].join(" ");
 
-export async function vercelDeploy(): Promise<void> {
   try {
     // First check if we're logged in
     try {
       await exec("vercel whoami");
     } catch {
-      console.log(chalk.yellow("🔐 Not logged in to Vercel. Please run 'vercel login' first."));
+      log.warning("🔐 Not logged in to Vercel. Please run 'vercel login' first.");
       throw new Error("Not authenticated with Vercel");
     }
 
-    console.log(chalk.cyan("🚀 Deploying to Vercel..."));
+    // Everything in the upload is checked, including .env files the CLI does not skip
+    assertNoSecrets(await scanDeployPayload(cwd), "deploy");
+
+    log.stepStarted("deploy", `🚀 Deploying to Vercel (${target})...`);
     
-    // Use spawn for better output handling
-    const deploy = spawn("vercel", ["--prod"], {
-      stdio: "inherit",
-      shell: true
+    // Vercel prints the deployment URL on stdout and progress and build logs on stderr.
+    // Both are captured; stderr is passed through so it keeps streaming to the terminal
+    const deploy = spawn("vercel", args, { cwd, stdio: ["inherit", "pipe", "pipe"] });
+
+    let output = "";
+    let buildLog = "";
+    deploy.stdout?.on("data", (chunk: Buffer) => {
+      output += chunk.toString();
+    });
+    deploy.stderr?.on("data", (chunk: Buffer) => {
+      process.stderr.write(chunk);
+      buildLog += chunk.toString();
     });
 
     return new Promise((resolve, reject) => {
       deploy.on("close", (code) => {
+        log.commandRun(command, cwd, code ?? undefined, output.trim() || undefined);
         if (code === 0) {
-          console.log(chalk.green("✅ Deployment successful!"));
-          resolve();
+          const url = extractDeploymentUrl(output);
+          if (url) log.deploymentUrl(url);
+          log.stepFinished("deploy", "✅ Deployment successful!");
+          if (url) {
+            recordDeployment({ url, target }, cwd).then(() => resolve(url), () => resolve(url));
+          } else {
+            resolve(url);
+          }
         } else {
-          reject(new Error(`Deployment failed with code ${code}`));
+          log.stepFinished("deploy", undefined, false);
+          reject(new VercelDeployError(`Deployment failed with code ${code}`, `${buildLog}\n${output}`));
         }
       });
 
@@ -40,106 +119,57 @@ export async function vercelDeploy(): Promise<void> {
       });
     });
   } catch (error) {
-    console.error(chalk.red("❌ Vercel deployment failed:"), error);
+    log.error("❌ Vercel deployment failed:", error);
     throw error;
   }
 }
 
 // Legacy functions for backward compatibility
-export function triggerVercelProdAndStreamLogs() {
-  // Run prod deploy
-  const log = spawn("vercel", ["--prod"], { stdio: "inherit" });
-  log.on("close", (code) => {
-    if (code === 0) console.log("✔️ Vercel deployment triggered.");
-    else console.error("❌ Vercel deploy failed. See above logs for details.");
+// Without a target the branch decides, as for a deploy: production on main/master, preview elsewhere
+export async function triggerVercelProdAndStreamLogs(target?: DeploymentTarget, cwd = process.cwd()): Promise<void> {
+  const args = vercelDeployArgs(resolveDeploymentTarget(target, cwd));
+  assertNoSecrets(await scanDeployPayload(cwd), "deploy");
+  const deploy = spawn("vercel", args, { cwd, stdio: childStdio() });
+  deploy.on("close", (code) => {
+    log.commandRun(["vercel", ...args].join(" "), cwd, code ?? undefined);
+    if (code === 0) log.stepFinished("deploy", "✔️ Vercel deployment triggered.");
+    else log.error("❌ Vercel deploy failed. See above logs for details.");
   });
 }
 
 export function triggerVercelDeployHook(hookUrl: string) {
   try {
     const { execSync } = require("child_process");
-    execSync(`curl -X POST "${hookUrl}"`, { stdio: "inherit" });
-    console.log("✔️ Vercel deploy hook triggered.");
+    execSync(`curl -X POST "${hookUrl}"`, { stdio: childStdio() });
+    log.stepFinished("deploy-hook", "✔️ Vercel deploy hook triggered.");
   } catch (err) {
-    console.error("❌ Vercel deploy hook failed.");
+    log.error("❌ Vercel deploy hook failed.");
     throw err;
   }
 }
 
 // Enhanced deployment with automatic fixes
-export async function deployToVercelWithFixes(): Promise<void> {
+export async function deployToVercelWithFixes(options: VercelDeployOptions = {}): Promise<string | undefined> {
+  const cwd = options.cwd || process.cwd();
   try {
-    await vercelDeploy();
+    return await vercelDeploy(options);
   } catch (error) {
-    console.log(chalk.yellow("\n🔧 Attempting to fix common deployment issues..."));
-    
-    // Check for common issues and fix them
-    const fixed = await attemptCommonFixes();
-    
-    if (fixed) {
-      console.log(chalk.cyan("\n🔄 Retrying deployment..."));
-      await vercelDeploy();
-    } else {
+    // Only fixes whose error signatures appear in the failed deployment's output are offered
+    const output = error instanceof VercelDeployError ? error.output : String(error);
+    const proposed = proposeDeployFixes(cwd, output);
+    if (proposed.length === 0) {
+      log.info("No known fix matches this failure; see the output above.");
       throw error;
     }
-  }
-}
 
-async function attemptCommonFixes(): Promise<boolean> {
-  let fixApplied = false;
-  
-  // Fix 1: Check for vercel.json issues
-  const vercelJsonPath = join(process.cwd(), "vercel.json");
-  if (!existsSync(vercelJsonPath)) {
-    console.log(chalk.yellow("📝 Creating vercel.json with default configuration..."));
-    const defaultConfig = {
-      version: 2,
-      builds: [
-        {
-          src: "package.json",
-          use: "@vercel/node"
-        }
-      ]
-    };
-    writeFileSync(vercelJsonPath, JSON.stringify(defaultConfig, null, 2));
-    fixApplied = true;
-  }
-  
-  // Fix 2: Clean .vercel directory if exists
-  const vercelDir = join(process.cwd(), ".vercel");
-  if (existsSync(vercelDir)) {
-    console.log(chalk.yellow("🧹 Cleaning .vercel directory..."));
-    rmSync(vercelDir, { recursive: true, force: true });
-    fixApplied = true;
-  }
-  
-  // Fix 3: Ensure package.json has necessary fields
-  const packageJsonPath = join(process.cwd(), "package.json");
-  if (existsSync(packageJsonPath)) {
-    try {
-      const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
-      let modified = false;
-      
-      if (!packageJson.engines) {
-        packageJson.engines = { node: ">=16.x" };
-        modified = true;
-      }
-      
-      if (!packageJson.scripts?.build) {
-        if (!packageJson.scripts) packageJson.scripts = {};
-        packageJson.scripts.build = "echo 'No build step'";
-        modified = true;
-      }
-      
-      if (modified) {
-        console.log(chalk.yellow("📦 Updating package.json..."));
-        writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
-        fixApplied = true;
-      }
-    } catch {
-      // Ignore parse errors
-    }
+    log.stepStarted("auto-fix", `\n🔧 Found ${proposed.length} fix${proposed.length === 1 ? "" : "es"} for this failure...`);
+    const applied = await applyDeployFixes(cwd, proposed, { confirm: !isNonInteractive() });
+    log.stepFinished("auto-fix", undefined, applied.length > 0);
+
+    if (applied.length === 0) throw error;
+
+    log.info("💡 Run 'aigs undo-fix' (npm run undo-last-fix) to revert a fix.");
+    log.info("\n🔄 Retrying deployment...");
+    return await vercelDeploy(options);
   }
-  
-  return fixApplied;
 }
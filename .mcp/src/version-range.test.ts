@@ -0,0 +1,73 @@
+// version-range.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { coerceVersion, compareVersions, isValidRange, satisfies } from "./version-range.js";
+
+describe("satisfies", () => {
+  const cases: Array<[string, string, boolean]> = [
+    ["20.11.1", "^20 || ^22", true],
+    ["22.0.0", "^20 || ^22", true],
+    ["21.7.3", "^20 || ^22", false],
+    ["18.17.0", ">=18.17 <21", true],
+    ["18.16.9", ">=18.17 <21", false],
+    ["21.0.0", ">=18.17 <21", false],
+    ["1.2.3", "1.2.3 - 2.x", true],
+    ["2.99.0", "1.2.3 - 2.x", true],
+    ["3.0.0", "1.2.3 - 2.x", false],
+    ["0.2.5", "^0.2.3", true],
+    ["0.3.0", "^0.2.3", false],
+    ["0.0.4", "^0.0.3", false],
+    ["1.2.9", "~1.2", true],
+    ["1.3.0", "~1.2", false],
+    ["2.0.0", ">1", true],
+    ["1.9.9", ">1", false],
+    ["1.2.9", "<=1.2", true],
+    ["1.3.0", "<=1.2", false],
+    ["20.5.0", "20.x", true],
+    ["20.5.0", "v20", true],
+    ["18.0.0", ">= 18", true],
+    ["5.0.0", "*", true],
+    ["1.2.4", "1.2.3", false]
+  ];
+
+  for (const [version, range, expected] of cases) {
+    test(`${version} ${expected ? "satisfies" : "does not satisfy"} ${range}`, () => {
+      assert.equal(satisfies(version, range), expected);
+    });
+  }
+
+  test("ignores prerelease tags and accepts tool output as the version", () => {
+    assert.equal(satisfies("23.0.0-nightly", ">=23"), true);
+    assert.equal(satisfies("v20.11.1", "^20"), true);
+    assert.equal(satisfies("git version 2.43.0", ">=2.25.0"), true);
+  });
+
+  test("throws on a version it cannot read", () => {
+    assert.throws(() => satisfies("latest", "^20"), /Invalid version: latest/);
+  });
+});
+
+describe("isValidRange", () => {
+  test("accepts the ranges engines fields use and rejects the rest", () => {
+    for (const range of ["^20 || ^22", ">=18.17 <21", "1.2.3 - 2.x", "~1.2", "*", "20.x"]) {
+      assert.equal(isValidRange(range), true, range);
+    }
+    for (const range of ["lts/iron", "latest", ">=foo", "^20 ||| ^22"]) {
+      assert.equal(isValidRange(range), false, range);
+    }
+  });
+});
+
+describe("coerceVersion and compareVersions", () => {
+  test("pull the first version out of tool output", () => {
+    assert.equal(coerceVersion("OpenSSH_9.6p1 Ubuntu"), "9.6.0");
+    assert.equal(coerceVersion("Vercel CLI 37.4.2"), "37.4.2");
+    assert.equal(coerceVersion("no version here"), undefined);
+  });
+
+  test("order versions numerically", () => {
+    assert.equal(compareVersions("1.10.0", "1.9.0"), 1);
+    assert.equal(compareVersions("v2.0.0", "2.0"), 0);
+    assert.equal(compareVersions("1.2.3", "1.2.4"), -1);
+  });
+});
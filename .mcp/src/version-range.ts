@@ -0,0 +1,123 @@
+// version-range.ts
+
+/**
+ * The subset of npm's semver ranges that engines fields and version files
+ * use: "^20 || ^22", "~1.2", ">=18.17 <21", "1.2.3 - 2.x", "20.x" and "*".
+ * Prerelease tags are ignored, so 23.0.0-nightly counts as 23.0.0.
+ */
+
+type Triple = [number, number, number];
+
+interface Comparator {
+  operator: "<" | "<=" | ">" | ">=" | "=";
+  version: Triple;
+}
+
+// A version with wildcards or missing parts left undefined, e.g. 20.x
+type PartialVersion = [number | undefined, number | undefined, number | undefined];
+
+// The first x.y or x.y.z in tool output such as "git version 2.43.0" or "OpenSSH_9.6p1"
+export function coerceVersion(text: string): string | undefined {
+  const match = text.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+  return match ? `${match[1]}.${match[2]}.${match[3] ?? 0}` : undefined;
+}
+
+export function compareVersions(version1: string, version2: string): number {
+  return compareTriples(toTriple(version1), toTriple(version2));
+}
+
+export function satisfies(version: string, range: string): boolean {
+  const triple = toTriple(version);
+  return parseRange(range).some(set => set.every(comparator => test(triple, comparator)));
+}
+
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Helper functions
+
+function parseRange(range: string): Comparator[][] {
+  return range.split("||").map(set => {
+    const trimmed = set.trim();
+    const hyphen = trimmed.match(/^(\S+)\s+-\s+(\S+)$/);
+    if (hyphen) {
+      return [...expand(">=", parsePartial(hyphen[1], range)), ...expand("<=", parsePartial(hyphen[2], range))];
+    }
+    // ">= 18" is the same as ">=18"
+    const tokens = trimmed.replace(/(<=|>=|<|>|=|\^|~)\s+/g, "$1").split(/\s+/).filter(Boolean);
+    return tokens.flatMap(token => {
+      const [, operator = "", version] = token.match(/^(<=|>=|<|>|=|\^|~)?(.*)$/)!;
+      return expand(operator, parsePartial(version, range));
+    });
+  });
+}
+
+function parsePartial(text: string, range: string): PartialVersion {
+  const match = text.match(/^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-[\w.-]+)?(?:\+[\w.-]+)?$/);
+  if (!match) throw new Error(`Invalid version range: ${range}`);
+  const parts = match.slice(1, 4).map(part => (part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part)));
+  // Nothing after a wildcard counts, so 1.x.3 is 1.x
+  const wildcard = parts.indexOf(undefined);
+  return (wildcard === -1 ? parts : parts.map((part, index) => (index > wildcard ? undefined : part))) as PartialVersion;
+}
+
+// Turns one comparator with a partial version into plain comparisons on full versions
+function expand(operator: string, [major, minor, patch]: PartialVersion): Comparator[] {
+  if (major === undefined) return [];
+  const lower: Triple = [major, minor ?? 0, patch ?? 0];
+  // The first version past what the partial version covers: 1 -> 2.0.0, 1.2 -> 1.3.0
+  const next: Triple = minor === undefined ? [major + 1, 0, 0] : [major, minor + 1, 0];
+
+  switch (operator) {
+    case "^": {
+      const upper: Triple = major > 0 || minor === undefined
+        ? [major + 1, 0, 0]
+        : minor > 0 || patch === undefined ? [0, minor + 1, 0] : [0, 0, patch + 1];
+      return [{ operator: ">=", version: lower }, { operator: "<", version: upper }];
+    }
+    case "~":
+      return [{ operator: ">=", version: lower }, { operator: "<", version: next }];
+    case ">":
+      return [patch !== undefined ? { operator: ">", version: lower } : { operator: ">=", version: next }];
+    case ">=":
+      return [{ operator: ">=", version: lower }];
+    case "<":
+      return [{ operator: "<", version: lower }];
+    case "<=":
+      return [patch !== undefined ? { operator: "<=", version: lower } : { operator: "<", version: next }];
+    default:
+      return patch !== undefined
+        ? [{ operator: "=", version: lower }]
+        : [{ operator: ">=", version: lower }, { operator: "<", version: next }];
+  }
+}
+
+function test(version: Triple, { operator, version: bound }: Comparator): boolean {
+  const order = compareTriples(version, bound);
+  switch (operator) {
+    case "<": return order < 0;
+    case "<=": return order <= 0;
+    case ">": return order > 0;
+    case ">=": return order >= 0;
+    default: return order === 0;
+  }
+}
+
+function toTriple(version: string): Triple {
+  const coerced = coerceVersion(version) ?? (/^v?\d+$/.test(version.trim()) ? `${version.trim().replace(/^v/, "")}.0.0` : undefined);
+  if (!coerced) throw new Error(`Invalid version: ${version}`);
+  return coerced.split(".").map(Number) as Triple;
+}
+
+function compareTriples(a: Triple, b: Triple): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] > b[i] ? 1 : -1;
+  }
+  return 0;
+}
@@ -0,0 +1,74 @@
+// workspace-resources.test.ts
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { symlinkSync } from "node:fs";
+import { join } from "node:path";
+import { tempDir, tempProject, writeProjectFiles } from "./test-fixtures/projects.js";
+import { FILE_URI_PREFIX, WorkspaceResourceProvider } from "./workspace-resources.js";
+
+let root: string;
+let outside: string;
+let provider: WorkspaceResourceProvider;
+
+before(() => {
+  outside = tempDir("workspace-outside-");
+  writeProjectFiles(outside, { hostname: "not yours\n" });
+  root = tempProject({
+    "package.json": {},
+    "README.md": "# Demo\n",
+    ".env": "API_KEY=hunter2\n",
+    ".env.example": "API_KEY=\n",
+    ".gitignore": "*.log\n",
+    "debug.log": "noise\n",
+    "src/.gitignore": "generated.ts\n",
+    "src/generated.ts": "export {};\n",
+    "src/index.ts": "export const answer = 42;\n"
+  });
+  symlinkSync(join(outside, "hostname"), join(root, "link.txt"));
+  symlinkSync(join(root, ".env"), join(root, "env-link.txt"));
+  symlinkSync(join(root, "README.md"), join(root, "readme-link.md"));
+
+  provider = new WorkspaceResourceProvider(root, () => {});
+});
+
+describe("WorkspaceResourceProvider", () => {
+  test("serves files inside the workspace, through symlinks that stay inside it", async () => {
+    assert.equal((await read("src/index.ts")).text, "export const answer = 42;\n");
+    assert.equal((await read("readme-link.md")).text, "# Demo\n");
+    assert.equal((await read(".env.example")).text, "API_KEY=\n");
+  });
+
+  test("refuses symlinks that lead outside the workspace", async () => {
+    await assert.rejects(read("link.txt"), /outside the project root/);
+  });
+
+  test("refuses secret files, directly or through a symlink", async () => {
+    await assert.rejects(read(".env"), /not served as a resource: \.env/);
+    await assert.rejects(read("env-link.txt"), /not served as a resource/);
+  });
+
+  test("refuses files the root and nested .gitignore files exclude", async () => {
+    await assert.rejects(read("debug.log"), /not served as a resource/);
+    await assert.rejects(read("src/generated.ts"), /not served as a resource/);
+  });
+
+  test("refuses paths outside the root", async () => {
+    await assert.rejects(read("../hostname"), /outside the project root/);
+  });
+
+  test("does not list secret files", async () => {
+    const names = (await provider.listResources()).map(resource => resource.name);
+
+    assert.ok(names.includes("README.md"));
+    assert.equal(names.includes(".env"), false);
+    assert.equal(names.includes("debug.log"), false);
+  });
+});
+
+// Helper functions
+
+async function read(relativePath: string) {
+  const contents = await provider.readResource(FILE_URI_PREFIX + relativePath.split("/").map(encodeURIComponent).join("/"));
+  assert.ok(contents);
+  return contents;
+}
@@ -0,0 +1,227 @@
+// workspace-resources.ts
+import { existsSync, readFileSync, realpathSync, statSync } from "node:fs";
+import { extname, join, relative, sep } from "node:path";
+import chokidar, { type FSWatcher } from "chokidar";
+import type { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { projectContextScan, type ProjectContext } from "./project-context.js";
+import { resolveSafePath } from "./path-helper.js";
+import { readDeploymentHistory } from "./deployment-history.js";
+import { isSecretFile } from "./git-helper.js";
+import { isIgnored, loadIgnoreRules } from "./ignore-rules.js";
+
+export const STRUCTURE_URI = "saas://project/structure";
+export const PACKAGE_URI = "saas://project/package";
+export const DEPLOYMENTS_URI = "saas://project/deployments";
+export const FILE_URI_PREFIX = "saas://project/file/";
+
+// Keep the resource list and file reads small enough for an MCP client to handle
+const MAX_LISTED_FILES = 500;
+const MAX_FILE_BYTES = 1024 * 1024;
+const CHANGE_DEBOUNCE_MS = 250;
+
+// Root ignore files the structure scan applies; nested .gitignore files apply as well
+const IGNORE_FILES = [".gitignore", ".vercelignore"];
+
+const MIME_TYPES: Record<string, string> = {
+  ".ts": "text/x-typescript",
+  ".tsx": "text/x-typescript",
+  ".js": "text/javascript",
+  ".mjs": "text/javascript",
+  ".cjs": "text/javascript",
+  ".jsx": "text/javascript",
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".yml": "text/yaml",
+  ".yaml": "text/yaml"
+};
+
+interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Serves the scanned workspace as MCP resources and watches it with chokidar
+ * so clients are told when the resource list changes.
+ */
+export class WorkspaceResourceProvider {
+  private readonly root: string;
+  private readonly onListChanged: () => void;
+  private context?: Promise<ProjectContext>;
+  private watcher?: FSWatcher;
+  private debounceTimer?: NodeJS.Timeout;
+
+  constructor(root: string, onListChanged: () => void) {
+    this.root = root;
+    this.onListChanged = onListChanged;
+  }
+
+  start(): void {
+    if (this.watcher) return;
+
+    this.watcher = chokidar.watch(this.root, {
+      ignoreInitial: true,
+      ignored: /(^|[\/\\])(node_modules|\.git|dist)([\/\\]|$)/,
+      persistent: true
+    });
+
+    // Only structural changes alter the list; content edits are picked up on read
+    const invalidate = () => this.invalidate();
+    this.watcher
+      .on("add", invalidate)
+      .on("unlink", invalidate)
+      .on("addDir", invalidate)
+      .on("unlinkDir", invalidate)
+      .on("change", path => {
+        if (path === join(this.root, "package.json")) this.invalidate();
+      })
+      .on("error", error => console.error("Workspace watcher error:", error));
+  }
+
+  async close(): Promise<void> {
+    clearTimeout(this.debounceTimer);
+    await this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  async listResources(): Promise<Resource[]> {
+    const context = await this.getContext();
+    const resources: Resource[] = [
+      {
+        uri: STRUCTURE_URI,
+        name: "Project Structure",
+        description: `Files and directories scanned from ${this.root}`,
+        mimeType: "application/json"
+      },
+      {
+        uri: DEPLOYMENTS_URI,
+        name: "Deployment History",
+        description: "Recorded Vercel deployments, newest first",
+        mimeType: "application/json"
+      }
+    ];
+
+    if (context.hasPackageJson) {
+      resources.push({
+        uri: PACKAGE_URI,
+        name: "package.json",
+        description: "Parsed package.json of the workspace",
+        mimeType: "application/json"
+      });
+    }
+
+    // The scan lists .env for deployments, but its contents are never served
+    const files = context.structure
+      .filter(entry => entry.type === "file" && !isSecretFile(entry.path))
+      .slice(0, MAX_LISTED_FILES);
+    for (const file of files) {
+      resources.push({
+        uri: toFileUri(file.path),
+        name: file.path,
+        mimeType: mimeTypeFor(file.path)
+      });
+    }
+
+    return resources;
+  }
+
+  listResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${FILE_URI_PREFIX}{path}`,
+        name: "Workspace File",
+        description: "Read a file by its path relative to the workspace root"
+      }
+    ];
+  }
+
+  /**
+   * Returns the contents for a workspace URI, or undefined when the URI is not
+   * one this provider serves.
+   */
+  async readResource(uri: string): Promise<ResourceContents | undefined> {
+    if (uri === STRUCTURE_URI) {
+      const context = await this.getContext();
+      return { uri, mimeType: "application/json", text: JSON.stringify(context.structure, null, 2) };
+    }
+
+    if (uri === PACKAGE_URI) {
+      const packageJsonPath = join(this.root, "package.json");
+      if (!existsSync(packageJsonPath)) {
+        throw new Error("No package.json found in the workspace");
+      }
+      const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
+      return { uri, mimeType: "application/json", text: JSON.stringify(packageJson, null, 2) };
+    }
+
+    if (uri === DEPLOYMENTS_URI) {
+      return { uri, mimeType: "application/json", text: JSON.stringify(readDeploymentHistory(this.root), null, 2) };
+    }
+
+    if (uri.startsWith(FILE_URI_PREFIX)) {
+      const relativePath = decodeURIComponent(uri.slice(FILE_URI_PREFIX.length));
+      const requestedPath = resolveSafePath(relativePath, this.root);
+
+      if (!existsSync(requestedPath) || !statSync(requestedPath).isFile()) {
+        throw new Error(`File not found in workspace: ${relativePath}`);
+      }
+      // A symlink inside the root can point anywhere, so the target is checked against the real root too
+      const realRoot = realpathSync(this.root);
+      const filePath = realpathSync(requestedPath);
+      resolveSafePath(filePath, realRoot);
+      for (const path of [relative(this.root, requestedPath), relative(realRoot, filePath)]) {
+        if (!this.isServable(path.split(sep).join("/"))) {
+          throw new Error(`File is not served as a resource: ${relativePath}`);
+        }
+      }
+      if (statSync(filePath).size > MAX_FILE_BYTES) {
+        throw new Error(`File is too large to read as a resource: ${relativePath}`);
+      }
+
+      return { uri, mimeType: mimeTypeFor(filePath), text: readFileSync(filePath, "utf-8") };
+    }
+
+    return undefined;
+  }
+
+  // Secret files, git internals and anything the ignore files exclude stay private
+  private isServable(relativePath: string): boolean {
+    if (isSecretFile(relativePath) || relativePath.split("/").includes(".git")) return false;
+
+    const segments = relativePath.split("/");
+    const rules = IGNORE_FILES.flatMap(file => loadIgnoreRules(join(this.root, file)));
+    for (let index = 1; index < segments.length; index++) {
+      const base = segments.slice(0, index).join("/");
+      rules.push(...loadIgnoreRules(join(this.root, base, ".gitignore"), base));
+    }
+    return !isIgnored(rules, relativePath, false);
+  }
+
+  private getContext(): Promise<ProjectContext> {
+    if (!this.context) {
+      this.context = projectContextScan(this.root);
+      // Do not cache failures; the next request retries the scan
+      this.context.catch(() => {
+        this.context = undefined;
+      });
+    }
+    return this.context;
+  }
+
+  private invalidate(): void {
+    this.context = undefined;
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => this.onListChanged(), CHANGE_DEBOUNCE_MS);
+  }
+}
+
+function toFileUri(relativePath: string): string {
+  return FILE_URI_PREFIX + relativePath.split(/[\/\\]/).map(encodeURIComponent).join("/");
+}
+
+function mimeTypeFor(path: string): string {
+  return MIME_TYPES[extname(path).toLowerCase()] || "text/plain";
+}
@@ -0,0 +1,77 @@
+// workspaces.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { discoverWorkspace, workspaceBuildCommand } from "./workspaces.js";
+import { tempProject } from "./test-fixtures/projects.js";
+
+const paths = (root: string) => discoverWorkspace(root)?.packages.map(pkg => pkg.path);
+
+describe("discoverWorkspace", () => {
+  test("expands * and ** globs, minus negated patterns", () => {
+    const root = tempProject({
+      "package.json": { workspaces: ["packages/*", "apps/**", "!packages/legacy"] },
+      "packages/ui/package.json": { name: "@acme/ui" },
+      "packages/legacy/package.json": { name: "legacy" },
+      "packages/notes/README.md": "not a package",
+      "apps/web/package.json": { name: "web" },
+      "apps/tools/cli/package.json": { name: "cli" },
+      "apps/web/node_modules/dep/package.json": { name: "dep" },
+      "apps/.cache/package.json": { name: "cache" }
+    });
+
+    assert.deepEqual(paths(root), ["apps/tools/cli", "apps/web", "packages/ui"]);
+  });
+
+  test("matches * inside a segment and the Yarn nohoist form", () => {
+    const root = tempProject({
+      "package.json": { workspaces: { packages: ["services/api-*"], nohoist: ["**/react-native"] } },
+      "services/api-users/package.json": { name: "users" },
+      "services/worker/package.json": { name: "worker" }
+    });
+
+    assert.deepEqual(paths(root), ["services/api-users"]);
+  });
+
+  test("reads pnpm-workspace.yaml with quotes and comments", () => {
+    const root = tempProject({
+      "package.json": { name: "root" },
+      "pnpm-workspace.yaml": "packages:\n  - 'apps/*' # deployable\n  - \"libs/core\"\ncatalog:\n  - ignored/*\n",
+      "apps/site/package.json": { name: "site", scripts: { build: "vite build", bad: 1 } },
+      "libs/core/package.json": { name: "core" },
+      "ignored/x/package.json": { name: "x" }
+    });
+    const workspace = discoverWorkspace(root);
+
+    assert.deepEqual(workspace?.tools, ["pnpm"]);
+    assert.deepEqual(workspace?.packages.map(pkg => [pkg.name, pkg.path, pkg.scripts]), [
+      ["site", "apps/site", { build: "vite build" }],
+      ["core", "libs/core", {}]
+    ]);
+  });
+
+  test("falls back to Nx's default folders and project.json names", () => {
+    const root = tempProject({ "nx.json": {}, "package.json": { name: "root" }, "libs/auth/project.json": { name: "auth" } });
+
+    assert.deepEqual(discoverWorkspace(root)?.packages.map(pkg => `${pkg.name} ${pkg.path}`), ["auth libs/auth"]);
+  });
+
+  test("is undefined for a single package or globs that match nothing", () => {
+    assert.equal(discoverWorkspace(tempProject({ "package.json": { name: "app" } })), undefined);
+    assert.equal(discoverWorkspace(tempProject({ "package.json": { workspaces: ["packages/*"] } })), undefined);
+    assert.equal(discoverWorkspace(tempProject({ "package.json": "[1, 2]" })), undefined);
+  });
+});
+
+describe("workspaceBuildCommand", () => {
+  test("builds through turbo, or the manager's own workspace filter", () => {
+    const files = { "packages/web/package.json": { name: "web", scripts: { build: "next build" } } };
+    const build = (root: string) => {
+      const workspace = discoverWorkspace(root)!;
+      return workspaceBuildCommand(workspace, workspace.packages[0]);
+    };
+
+    assert.equal(build(tempProject({ ...files, "package.json": { workspaces: ["packages/*"] }, "package-lock.json": "{}" })), "npm run build --workspace=web");
+    assert.equal(build(tempProject({ ...files, "package.json": { workspaces: ["packages/*"] }, "yarn.lock": "" })), "yarn workspace web run build");
+    assert.equal(build(tempProject({ ...files, "package.json": { workspaces: ["packages/*"] }, "turbo.json": {}, "package-lock.json": "{}" })), "npx turbo run build --filter=web");
+  });
+});
@@ -0,0 +1,204 @@
+// workspaces.ts
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { basename, join, relative, resolve } from "node:path";
+import { detectPackageManager, execCommand, runScriptCommand } from "./package-manager.js";
+
+export type WorkspaceTool = "npm" | "yarn" | "pnpm" | "bun" | "turbo" | "nx";
+
+export interface WorkspacePackageInfo {
+  name: string;
+  // Relative to the workspace root, with forward slashes
+  path: string;
+  root: string;
+  scripts: Record<string, string>;
+}
+
+export interface WorkspaceDefinition {
+  root: string;
+  tools: WorkspaceTool[];
+  patterns: string[];
+  packages: WorkspacePackageInfo[];
+}
+
+// Nx projects without workspace globs usually live here
+const NX_DEFAULT_PATTERNS = ["apps/*", "libs/*", "packages/*"];
+const MAX_GLOBSTAR_DEPTH = 5;
+
+/**
+ * Finds the packages of an npm/Yarn/Bun workspace, a pnpm workspace, a
+ * Turborepo or an Nx workspace. Returns undefined for single-package projects.
+ */
+export function discoverWorkspace(projectRoot: string): WorkspaceDefinition | undefined {
+  const root = resolve(projectRoot);
+  const tools: WorkspaceTool[] = [];
+  const patterns: string[] = [];
+
+  // A list of globs, or { packages: [...] } in Yarn's nohoist form
+  const workspaces = readJson(join(root, "package.json"))?.workspaces;
+  const declared = isRecord(workspaces) ? workspaces.packages : workspaces;
+  if (Array.isArray(declared) && declared.length > 0) {
+    const manager = detectPackageManager(root).name;
+    tools.push(manager === "pnpm" ? "npm" : manager);
+    patterns.push(...declared.map(String));
+  }
+
+  const pnpmWorkspace = join(root, "pnpm-workspace.yaml");
+  if (existsSync(pnpmWorkspace)) {
+    tools.push("pnpm");
+    patterns.push(...readPnpmWorkspacePatterns(readFileSync(pnpmWorkspace, "utf-8")));
+  }
+
+  if (existsSync(join(root, "turbo.json"))) tools.push("turbo");
+
+  const isNx = existsSync(join(root, "nx.json"));
+  if (isNx) {
+    tools.push("nx");
+    if (patterns.length === 0) patterns.push(...NX_DEFAULT_PATTERNS);
+  }
+
+  if (patterns.length === 0) return undefined;
+
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith("!");
+    const target = negated ? excluded : included;
+    for (const dir of expandPattern(root, negated ? pattern.slice(1) : pattern)) {
+      target.add(dir);
+    }
+  }
+
+  const packages: WorkspacePackageInfo[] = [];
+  for (const dir of [...included].filter(dir => !excluded.has(dir)).sort()) {
+    const pkg = readJson(join(dir, "package.json"));
+    const project = isNx ? readJson(join(dir, "project.json")) : undefined;
+    if (!pkg && !project) continue;
+
+    packages.push({
+      name: stringValue(pkg?.name) || stringValue(project?.name) || basename(dir),
+      path: relative(root, dir).split("\\").join("/"),
+      root: dir,
+      scripts: readScripts(pkg?.scripts)
+    });
+  }
+
+  return packages.length > 0 ? { root, tools, patterns, packages } : undefined;
+}
+
+/**
+ * Builds one package and whatever it depends on inside the workspace, run from
+ * the workspace root. Undefined when the package has nothing to build.
+ */
+export function workspaceBuildCommand(workspace: WorkspaceDefinition, pkg: WorkspacePackageInfo): string | undefined {
+  const manager = detectPackageManager(workspace.root);
+
+  if (workspace.tools.includes("turbo")) {
+    return execCommand(manager, `turbo run build --filter=${pkg.name}`);
+  }
+  if (workspace.tools.includes("nx")) {
+    return execCommand(manager, `nx run ${pkg.name}:build`);
+  }
+  if (!pkg.scripts.build) return undefined;
+
+  switch (manager.name) {
+    case "pnpm":
+      // The trailing ... also builds the workspace packages it depends on
+      return `${manager.bin} --filter ${pkg.name}... run build`;
+    case "yarn":
+      return `${manager.bin} workspace ${pkg.name} run build`;
+    case "bun":
+      return `bun run --filter ${pkg.name} build`;
+    default:
+      return `${runScriptCommand(manager, "build")} --workspace=${pkg.name}`;
+  }
+}
+
+// Helper functions
+
+function readPnpmWorkspacePatterns(yaml: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of yaml.split("\n")) {
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (/^\S/.test(line)) {
+      inPackages = false;
+      continue;
+    }
+    const entry = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+    if (inPackages && entry) patterns.push(entry[1]);
+  }
+
+  return patterns;
+}
+
+// Expands a workspace glob such as "packages/*" or "apps/**" to existing directories
+function expandPattern(root: string, pattern: string): string[] {
+  const segments = pattern.replace(/^\.\//, "").replace(/\/+$/, "").split("/").filter(Boolean);
+  const matches: string[] = [];
+
+  const walk = (dir: string, index: number, globstarDepth: number) => {
+    if (index === segments.length) {
+      matches.push(dir);
+      return;
+    }
+
+    const segment = segments[index];
+    if (segment === "**") {
+      walk(dir, index + 1, globstarDepth);
+      if (globstarDepth < MAX_GLOBSTAR_DEPTH) {
+        for (const child of listDirectories(dir)) walk(join(dir, child), index, globstarDepth + 1);
+      }
+    } else if (segment.includes("*")) {
+      const matcher = new RegExp(`^${segment.split("*").map(escapeRegExp).join(".*")}$`);
+      for (const child of listDirectories(dir)) {
+        if (matcher.test(child)) walk(join(dir, child), index + 1, globstarDepth);
+      }
+    } else if (existsSync(join(dir, segment)) && statSync(join(dir, segment)).isDirectory()) {
+      walk(join(dir, segment), index + 1, globstarDepth);
+    }
+  };
+
+  walk(root, 0, 0);
+  return matches;
+}
+
+function listDirectories(dir: string): string[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && entry.name !== "node_modules" && !entry.name.startsWith("."))
+      .map(entry => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function readJson(path: string): Record<string, unknown> | undefined {
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(path, "utf-8"));
+    return isRecord(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+// Script entries that are not command strings are left out
+function readScripts(value: unknown): Record<string, string> {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string"));
+}